@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // OCR assets copied from node_modules by scripts/copy-ocr-assets.mjs
+    "public/tesseract/**",
   ]),
 ]);
 
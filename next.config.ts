@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // sql.js loads its .wasm file from node_modules at runtime (Anki export)
+  serverExternalPackages: ["sql.js"],
 };
 
 export default nextConfig;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ConceptSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "topic" TEXT NOT NULL,
+    "learningLevel" TEXT NOT NULL,
+    "model" TEXT NOT NULL DEFAULT 'auto',
+    "currentStep" TEXT NOT NULL,
+    "diagnosticAnswers" TEXT,
+    "steps" TEXT NOT NULL DEFAULT '[]',
+    "stepCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ConceptSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ConceptSession_userId_idx" ON "ConceptSession"("userId");
+
+-- CreateIndex
+CREATE INDEX "ConceptSession_updatedAt_idx" ON "ConceptSession"("updatedAt");
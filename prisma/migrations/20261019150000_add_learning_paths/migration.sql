@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "LearningPath" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "goal" TEXT NOT NULL,
+    "learningLevel" TEXT NOT NULL,
+    "model" TEXT NOT NULL DEFAULT 'auto',
+    "nodes" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LearningPath_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ConceptSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "pathId" TEXT,
+    "nodeId" TEXT,
+    "topic" TEXT NOT NULL,
+    "learningLevel" TEXT NOT NULL,
+    "model" TEXT NOT NULL DEFAULT 'auto',
+    "currentStep" TEXT NOT NULL,
+    "diagnosticAnswers" TEXT,
+    "steps" TEXT NOT NULL DEFAULT '[]',
+    "stepCount" INTEGER NOT NULL DEFAULT 0,
+    "mastery" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ConceptSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ConceptSession_pathId_fkey" FOREIGN KEY ("pathId") REFERENCES "LearningPath" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_ConceptSession" ("createdAt", "currentStep", "diagnosticAnswers", "id", "learningLevel", "model", "stepCount", "steps", "topic", "updatedAt", "userId") SELECT "createdAt", "currentStep", "diagnosticAnswers", "id", "learningLevel", "model", "stepCount", "steps", "topic", "updatedAt", "userId" FROM "ConceptSession";
+DROP TABLE "ConceptSession";
+ALTER TABLE "new_ConceptSession" RENAME TO "ConceptSession";
+CREATE INDEX "ConceptSession_userId_idx" ON "ConceptSession"("userId");
+CREATE INDEX "ConceptSession_updatedAt_idx" ON "ConceptSession"("updatedAt");
+CREATE INDEX "ConceptSession_pathId_idx" ON "ConceptSession"("pathId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "LearningPath_userId_idx" ON "LearningPath"("userId");
+
+-- CreateIndex
+CREATE INDEX "LearningPath_updatedAt_idx" ON "LearningPath"("updatedAt");
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+
+/**
+ * OCR Asset Copy Script
+ *
+ * Copies the Tesseract worker, WASM core and traineddata files from
+ * node_modules into public/tesseract so OCR runs without a CDN (offline and
+ * behind school firewalls). Runs automatically after `npm install`.
+ *
+ * Usage: node scripts/copy-ocr-assets.mjs
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+const NODE_MODULES = path.join(ROOT, "node_modules");
+const TARGET = path.join(ROOT, "public", "tesseract");
+
+// Keep in sync with OCR_LANGUAGES in src/lib/ocr.ts
+const LANGUAGES = ["eng", "fra", "spa", "deu", "por", "hin", "mar", "ben", "urd", "ara", "fas"];
+
+function copy(from, to) {
+  if (!fs.existsSync(from)) {
+    console.warn(`⚠️  Missing ${path.relative(ROOT, from)} - run npm install`);
+    return false;
+  }
+  fs.mkdirSync(path.dirname(to), { recursive: true });
+  fs.copyFileSync(from, to);
+  return true;
+}
+
+let copied = 0;
+
+// Worker script
+if (copy(path.join(NODE_MODULES, "tesseract.js", "dist", "worker.min.js"), path.join(TARGET, "worker.min.js"))) {
+  copied++;
+}
+
+// WASM cores (the worker picks the SIMD/LSTM variant the browser supports)
+const coreDir = path.join(NODE_MODULES, "tesseract.js-core");
+if (fs.existsSync(coreDir)) {
+  fs.readdirSync(coreDir)
+    .filter((file) => /^tesseract-core.*\.(js|wasm)$/.test(file))
+    .forEach((file) => {
+      if (copy(path.join(coreDir, file), path.join(TARGET, "core", file))) copied++;
+    });
+}
+
+// LSTM models used for recognition
+LANGUAGES.forEach((lang) => {
+  const file = `${lang}.traineddata.gz`;
+  const from = path.join(NODE_MODULES, "@tesseract.js-data", lang, "4.0.0_best_int", file);
+  if (copy(from, path.join(TARGET, "lang", file))) copied++;
+});
+
+// Script detection (OSD) only works with the legacy engine and model
+const osd = path.join(NODE_MODULES, "@tesseract.js-data", "osd", "4.0.0", "osd.traineddata.gz");
+if (copy(osd, path.join(TARGET, "lang-legacy", "osd.traineddata.gz"))) {
+  copied++;
+}
+
+console.log(`✅ Copied ${copied} OCR assets to ${path.relative(ROOT, TARGET)}`);
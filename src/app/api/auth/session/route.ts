@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logError } from "@/lib/errorHandler";
+import { getSessionUser } from "@/lib/auth";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+
+// Return the signed-in user, or { user: null } for signed-out visitors
+export async function GET(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "session");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const user = await getSessionUser(req);
+    return NextResponse.json({ user }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    logError(error, {
+      route: "/api/auth/session",
+      operation: "GET",
+    });
+
+    // A broken session lookup should look like being signed out, not crash the navbar
+    return NextResponse.json({ user: null });
+  }
+}
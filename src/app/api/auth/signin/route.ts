@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import {
+  normalizeEmail,
+  startSession,
+  validateCredentials,
+  verifyPassword,
+} from "@/lib/auth";
+import { checkRateLimit, rateLimitExceededResponse } from "@/lib/rate-limit";
+
+interface SignInRequest {
+  email: string;
+  password: string;
+}
+
+// SECURITY: The same message is returned for unknown emails and wrong
+// passwords so the endpoint cannot be used to discover registered accounts
+const INVALID_CREDENTIALS_MESSAGE = "Invalid email or password.";
+
+// Sign in with email and password
+export async function POST(req: NextRequest) {
+  try {
+    // SECURITY: Limit attempts per IP to slow down password guessing
+    const rateLimit = await checkRateLimit(req, "auth");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    let body: SignInRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body." },
+        { status: 400 },
+      );
+    }
+
+    const validation = validateCredentials(body.email, body.password);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: INVALID_CREDENTIALS_MESSAGE },
+        { status: 401 },
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: normalizeEmail(body.email) },
+      select: { id: true, email: true, name: true, password: true },
+    });
+
+    // SECURITY: Always run bcrypt, so timing does not reveal unknown emails
+    const passwordMatches = await verifyPassword(body.password, user?.password);
+    if (!user || !passwordMatches) {
+      return NextResponse.json(
+        { error: INVALID_CREDENTIALS_MESSAGE },
+        { status: 401 },
+      );
+    }
+
+    const res = NextResponse.json({
+      user: { id: user.id, email: user.email, name: user.name },
+    });
+    await startSession(user.id, res);
+    return res;
+  } catch (error) {
+    logError(error, {
+      route: "/api/auth/signin",
+      operation: "POST",
+    });
+
+    const safeError = toSafeError(
+      error,
+      "Failed to sign in. Please try again.",
+    );
+
+    return NextResponse.json(
+      {
+        error: safeError.message,
+        code: safeError.code,
+      },
+      { status: safeError.statusCode },
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import { endSession } from "@/lib/auth";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+
+// Sign out of the current session
+export async function POST(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "session");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const res = NextResponse.json({ success: true }, { headers: rateLimitHeaders(rateLimit) });
+    await endSession(req, res);
+    return res;
+  } catch (error) {
+    logError(error, {
+      route: "/api/auth/signout",
+      operation: "POST",
+    });
+
+    const safeError = toSafeError(
+      error,
+      "Failed to sign out. Please try again.",
+    );
+
+    return NextResponse.json(
+      {
+        error: safeError.message,
+        code: safeError.code,
+      },
+      { status: safeError.statusCode },
+    );
+  }
+}
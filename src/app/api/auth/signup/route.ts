@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
+import { prisma } from "@/lib/prisma";
+import { sanitizeSingleLineInput } from "@/lib/sanitize";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import {
+  MAX_NAME_LENGTH,
+  hashPassword,
+  normalizeEmail,
+  startSession,
+  validateCredentials,
+} from "@/lib/auth";
+import { checkRateLimit, rateLimitExceededResponse } from "@/lib/rate-limit";
+
+interface SignUpRequest {
+  name?: string;
+  email: string;
+  password: string;
+}
+
+function emailTakenResponse() {
+  return NextResponse.json(
+    { error: "An account with this email already exists." },
+    { status: 409 },
+  );
+}
+
+// Create an account and sign the new user in
+export async function POST(req: NextRequest) {
+  try {
+    // SECURITY: Limit attempts per IP to slow down password guessing
+    const rateLimit = await checkRateLimit(req, "auth");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    let body: SignUpRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body." },
+        { status: 400 },
+      );
+    }
+
+    const validation = validateCredentials(body.email, body.password);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const email = normalizeEmail(body.email);
+    const name = sanitizeSingleLineInput(body.name || "", MAX_NAME_LENGTH) || null;
+
+    const existing = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+    if (existing) {
+      return emailTakenResponse();
+    }
+
+    let user;
+    try {
+      user = await prisma.user.create({
+        data: {
+          email,
+          name,
+          password: await hashPassword(body.password),
+        },
+        select: { id: true, email: true, name: true },
+      });
+    } catch (error) {
+      // A concurrent sign-up for the same email won the unique constraint
+      if (error instanceof PrismaClientKnownRequestError && error.code === "P2002") {
+        return emailTakenResponse();
+      }
+      throw error;
+    }
+
+    const res = NextResponse.json({ user }, { status: 201 });
+    await startSession(user.id, res);
+    return res;
+  } catch (error) {
+    logError(error, {
+      route: "/api/auth/signup",
+      operation: "POST",
+    });
+
+    const safeError = toSafeError(
+      error,
+      "Failed to create account. Please try again.",
+    );
+
+    return NextResponse.json(
+      {
+        error: safeError.message,
+        code: safeError.code,
+      },
+      { status: safeError.statusCode },
+    );
+  }
+}
@@ -1,84 +1,60 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGroqClient } from "@/lib/groq";
 import { sanitizeTextInput, sanitizeSingleLineInput } from "@/lib/sanitize";
+import { mathPromptRules } from "@/lib/math";
 import { logError, toSafeError } from "@/lib/errorHandler";
 import { getModel } from "@/lib/modelRouter";
-
-// ============================================================================
-// SECURITY: Rate Limiting (In-Memory Store)
-// TODO: Replace with Redis for production
-// ============================================================================
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Rate limit: 10 requests per minute per IP
-const RATE_LIMIT_MAX_REQUESTS = 10;
-const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
-
-function getRateLimitKey(req: NextRequest): string {
-  const forwarded = req.headers.get("x-forwarded-for");
-  const ip = forwarded ? forwarded.split(",")[0].trim() : req.headers.get("x-real-ip") || "unknown";
-  return `concept-booster:${ip}`;
-}
-
-function checkRateLimit(key: string): { allowed: boolean; remaining: number; resetAt: number } {
-  const now = Date.now();
-  const entry = rateLimitStore.get(key);
-
-  // Clean up expired entries periodically
-  if (Math.random() < 0.1) {
-    for (const [k, v] of rateLimitStore.entries()) {
-      if (v.resetTime < now) {
-        rateLimitStore.delete(k);
-      }
-    }
-  }
-
-  if (!entry || entry.resetTime < now) {
-    const newEntry: RateLimitEntry = {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW_MS,
-    };
-    rateLimitStore.set(key, newEntry);
-    return {
-      allowed: true,
-      remaining: RATE_LIMIT_MAX_REQUESTS - 1,
-      resetAt: newEntry.resetTime,
-    };
-  }
-
-  if (entry.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetAt: entry.resetTime,
-    };
-  }
-
-  entry.count++;
-  return {
-    allowed: true,
-    remaining: RATE_LIMIT_MAX_REQUESTS - entry.count,
-    resetAt: entry.resetTime,
-  };
-}
+import { isProviderConfigured } from "@/lib/llm-providers";
+import type { AnsweredBy } from "@/lib/llm-fallback";
+import {
+  CONCEPT_BOOSTER_STEPS,
+  conceptBoosterResponseSchema,
+  generateStructured,
+  type ConceptBoosterResponse,
+  type ConceptBoosterStep,
+  type GradedAnswer,
+} from "@/lib/structured-output";
+import { recordHistory } from "@/lib/history-store";
+import { getCurrentUserId } from "@/lib/current-user";
+import {
+  LEARNING_LEVELS,
+  MASTERY_THRESHOLD,
+  MAX_SESSION_STEPS,
+  isConceptSessionId,
+  masteryScore,
+  type ConceptSessionDetail,
+  type ConceptSessionStep,
+  type ConceptStepInput,
+  type QuestionAnswer,
+} from "@/lib/concept-sessions";
+import {
+  appendConceptStep,
+  createConceptSession,
+  getConceptSession,
+} from "@/lib/concept-session-store";
+import { getLearningPath } from "@/lib/learning-path-store";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
 
 // ============================================================================
 // SECURITY: Input Validation & Sanitization
 // ============================================================================
 const MAX_TOPIC_LENGTH = 500;
-const MAX_REQUEST_SIZE = 2000;
+// Sessions are stored server-side, so a request carries only the new input
+const MAX_REQUEST_SIZE = 20000;
+const MAX_ANSWERS = 10;
+const MAX_QUESTION_LENGTH = 500;
+const MAX_ANSWER_LENGTH = 2000;
+const MAX_DOUBT_LENGTH = 1000;
+const MAX_RESPONSE_LENGTH = 5000;
+// How much of earlier steps is repeated to the model as context
+const MAX_CONTEXT_EXCERPT = 800;
+const MAX_CONTEXT_DOUBTS = 3;
 
 // Use the centralized sanitization utility
 function sanitizeText(text: string): string {
   return sanitizeTextInput(text, MAX_TOPIC_LENGTH);
 }
 
-function validateInput(topic: string, learningLevel: string, step?: string, userResponse?: string): {
+function validateInput(topic: string, learningLevel: string): {
   valid: boolean;
   error?: string;
 } {
@@ -98,67 +74,113 @@ function validateInput(topic: string, learningLevel: string, step?: string, user
     };
   }
 
-  const validLevels = [
-    "Class 6–8",
-    "Class 9–10",
-    "Class 11–12 (FSc/Intermediate)",
-    "University Level",
-    "Beginner Adult",
-    "Advanced Learner",
-    "Other",
-  ];
-  if (!validLevels.includes(learningLevel)) {
+  if (!LEARNING_LEVELS.includes(learningLevel)) {
     return { valid: false, error: `Invalid learning level.` };
   }
 
   return { valid: true };
 }
 
+function validateStep(step: unknown): { valid: boolean; error?: string } {
+  if (step !== undefined && !(CONCEPT_BOOSTER_STEPS as readonly unknown[]).includes(step)) {
+    return { valid: false, error: `Step must be one of: ${CONCEPT_BOOSTER_STEPS.join(", ")}.` };
+  }
+
+  return { valid: true };
+}
+
+function sanitizeAnswers(value: unknown): QuestionAnswer[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .slice(0, MAX_ANSWERS)
+    .filter((item): item is QuestionAnswer =>
+      typeof item?.question === "string" && typeof item?.answer === "string")
+    .map((item) => ({
+      question: sanitizeSingleLineInput(item.question, MAX_QUESTION_LENGTH),
+      answer: sanitizeTextInput(item.answer, MAX_ANSWER_LENGTH),
+    }));
+}
+
 // ============================================================================
 // Types
 // ============================================================================
 interface ConceptBoosterRequest {
-  topic: string;
-  learning_level: string;
-  step?: "diagnostic" | "explanation" | "ask_doubts" | "check_understanding" | "practice" | "feedback";
-  diagnostic_answers?: Array<{ question: string; answer: string }>;
+  // Omitted to start a new session with the diagnostic step
+  session_id?: string;
+  // Start a session for a sub-topic of a learning path
+  path_id?: string;
+  node_id?: string;
+  // Only read when starting a session for a topic
+  topic?: string;
+  learning_level?: string;
+  model?: string;
+  step?: ConceptBoosterStep;
+  diagnostic_answers?: QuestionAnswer[];
   skip_diagnostic?: boolean;
   doubt?: string;
+  understanding_answers?: QuestionAnswer[];
   user_response?: string;
-  conversation_history?: Array<{ role: "user" | "assistant"; content: string }>;
-  model?: string;
 }
 
-interface ConceptBoosterResponse {
-  status: "OK" | "ERROR";
-  step: string;
-  content: {
-    questions?: Array<{ id: number; question: string }>;
-    explanation?: {
-      simple_intuition: string;
-      analogy: string;
-      level_appropriate_detail: string;
-      example: string;
-    };
-    understanding_check?: {
-      questions: Array<{ id: number; question: string; correct_answer?: string }>;
-    };
-    practice_task?: {
-      task: string;
-      ideal_response?: string;
-    };
-    feedback?: {
-      comparison: string;
-      improvements: string[];
-      misunderstandings: string[];
-    };
-    message?: string;
-  };
-  metadata?: {
-    learning_level: string;
-    topic: string;
-    tokens_estimate: number;
-  };
+// What the route returns: the model's answer plus which model gave it
+type ConceptBoosterResult = ConceptBoosterResponse & {
+  metadata: NonNullable<ConceptBoosterResponse["metadata"]> & AnsweredBy;
+  session_id: string;
+};
+
+// ============================================================================
+// Session Context
+// ============================================================================
+function excerpt(text: string): string {
+  return text.length > MAX_CONTEXT_EXCERPT ? `${text.substring(0, MAX_CONTEXT_EXCERPT)}…` : text;
+}
+
+function formatAnswers(answers: QuestionAnswer[]): string {
+  return answers.map((q) => `Q: ${q.question}\nA: ${q.answer || "(no answer)"}`).join("\n\n");
+}
+
+function findLastStep(session: ConceptSessionDetail, step: ConceptBoosterStep) {
+  return session.steps.findLast((entry) => entry.step === step);
+}
+
+// The latest grading scored below the mastery threshold and no review has followed it
+function needsReview(session: ConceptSessionDetail): boolean {
+  const gradingIndex = session.steps.findLastIndex((entry) => entry.step === "grading");
+  if (gradingIndex < 0) return false;
+
+  const mastery = session.steps[gradingIndex].content.grading?.mastery ?? 0;
+  return mastery < MASTERY_THRESHOLD && !session.steps.slice(gradingIndex + 1).some((entry) => entry.step === "review");
+}
+
+/**
+ * What the model should know about earlier steps: the learner's starting
+ * knowledge, the explanation they were given and their recent doubts
+ */
+function describeSession(session: ConceptSessionDetail): string {
+  const parts: string[] = [];
+
+  if (session.diagnosticAnswers && session.diagnosticAnswers.length > 0) {
+    parts.push(`Learner's starting knowledge:\n${formatAnswers(session.diagnosticAnswers)}`);
+  }
+
+  const explanation = findLastStep(session, "explanation")?.content.explanation;
+  if (explanation) {
+    parts.push(`Explanation already given (excerpt): ${excerpt(
+      `${explanation.simple_intuition}\n${explanation.level_appropriate_detail}`,
+    )}`);
+  }
+
+  const doubts = session.steps
+    .filter((entry) => entry.step === "ask_doubts" && entry.input?.doubt && entry.content.answer)
+    .slice(-MAX_CONTEXT_DOUBTS);
+  if (doubts.length > 0) {
+    parts.push(doubts
+      .map((entry) => `Earlier doubt: ${entry.input?.doubt}\nAnswer given: ${excerpt(entry.content.answer || "")}`)
+      .join("\n\n"));
+  }
+
+  return parts.join("\n\n");
 }
 
 // ============================================================================
@@ -166,17 +188,10 @@ interface ConceptBoosterResponse {
 // ============================================================================
 export async function POST(req: NextRequest) {
   try {
-    // SECURITY: Rate Limiting
-    const rateLimitKey = getRateLimitKey(req);
-    const rateLimit = checkRateLimit(rateLimitKey);
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "concept-booster");
     if (!rateLimit.allowed) {
-      return NextResponse.json(
-        {
-          error: "Rate limit exceeded. Please try again later.",
-          retry_after: Math.ceil((rateLimit.resetAt - Date.now()) / 1000),
-        },
-        { status: 429 },
-      );
+      return rateLimitExceededResponse(rateLimit);
     }
 
     // SECURITY: Request Size Limit
@@ -199,40 +214,181 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const userId = await getCurrentUserId(req);
+
     // SECURITY: Input Validation
-    const validation = validateInput(
-      body.topic || "",
-      body.learning_level || "",
-      body.step,
-      body.user_response,
-    );
-    if (!validation.valid) {
+    const stepValidation = validateStep(body.step);
+    if (!stepValidation.valid) {
       return NextResponse.json(
-        { error: validation.error },
+        { error: stepValidation.error },
         { status: 400 },
       );
     }
 
-    const sanitizedTopic = sanitizeSingleLineInput(body.topic, MAX_TOPIC_LENGTH);
-    const learningLevel = sanitizeSingleLineInput(body.learning_level || "", 100);
-    const step = sanitizeSingleLineInput(body.step || "diagnostic", 50);
-    const doubt = sanitizeTextInput(body.doubt || "", 1000);
+    // Continue a stored session, or start one with the diagnostic step: for
+    // a topic, or for a sub-topic of a learning path
+    let session: ConceptSessionDetail | null = null;
+    let settings: { topic: string; learningLevel: string; model: string; pathId?: string; nodeId?: string };
+    if (body.session_id !== undefined) {
+      session = isConceptSessionId(body.session_id)
+        ? await getConceptSession(body.session_id, userId)
+        : null;
+      if (!session) {
+        return NextResponse.json(
+          { error: "Session not found." },
+          { status: 404 },
+        );
+      }
+
+      if (session.stepCount >= MAX_SESSION_STEPS) {
+        return NextResponse.json(
+          { error: "This session is full. Start a new topic to keep learning." },
+          { status: 409 },
+        );
+      }
+
+      if (!body.step || body.step === "diagnostic") {
+        return NextResponse.json(
+          { error: "Choose the next step to continue the session." },
+          { status: 400 },
+        );
+      }
+
+      settings = { topic: session.topic, learningLevel: session.learningLevel, model: session.model };
+    } else {
+      if (body.step && body.step !== "diagnostic") {
+        return NextResponse.json(
+          { error: "New sessions start with the diagnostic step." },
+          { status: 400 },
+        );
+      }
+
+      if (body.path_id !== undefined) {
+        const path = isConceptSessionId(body.path_id)
+          ? await getLearningPath(body.path_id, userId)
+          : null;
+        const node = path?.nodes.find((candidate) => candidate.id === body.node_id);
+        if (!path || !node) {
+          return NextResponse.json(
+            { error: "Learning path sub-topic not found." },
+            { status: 404 },
+          );
+        }
+
+        settings = {
+          topic: node.title,
+          learningLevel: path.learningLevel,
+          model: path.model,
+          pathId: path.id,
+          nodeId: node.id,
+        };
+      } else {
+        const validation = validateInput(body.topic || "", body.learning_level || "");
+        if (!validation.valid) {
+          return NextResponse.json(
+            { error: validation.error },
+            { status: 400 },
+          );
+        }
+
+        settings = {
+          topic: sanitizeSingleLineInput(body.topic || "", MAX_TOPIC_LENGTH),
+          learningLevel: sanitizeSingleLineInput(body.learning_level || "", 100),
+          model: sanitizeSingleLineInput(body.model || "auto", 100) || "auto",
+        };
+      }
+    }
+
+    const sanitizedTopic = settings.topic;
+    const learningLevel = settings.learningLevel;
+    const requestedModel = settings.model;
+    // Validated above, so this is one of CONCEPT_BOOSTER_STEPS
+    const step: ConceptBoosterStep = body.step || "diagnostic";
+    const doubt = sanitizeTextInput(body.doubt || "", MAX_DOUBT_LENGTH);
+    const userResponse = sanitizeTextInput(body.user_response || "", MAX_RESPONSE_LENGTH);
+
+    // Feedback compares the answer with the session's latest practice task
+    const practiceTask = session ? findLastStep(session, "practice")?.content.practice_task : undefined;
+    if (step === "feedback") {
+      if (!practiceTask) {
+        return NextResponse.json(
+          { error: "Start a practice task before asking for feedback." },
+          { status: 409 },
+        );
+      }
+      if (!userResponse.trim()) {
+        return NextResponse.json(
+          { error: "Write an answer to the practice task first." },
+          { status: 400 },
+        );
+      }
+    }
+
+    // Grading marks the answers to the session's latest understanding check
+    const understandingCheck = session
+      ? findLastStep(session, "check_understanding")?.content.understanding_check
+      : undefined;
+    let understandingAnswers: QuestionAnswer[] = [];
+    if (step === "grading") {
+      if (!understandingCheck) {
+        return NextResponse.json(
+          { error: "Take the understanding check before grading it." },
+          { status: 409 },
+        );
+      }
+
+      // Paired with the stored questions by position; the client's copy of
+      // the question text is not trusted
+      const answers = sanitizeAnswers(body.understanding_answers);
+      understandingAnswers = understandingCheck.questions.map((question, index) => ({
+        question: question.question,
+        answer: answers[index]?.answer || "",
+      }));
+    }
+
+    // A review re-explains what the latest grading found missing
+    const grading = session ? findLastStep(session, "grading")?.content.grading : undefined;
+    const missedAnswers = grading?.results.filter((result) => result.verdict !== "correct") ?? [];
+    if (step === "review" && missedAnswers.length === 0) {
+      return NextResponse.json(
+        { error: "There are no missed concepts to review." },
+        { status: 409 },
+      );
+    }
+
+    // Low mastery loops back to a targeted review before practice
+    if (step === "practice" && session && needsReview(session)) {
+      return NextResponse.json(
+        { error: "Review the missed concepts before moving on to practice." },
+        { status: 409 },
+      );
+    }
+
+    // Explanations record the diagnostic answers (empty when skipped)
+    let diagnosticAnswers: QuestionAnswer[] | undefined;
+    if (step === "explanation") {
+      diagnosticAnswers = body.skip_diagnostic
+        ? []
+        : sanitizeAnswers(body.diagnostic_answers);
+      if (diagnosticAnswers.length === 0 && !body.skip_diagnostic) {
+        diagnosticAnswers = session?.diagnosticAnswers ?? [];
+      }
+    }
 
     // Get optimal model for concept booster task (higher quality model)
     const modelConfig = getModel("concept_booster");
 
     // Override model if specified in request
-    if (body.model && body.model !== "auto") {
-      modelConfig.model = body.model;
-      modelConfig.description = `User override: ${body.model}`;
+    if (requestedModel && requestedModel !== "auto") {
+      modelConfig.model = requestedModel;
+      modelConfig.description = `User override: ${requestedModel}`;
     }
 
     // SECURITY: API keys are only accessed server-side via process.env
     // These environment variables are NOT included in the client bundle
-    const apiKey = process.env.GROQ_API_KEY || process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    if (!isProviderConfigured(modelConfig.provider)) {
       // SECURITY: Never expose API key in error messages
-      console.error("Concept Booster API: API key is missing (server-side check)");
+      console.error("Concept Booster API: LLM provider is not configured (server-side check):", modelConfig.provider);
       return NextResponse.json(
         { error: "Server configuration error: API key not found" },
         { status: 500 },
@@ -279,6 +435,7 @@ WORKFLOW:
      - University → theory + deeper insight
      - Advanced → deeper math or technical depth
    - Give a **small, level-matched example**.
+   - Add a **diagram** as Mermaid source (flowchart, sequenceDiagram or mindmap) when a picture explains the topic better than words. For Class 9–10 include one whenever the topic has a process, cycle, structure or sequence. Keep it under 15 nodes with short labels; otherwise leave the field out.
 
 3. **Ask Doubts** (ask_doubts step)
    - Allow users to ask questions about the topic they just learned.
@@ -290,19 +447,31 @@ WORKFLOW:
    - Ask 4–5 conceptual questions tailored to their level.
    - Adjust teaching if they answer incorrectly.
 
-5. **Practice Task** (practice step)
+5. **Grade Understanding** (grading step)
+   - Compare each of the learner's answers with the reference answer.
+   - Give each answer a verdict: "correct", "partial" or "incorrect".
+   - Explain each verdict in one or two sentences, and name the sub-concept a partial or incorrect answer is missing.
+
+6. **Review Missed Concepts** (review step)
+   - Re-explain only the sub-concepts the learner missed, in a different way from the first explanation.
+   - Give a short example for each.
+
+7. **Practice Task** (practice step)
    - Give 1 small task, exercise, or mini-problem suitable for their level.
 
-6. **Highlight Improvements** (feedback step)
+8. **Highlight Improvements** (feedback step)
    - Compare their answer with the ideal response.
    - Point out misunderstandings clearly (no judgment).
 
-7. **Keep Explanations Structured**
+9. **Keep Explanations Structured**
    - Use clean headings
    - Bullet points
    - Short paragraphs
    - No unnecessary complexity
 
+MATH:
+${mathPromptRules(true)}
+
 OUTPUT FORMAT (MUST BE VALID JSON ONLY):
 
 Return exactly one top-level JSON object. Do not include any additional text, commentary, or markdown — only JSON.
@@ -335,7 +504,8 @@ For explanation step:
       "simple_intuition": "Simple explanation without jargon",
       "analogy": "Daily-life analogy",
       "level_appropriate_detail": "Detailed explanation matching the level",
-      "example": "Small level-matched example"
+      "example": "Small level-matched example",
+      "diagram": "Optional Mermaid source, e.g. flowchart LR\\n  A[Sunlight] --> B[Chlorophyll] --> C[Glucose]"
     },
     "message": "Brief introduction"
   },
@@ -395,6 +565,46 @@ For check_understanding step:
   }
 }
 
+For grading step:
+{
+  "status": "OK",
+  "step": "grading",
+  "content": {
+    "grading": {
+      "results": [
+        { "id": 1, "verdict": "correct", "rationale": "Why the answer is right" },
+        { "id": 2, "verdict": "partial", "rationale": "What the answer gets right and what it misses", "missed_concept": "Sub-concept that is missing" },
+        { "id": 3, "verdict": "incorrect", "rationale": "Why the answer is wrong", "missed_concept": "Sub-concept that is misunderstood" }
+      ]
+    },
+    "message": "Brief summary of how the learner did"
+  },
+  "metadata": {
+    "learning_level": "${learningLevel}",
+    "topic": "${sanitizedTopic}",
+    "tokens_estimate": <int>
+  }
+}
+
+For review step:
+{
+  "status": "OK",
+  "step": "review",
+  "content": {
+    "review": {
+      "concepts": [
+        { "concept": "Missed sub-concept", "explanation": "Fresh, level-appropriate explanation", "example": "Short example" }
+      ]
+    },
+    "message": "Brief encouragement"
+  },
+  "metadata": {
+    "learning_level": "${learningLevel}",
+    "topic": "${sanitizedTopic}",
+    "tokens_estimate": <int>
+  }
+}
+
 For practice step:
 {
   "status": "OK",
@@ -440,19 +650,22 @@ Error format:
 }`;
 
     // Build user prompt based on step
+    const context = session ? describeSession(session) : "";
+    const header = `Topic: ${sanitizedTopic}
+Learning Level: ${learningLevel}${context ? `\n\n${context}` : ""}`;
+
     let userPrompt = "";
     if (step === "diagnostic") {
-      userPrompt = `Topic: ${sanitizedTopic}
-Learning Level: ${learningLevel}
+      userPrompt = `${header}
 
 Generate 2-3 diagnostic questions to assess the user's starting knowledge about this topic.`;
     } else if (step === "explanation") {
       // Handle skipped diagnostic - use average knowledge level
       let diagnosticInfo = "";
-      if (body.skip_diagnostic || !body.diagnostic_answers || body.diagnostic_answers.length === 0) {
+      if (!diagnosticAnswers || diagnosticAnswers.length === 0) {
         diagnosticInfo = `The user skipped the diagnostic questions. Use the average knowledge level for ${learningLevel} students to tailor the explanation.`;
       } else {
-        diagnosticInfo = `Based on these diagnostic answers:\n${body.diagnostic_answers.map((q: any) => `Q: ${q.question}\nA: ${q.answer}`).join("\n\n")}`;
+        diagnosticInfo = `Based on these diagnostic answers:\n${formatAnswers(diagnosticAnswers)}`;
       }
       userPrompt = `Topic: ${sanitizedTopic}
 Learning Level: ${learningLevel}
@@ -462,8 +675,7 @@ Provide a comprehensive explanation of this topic tailored to the learning level
     } else if (step === "ask_doubts") {
       if (doubt.trim()) {
         // User asked a specific doubt
-        userPrompt = `Topic: ${sanitizedTopic}
-Learning Level: ${learningLevel}
+        userPrompt = `${header}
 User's Doubt/Question: ${doubt}
 
 Provide a clear, level-appropriate answer to the user's doubt. Make it easy to understand and relate it back to the main topic explanation.`;
@@ -475,28 +687,42 @@ Learning Level: ${learningLevel}
 The user wants to ask doubts about this topic. Prepare a welcoming message encouraging them to ask questions.`;
       }
     } else if (step === "check_understanding") {
-      userPrompt = `Topic: ${sanitizedTopic}
-Learning Level: ${learningLevel}
+      userPrompt = `${header}
 
 Generate 4-5 conceptual questions to check understanding, tailored to this level.`;
+    } else if (step === "grading") {
+      const questions = understandingCheck?.questions ?? [];
+      userPrompt = `${header}
+
+${questions.map((question, index) => `Question ${question.id}: ${question.question}
+Reference Answer ${question.id}: ${question.correct_answer || "Not provided"}
+Learner's Answer ${question.id}: ${understandingAnswers[index]?.answer || "(no answer)"}`).join("\n\n")}
+
+Grade the learner's answers against the reference answers. Return one result per question, using its id.`;
+    } else if (step === "review") {
+      userPrompt = `${header}
+
+Missed concepts:
+${missedAnswers.map((result) => `- ${result.missed_concept || result.question || `Question ${result.id}`}: ${result.rationale}`).join("\n")}
+
+Re-explain the missed concepts in a new way, tailored to this level, with a short example for each.`;
     } else if (step === "practice") {
-      userPrompt = `Topic: ${sanitizedTopic}
-Learning Level: ${learningLevel}
+      userPrompt = `${header}
 
 Create a practice task or exercise suitable for this level.`;
     } else if (step === "feedback") {
-      userPrompt = `Topic: ${sanitizedTopic}
-Learning Level: ${learningLevel}
-User's Response: ${body.user_response || ""}
-Ideal Response: ${body.conversation_history?.find((h: any) => h.role === "assistant" && h.content.includes("ideal_response"))?.content || ""}
+      userPrompt = `${header}
+Practice Task: ${practiceTask?.task || ""}
+User's Response: ${userResponse}
+Ideal Response: ${practiceTask?.ideal_response || "Not provided; judge the response against the task."}
 
 Provide feedback comparing the user's response with the ideal response.`;
     }
 
-    // Call OpenRouter API
-    const client = getGroqClient();
-    const completion = await client.chat.completions.create({
-      model: modelConfig.model,
+    // Call the configured LLM provider (falls back to the next model on failure).
+    // The answer is repaired and validated against the schema for this step;
+    // an invalid answer gets one corrective re-prompt.
+    const { data, answeredBy } = await generateStructured(modelConfig, {
       messages: [
         {
           role: "system",
@@ -507,58 +733,94 @@ Provide feedback comparing the user's response with the ideal response.`;
           content: userPrompt,
         },
       ],
-      temperature: modelConfig.temperature,
+      schema: conceptBoosterResponseSchema(step),
+      signal: req.signal,
     });
 
-    const llmResponse = completion.choices[0]?.message?.content;
-    if (!llmResponse) {
-      throw new Error("No response received from LLM");
+    // Check for error response
+    if (data.status === "ERROR") {
+      return NextResponse.json(
+        {
+          error: data.message || "Failed to generate content",
+          error_code: data.error_code,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Attach each verdict to its question and answer, and score mastery here
+    // rather than trusting a number from the model
+    if (step === "grading" && data.content.grading) {
+      const results: GradedAnswer[] = (understandingCheck?.questions ?? []).map((question, index) => {
+        const result = data.content.grading?.results.find((graded) => graded.id === question.id);
+        return {
+          id: question.id,
+          verdict: result?.verdict ?? "incorrect",
+          rationale: result?.rationale ?? "This answer was not graded.",
+          ...(result?.missed_concept ? { missed_concept: result.missed_concept } : {}),
+          question: question.question,
+          answer: understandingAnswers[index]?.answer || "",
+        };
+      });
+      data.content.grading = { results, mastery: masteryScore(results) };
     }
 
-    // Parse the JSON response
-    let parsedResponse: any;
-    try {
-      // Extract JSON from response (handles Markdown code blocks and preambles)
-      const jsonMatch = llmResponse.match(/\{[\s\S]*\}/);
-      let cleanedResponse = jsonMatch ? jsonMatch[0] : llmResponse.trim();
+    // Store the step with the input that produced it
+    let input: ConceptStepInput | undefined;
+    if (step === "explanation") {
+      input = { answers: diagnosticAnswers };
+    } else if (step === "ask_doubts" && doubt.trim()) {
+      input = { doubt };
+    } else if (step === "grading") {
+      input = { answers: understandingAnswers };
+    } else if (step === "feedback") {
+      input = { response: userResponse };
+    }
 
-      parsedResponse = JSON.parse(cleanedResponse);
+    const entry: ConceptSessionStep = {
+      step,
+      input,
+      content: data.content,
+      createdAt: new Date().toISOString(),
+    };
 
-      // Check for error response
-      if (parsedResponse.status === "ERROR") {
+    let saved: ConceptSessionDetail | null;
+    if (session) {
+      saved = await appendConceptStep(session, entry, {
+        diagnosticAnswers,
+        mastery: data.content.grading?.mastery,
+      });
+      if (!saved) {
         return NextResponse.json(
-          {
-            error: parsedResponse.message || "Failed to generate content",
-            error_code: parsedResponse.error_code,
-          },
-          { status: 400 },
+          { error: "This session was updated in another tab. Reload the page to continue." },
+          { status: 409 },
         );
       }
+    } else {
+      saved = await createConceptSession(userId, settings, entry);
+    }
 
-      // Validate and return response
-      if (parsedResponse.status === "OK") {
-        const sourceTokens = parsedResponse.metadata?.tokens_estimate || Math.ceil(sanitizedTopic.length / 4);
-
-        // History saving removed for stateless mode
+    const sourceTokens = data.metadata?.tokens_estimate || Math.ceil(sanitizedTopic.length / 4);
+    const response: ConceptBoosterResult = {
+      ...data,
+      step: data.step || step,
+      metadata: {
+        ...data.metadata,
+        tokens_estimate: sourceTokens,
+        ...answeredBy,
+      },
+      session_id: saved.id,
+    };
 
-        return NextResponse.json(parsedResponse, {
-          headers: {
-            "X-RateLimit-Remaining": rateLimit.remaining.toString(),
-            "X-RateLimit-Reset": rateLimit.resetAt.toString(),
-          },
-        });
-      }
+    await recordHistory(req, "concept-booster", sanitizedTopic, {
+      step: response.step,
+      learning_level: learningLevel,
+      content: response.content,
+    });
 
-      throw new Error("Invalid response format");
-    } catch (parseError) {
-      console.error("Failed to parse LLM response:", {
-        error: parseError instanceof Error ? parseError.message : "Unknown error",
-        responsePreview: llmResponse.substring(0, 500),
-      });
-      throw new Error(
-        `Failed to parse response: ${parseError instanceof Error ? parseError.message : "Invalid format"}`,
-      );
-    }
+    return NextResponse.json(response, {
+      headers: rateLimitHeaders(rateLimit),
+    });
   } catch (error) {
     logError(error, {
       route: "/api/concept-booster",
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/current-user";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import { CONTINUE_LEARNING_LIMIT, isConceptSessionId } from "@/lib/concept-sessions";
+import {
+  deleteConceptSession,
+  getConceptSession,
+  listConceptSessions,
+} from "@/lib/concept-session-store";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+function errorResponse(error: unknown, operation: string, defaultMessage: string) {
+  logError(error, {
+    route: "/api/concept-booster/sessions",
+    operation,
+  });
+
+  const safeError = toSafeError(error, defaultMessage);
+
+  return NextResponse.json(
+    {
+      error: safeError.message,
+      code: safeError.code,
+    },
+    { status: safeError.statusCode },
+  );
+}
+
+function notFoundResponse() {
+  return NextResponse.json({ error: "Session not found." }, { status: 404 });
+}
+
+// ============================================================================
+// API Route Handlers
+// ============================================================================
+
+// Fetch a session with ?id=, or list recent sessions. Signed-out visitors
+// pass the ids this browser remembers as ?ids=a,b,c
+export async function GET(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "concept-sessions");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const userId = await getCurrentUserId(req);
+    const params = req.nextUrl.searchParams;
+
+    if (params.has("id")) {
+      const id = params.get("id");
+      const session = isConceptSessionId(id) ? await getConceptSession(id, userId) : null;
+      if (!session) {
+        return notFoundResponse();
+      }
+
+      return NextResponse.json({ session }, { headers: rateLimitHeaders(rateLimit) });
+    }
+
+    const ids = (params.get("ids") || "")
+      .split(",")
+      .filter(isConceptSessionId)
+      .slice(0, CONTINUE_LEARNING_LIMIT);
+
+    const sessions = await listConceptSessions(userId, ids);
+    return NextResponse.json({ sessions }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "GET", "Failed to load sessions. Please try again.");
+  }
+}
+
+// Delete a session with ?id=
+export async function DELETE(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "concept-sessions");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const userId = await getCurrentUserId(req);
+    const id = req.nextUrl.searchParams.get("id");
+
+    const deleted = isConceptSessionId(id) ? await deleteConceptSession(id, userId) : false;
+    if (!deleted) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({ success: true }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "DELETE", "Failed to delete session. Please try again.");
+  }
+}
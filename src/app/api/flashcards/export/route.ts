@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import { buildAnkiPackage } from "@/lib/anki-package";
+import { MAX_EXPORT_REQUEST_SIZE, validateFlashcardExport } from "@/lib/flashcard-export";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+
+function toFilename(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "brainbolt-flashcards"}.apkg`;
+}
+
+// ============================================================================
+// API Route Handler
+// ============================================================================
+
+// Build an Anki package (.apkg) from a generated flashcard set
+export async function POST(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "flashcards-export");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_EXPORT_REQUEST_SIZE) {
+      return NextResponse.json(
+        { error: "Request payload too large." },
+        { status: 413 },
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body." },
+        { status: 400 },
+      );
+    }
+
+    const validation = validateFlashcardExport(body);
+    if (!validation.valid || !validation.flashcards || !validation.title) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const apkg = await buildAnkiPackage(validation.flashcards, validation.title);
+
+    return new NextResponse(Buffer.from(apkg), {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${toFilename(validation.title)}"`,
+        "Cache-Control": "no-store",
+        ...rateLimitHeaders(rateLimit),
+      },
+    });
+  } catch (error) {
+    logError(error, {
+      route: "/api/flashcards/export",
+      operation: "POST",
+    });
+
+    const safeError = toSafeError(error, "Failed to build Anki package. Please try again.");
+
+    return NextResponse.json(
+      {
+        error: safeError.message,
+        code: safeError.code,
+      },
+      { status: safeError.statusCode },
+    );
+  }
+}
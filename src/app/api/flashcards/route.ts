@@ -1,73 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGroqClient } from "@/lib/groq";
 import { sanitizeTextInput, sanitizeSingleLineInput } from "@/lib/sanitize";
+import { mathPromptRules } from "@/lib/math";
 import { logError, toSafeError } from "@/lib/errorHandler";
 import { getModel } from "@/lib/modelRouter";
-
-// ============================================================================
-// SECURITY: Rate Limiting (In-Memory Store)
-// ============================================================================
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-const RATE_LIMIT_MAX_REQUESTS = 10;
-const RATE_LIMIT_WINDOW_MS = 60 * 1000;
-
-function getRateLimitKey(req: NextRequest): string {
-  const forwarded = req.headers.get("x-forwarded-for");
-  const ip = forwarded ? forwarded.split(",")[0].trim() : req.headers.get("x-real-ip") || "unknown";
-  return `flashcards:${ip}`;
-}
-
-function checkRateLimit(key: string): { allowed: boolean; remaining: number; resetAt: number } {
-  const now = Date.now();
-  const entry = rateLimitStore.get(key);
-
-  if (Math.random() < 0.1) {
-    for (const [k, v] of rateLimitStore.entries()) {
-      if (v.resetTime < now) {
-        rateLimitStore.delete(k);
-      }
-    }
-  }
-
-  if (!entry || entry.resetTime < now) {
-    const newEntry: RateLimitEntry = {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW_MS,
-    };
-    rateLimitStore.set(key, newEntry);
-    return {
-      allowed: true,
-      remaining: RATE_LIMIT_MAX_REQUESTS - 1,
-      resetAt: newEntry.resetTime,
-    };
-  }
-
-  if (entry.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetAt: entry.resetTime,
-    };
-  }
-
-  entry.count++;
-  return {
-    allowed: true,
-    remaining: RATE_LIMIT_MAX_REQUESTS - entry.count,
-    resetAt: entry.resetTime,
-  };
-}
+import { isProviderConfigured } from "@/lib/llm-providers";
+import type { AnsweredBy } from "@/lib/llm-fallback";
+import { generateStructured, FLASHCARD_RESPONSE_SCHEMA } from "@/lib/structured-output";
+import { recordHistory } from "@/lib/history-store";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+import { createEventStreamResponse } from "@/lib/sse";
+import {
+  generateInChunks,
+  removeNearDuplicates,
+  splitIntoChunks,
+  type ChunkProgress,
+} from "@/lib/chunking";
 
 // ============================================================================
 // SECURITY: Input Validation
 // ============================================================================
-const MAX_TEXT_LENGTH = 15000;
+const MAX_TEXT_LENGTH = 100000; // characters, across all chunks
+const CHUNK_LENGTH = 15000; // characters sent to the model in one call
+// Up to 3 UTF-8 bytes per character (Devanagari, Arabic, ...) plus the other fields
+const MAX_REQUEST_SIZE = MAX_TEXT_LENGTH * 3 + 2000; // bytes
 
 // Use the centralized sanitization utility
 function sanitizeText(text: string): string {
@@ -87,7 +42,7 @@ function validateInput(text: string, level: string): {
     return { valid: false, error: "Content contains no valid text after sanitization." };
   }
 
-  if (sanitized.length > MAX_TEXT_LENGTH) {
+  if (text.length > MAX_TEXT_LENGTH) {
     return {
       valid: false,
       error: `Content exceeds maximum length of ${MAX_TEXT_LENGTH} characters.`,
@@ -116,6 +71,8 @@ interface FlashcardRequest {
   content: string;
   learning_level: string;
   model?: string;
+  // Report per-chunk progress as server-sent events
+  stream?: boolean;
 }
 
 interface Flashcard {
@@ -135,24 +92,36 @@ interface FlashcardResponse {
     application_cards: number;
     trick_cards: number;
     tokens_estimate: number;
+  } & AnsweredBy;
+  // Only present when the content was split into several chunks
+  chunks?: {
+    total: number;
+    skipped: number;
+    duplicates_removed: number;
   };
 }
 
+type GenerationResult =
+  | { ok: true; response: FlashcardResponse }
+  | { ok: false; error: string; error_code?: string };
+
 // ============================================================================
 // API Route Handler
 // ============================================================================
 export async function POST(req: NextRequest) {
   try {
-    // SECURITY: Rate Limiting
-    const rateLimitKey = getRateLimitKey(req);
-    const rateLimit = checkRateLimit(rateLimitKey);
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "flashcards");
     if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    // SECURITY: Request Size Limit
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
       return NextResponse.json(
-        {
-          error: "Rate limit exceeded. Please try again later.",
-          retry_after: Math.ceil((rateLimit.resetAt - Date.now()) / 1000),
-        },
-        { status: 429 },
+        { error: "Request payload too large." },
+        { status: 413 },
       );
     }
 
@@ -190,10 +159,9 @@ export async function POST(req: NextRequest) {
 
     // SECURITY: API keys are only accessed server-side via process.env
     // These environment variables are NOT included in the client bundle
-    const apiKey = process.env.GROQ_API_KEY || process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    if (!isProviderConfigured(modelConfig.provider)) {
       // SECURITY: Never expose API key in error messages
-      console.error("Flashcards API: API key is missing (server-side check)");
+      console.error("Flashcards API: LLM provider is not configured (server-side check):", modelConfig.provider);
       return NextResponse.json(
         { error: "Server configuration error: API key not found" },
         { status: 500 },
@@ -203,9 +171,14 @@ export async function POST(req: NextRequest) {
     // ========================================================================
     // LLM Integration: Generate Flashcards
     // ========================================================================
+    // Content longer than CHUNK_LENGTH is split at headings and paragraphs
+    // and each chunk is turned into its own set of cards
+    const chunks = splitIntoChunks(sanitizedContent, CHUNK_LENGTH);
+
     console.log("Flashcard Generation Request:", {
       learningLevel,
       contentLength: sanitizedContent.length,
+      chunks: chunks.length,
     });
 
     const systemPrompt = `You are BrainBolt Flashcard Generator.
@@ -243,6 +216,7 @@ RULES:
 - Each flashcard should focus on ONE key concept
 - Match language and complexity to the selected level
 - Generate a good mix of all three types
+${mathPromptRules(true)}
 
 OUTPUT FORMAT (MUST BE VALID JSON ONLY):
 
@@ -285,9 +259,9 @@ Error format:
   "message": "Error message"
 }`;
 
-    const userPrompt = `Generate flashcards from this study material:
+    const buildUserPrompt = (chunk: string) => `Generate flashcards from this study material:
 
-${sanitizedContent}
+${chunk}
 
 Learning Level: ${learningLevel}
 
@@ -295,75 +269,74 @@ Create a comprehensive set of flashcards covering the most important concepts. I
 
 Return the flashcards in the exact JSON format specified.`;
 
-    // Call OpenRouter API
-    const client = getGroqClient();
-    const completion = await client.chat.completions.create({
-      model: modelConfig.model,
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        {
-          role: "user",
-          content: userPrompt,
+    const generate = async (
+      signal: AbortSignal,
+      onProgress?: (progress: ChunkProgress) => void,
+    ): Promise<GenerationResult> => {
+      const answers: AnsweredBy[] = [];
+      const failures: { error_code?: string; message: string }[] = [];
+      let sourceTokens = 0;
+
+      const results = await generateInChunks(
+        chunks,
+        async (chunk) => {
+          // Call the configured LLM provider (falls back to the next model on failure).
+          // The answer is repaired and validated against the flashcard schema; an
+          // invalid answer gets one corrective re-prompt.
+          const { data, answeredBy } = await generateStructured(modelConfig, {
+            messages: [
+              {
+                role: "system",
+                content: systemPrompt,
+              },
+              {
+                role: "user",
+                content: buildUserPrompt(chunk),
+              },
+            ],
+            schema: FLASHCARD_RESPONSE_SCHEMA,
+            signal,
+          });
+          answers.push(answeredBy);
+
+          // A chunk without usable content (e.g. a table of contents) is skipped
+          if (data.status === "ERROR") {
+            failures.push({
+              error_code: data.error_code,
+              message: data.message || "Failed to generate flashcards",
+            });
+            return null;
+          }
+
+          sourceTokens += data.metadata?.tokens_estimate || Math.ceil(chunk.length / 4);
+
+          return data.flashcards.map((card, cardIndex): Flashcard => ({
+            id: cardIndex + 1,
+            type: card.type || "concept",
+            front: card.front.trim(),
+            back: card.back.trim(),
+          }));
         },
-      ],
-      temperature: modelConfig.temperature,
-    });
-
-    const llmResponse = completion.choices[0]?.message?.content;
-    if (!llmResponse) {
-      throw new Error("No response received from LLM");
-    }
-
-    // Parse the JSON response
-    let parsedResponse: any;
-    try {
-      let cleanedResponse = llmResponse.trim();
-      if (cleanedResponse.startsWith("```json")) {
-        cleanedResponse = cleanedResponse.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-      } else if (cleanedResponse.startsWith("```")) {
-        cleanedResponse = cleanedResponse.replace(/^```\s*/, "").replace(/\s*```$/, "");
-      }
-
-      parsedResponse = JSON.parse(cleanedResponse);
+        onProgress,
+      );
 
-      // Check for error response
-      if (parsedResponse.status === "ERROR") {
-        return NextResponse.json(
-          {
-            error: parsedResponse.message || "Failed to generate flashcards",
-            error_code: parsedResponse.error_code,
-          },
-          { status: 400 },
-        );
+      const generated = results.flatMap((cards) => cards ?? []);
+      if (generated.length === 0 && failures.length > 0) {
+        return { ok: false, error: failures[0].message, error_code: failures[0].error_code };
       }
 
-      // Validate and format response
-      if (parsedResponse.status === "OK" && Array.isArray(parsedResponse.flashcards)) {
-        const flashcards = parsedResponse.flashcards.map((card: any, index: number) => ({
-          id: card.id || index + 1,
-          type: card.type || "concept",
-          front: String(card.front || "").trim(),
-          back: String(card.back || "").trim(),
-        })).filter((card: any) => card.front && card.back);
-
-        if (flashcards.length === 0) {
-          return NextResponse.json(
-            { error: "No valid flashcards were generated." },
-            { status: 400 },
-          );
-        }
+      // Neighbouring chunks often yield the same card; keep the first one
+      const flashcards = removeNearDuplicates(generated, (card) => card.front)
+        .map((card, index) => ({ ...card, id: index + 1 }));
 
-        // Count by type
-        const conceptCards = flashcards.filter((c: any) => c.type === "concept").length;
-        const applicationCards = flashcards.filter((c: any) => c.type === "application").length;
-        const trickCards = flashcards.filter((c: any) => c.type === "trick").length;
+      // Count by type
+      const conceptCards = flashcards.filter((c) => c.type === "concept").length;
+      const applicationCards = flashcards.filter((c) => c.type === "application").length;
+      const trickCards = flashcards.filter((c) => c.type === "trick").length;
 
-        const sourceTokens = parsedResponse.metadata?.tokens_estimate || Math.ceil(sanitizedContent.length / 4);
-
-        const response: FlashcardResponse = {
+      return {
+        ok: true,
+        response: {
           status: "OK",
           flashcards,
           metadata: {
@@ -372,30 +345,73 @@ Return the flashcards in the exact JSON format specified.`;
             concept_cards: conceptCards,
             application_cards: applicationCards,
             trick_cards: trickCards,
-            tokens_estimate: sourceTokens,
+            tokens_estimate: sourceTokens || Math.ceil(sanitizedContent.length / 4),
+            ...answers[0],
           },
-        };
+          ...(chunks.length > 1
+            ? {
+              chunks: {
+                total: chunks.length,
+                skipped: results.filter((cards) => cards === null).length,
+                duplicates_removed: generated.length - flashcards.length,
+              },
+            }
+            : {}),
+        },
+      };
+    };
 
-        // Save to history removed for stateless model
+    // Streaming mode: report progress per chunk as server-sent events
+    //   event: progress  data: { chunk, total, status, items }
+    //   event: done      data: the same body as the JSON response
+    //   event: error     data: { error, code?, error_code? }
+    if (body.stream === true) {
+      return createEventStreamResponse(req.signal, rateLimitHeaders(rateLimit), async (send, signal) => {
+        try {
+          const result = await generate(signal, (progress) => send("progress", progress));
+          if (!result.ok) {
+            send("error", { error: result.error, error_code: result.error_code });
+            return;
+          }
+
+          await recordHistory(req, "flashcards", sanitizedContent, result.response);
+          send("done", result.response);
+        } catch (error) {
+          // The student pressed cancel or closed the page - nothing to report
+          if (signal.aborted) return;
+
+          logError(error, {
+            route: "/api/flashcards",
+            operation: "POST (stream)",
+          });
+
+          const safeError = toSafeError(
+            error,
+            "Failed to generate flashcards. Please try again.",
+          );
+          send("error", { error: safeError.message, code: safeError.code });
+        }
+      });
+    }
 
-        return NextResponse.json(response, {
-          headers: {
-            "X-RateLimit-Remaining": rateLimit.remaining.toString(),
-            "X-RateLimit-Reset": rateLimit.resetAt.toString(),
-          },
-        });
-      }
+    const result = await generate(req.signal);
 
-      throw new Error("Invalid response format");
-    } catch (parseError) {
-      console.error("Failed to parse LLM response:", {
-        error: parseError instanceof Error ? parseError.message : "Unknown error",
-        responsePreview: llmResponse.substring(0, 500),
-      });
-      throw new Error(
-        `Failed to parse response: ${parseError instanceof Error ? parseError.message : "Invalid format"}`,
+    // Check for error response
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: result.error,
+          error_code: result.error_code,
+        },
+        { status: 400 },
       );
     }
+
+    await recordHistory(req, "flashcards", sanitizedContent, result.response);
+
+    return NextResponse.json(result.response, {
+      headers: rateLimitHeaders(rateLimit),
+    });
   } catch (error) {
     logError(error, {
       route: "/api/flashcards",
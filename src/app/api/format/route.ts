@@ -1,12 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGroqClient } from "@/lib/groq";
 import { sanitizeTextInput } from "@/lib/sanitize";
 import { logError, toSafeError } from "@/lib/errorHandler";
 import { getModel } from "@/lib/modelRouter";
+import { isProviderConfigured, type ChatMessage } from "@/lib/llm-providers";
+import { createChatCompletion, openChatCompletionStream, type AnsweredBy } from "@/lib/llm-fallback";
+import { recordHistory } from "@/lib/history-store";
+import { createEventStreamResponse } from "@/lib/sse";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+import { generateInChunks, splitIntoChunks } from "@/lib/chunking";
+import { mathPromptRules } from "@/lib/math";
 
 // Using Node.js runtime for Groq SDK compatibility
 // export const runtime = "edge";
 
+const MAX_TEXT_LENGTH = 50000; // characters, across all chunks
+// The formatted answer is about as long as the input, so long answers are
+// formatted part by part to stay within the model's output limit
+const CHUNK_LENGTH = 12000;
+
 const SYSTEM_PROMPT = `You are BrainBolt, an academic answer formatting engine. 
 
 Your job is to take a student's rough, messy, unstructured answer and rewrite it into a neat, clear, professional academic format.
@@ -29,6 +40,10 @@ RULES:
 
 - Maintain the student's information exactly; do not add extra content.
 
+${mathPromptRules(false)}
+
+- Where the answer describes a process, cycle, sequence or hierarchy, you may also show it as a diagram in a \`\`\`mermaid code block (flowchart, sequenceDiagram or mindmap), using only the student's information.
+
 - Final output must look presentation-ready and exam-appropriate.
 
 Always return a clean, well-structured formatted answer.`;
@@ -37,23 +52,24 @@ Always return a clean, well-structured formatted answer.`;
 // Next.js ensures this code only runs on the server, never in the client bundle
 export async function POST(req: NextRequest) {
   try {
-    // SECURITY: API keys are only accessed server-side via process.env
-    // These environment variables are NOT included in the client bundle
-    const apiKey = process.env.GROQ_API_KEY || process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      // SECURITY: Never expose API key in error messages
-      console.error("API key is missing (server-side check)");
-      return NextResponse.json(
-        { error: "Server configuration error: API key not found" },
-        { status: 500 },
-      );
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "format");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
     }
 
     const body = await req.json();
     const rawText = (body?.text ?? "").toString();
 
+    if (rawText.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `Text exceeds maximum length of ${MAX_TEXT_LENGTH} characters.` },
+        { status: 400 },
+      );
+    }
+
     // Sanitize input to prevent security vulnerabilities
-    const text = sanitizeTextInput(rawText, 50000).trim();
+    const text = sanitizeTextInput(rawText, MAX_TEXT_LENGTH).trim();
 
     if (!text) {
       return NextResponse.json(
@@ -71,39 +87,116 @@ export async function POST(req: NextRequest) {
       modelConfig.description = `User override: ${body.model}`;
     }
 
-    // SECURITY: Model name is safe to log (not the key itself)
-    console.log("Calling OpenRouter API:", modelConfig.description);
-
-    const client = getGroqClient();
-    const completion = await client.chat.completions.create({
-      model: modelConfig.model,
-      messages: [
-        {
-          role: "system",
-          content: SYSTEM_PROMPT,
-        },
-        {
-          role: "user",
-          content: text,
-        },
-      ],
-      temperature: modelConfig.temperature,
-    });
-
-    const formatted =
-      completion.choices[0]?.message?.content ?? "Unable to format text.";
-
-    if (!formatted || formatted === "Unable to format text.") {
-      console.error("No content received from OpenRouter API");
+    // SECURITY: API keys are only accessed server-side via process.env
+    // These environment variables are NOT included in the client bundle
+    if (!isProviderConfigured(modelConfig.provider)) {
+      // SECURITY: Never expose API key in error messages
+      console.error("LLM provider is not configured (server-side check):", modelConfig.provider);
       return NextResponse.json(
-        { error: "No formatted content received from AI" },
+        { error: "Server configuration error: API key not found" },
         { status: 500 },
       );
     }
 
-    // History saving removed for stateless mode
+    // SECURITY: Model name is safe to log (not the key itself)
+    console.log("Calling LLM provider:", modelConfig.description);
+
+    const chunks = splitIntoChunks(text, CHUNK_LENGTH);
+
+    const buildMessages = (part: string, index: number): ChatMessage[] => [
+      {
+        role: "system",
+        content: index === 0
+          ? SYSTEM_PROMPT
+          : `${SYSTEM_PROMPT}\n\nThis is part ${index + 1} of ${chunks.length} of a longer answer. Continue the formatting of the earlier parts; do not add a title or introduction.`,
+      },
+      {
+        role: "user",
+        content: part,
+      },
+    ];
+
+    // Streaming mode: send tokens as server-sent events
+    //   event: progress  data: { chunk, total, status, items } (long answers only)
+    //   event: delta     data: { content }
+    //   event: done      data: { model, provider, attempts }
+    //   event: error     data: { error, code }
+    if (body.stream === true) {
+      return createEventStreamResponse(req.signal, rateLimitHeaders(rateLimit), async (send, signal) => {
+        let formatted = "";
+        const answers: AnsweredBy[] = [];
+        try {
+          await generateInChunks(
+            chunks,
+            async (part, index) => {
+              const { stream, ...answeredBy } = await openChatCompletionStream(modelConfig, {
+                messages: buildMessages(part, index),
+                signal,
+              });
+              answers.push(answeredBy);
+
+              if (index > 0) {
+                formatted += "\n\n";
+                send("delta", { content: "\n\n" });
+              }
+
+              for await (const chunk of stream) {
+                const content = chunk.choices[0]?.delta?.content;
+                if (content) {
+                  formatted += content;
+                  send("delta", { content });
+                }
+              }
+              return [];
+            },
+            (progress) => {
+              if (chunks.length > 1) send("progress", progress);
+            },
+          );
+
+          if (!formatted.trim()) {
+            console.error("No content received from LLM provider");
+            send("error", { error: "No formatted content received from AI" });
+            return;
+          }
+
+          await recordHistory(req, "format", text, formatted);
+          send("done", answers[0]);
+        } catch (error) {
+          // The student pressed cancel or closed the page - nothing to report
+          if (signal.aborted) return;
+
+          logError(error, {
+            route: "/api/format",
+            operation: "POST (stream)",
+          });
+
+          const safeError = toSafeError(
+            error,
+            "Failed to format text. Please try again.",
+          );
+          send("error", { error: safeError.message, code: safeError.code });
+        }
+      });
+    }
+
+    const answers: AnsweredBy[] = [];
+    const parts = await generateInChunks(chunks, async (part, index) => {
+      const { content, ...answeredBy } = await createChatCompletion(modelConfig, {
+        messages: buildMessages(part, index),
+        signal: req.signal,
+      });
+      answers.push(answeredBy);
+      return [content];
+    });
+    const formatted = parts.map((part) => part?.join("") ?? "").join("\n\n");
+
+    await recordHistory(req, "format", text, formatted);
 
-    return NextResponse.json({ formatted });
+    return NextResponse.json(
+      { formatted, metadata: answers[0] },
+      { headers: rateLimitHeaders(rateLimit) },
+    );
   } catch (error) {
     logError(error, {
       route: "/api/format",
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserId, unauthorizedResponse } from "@/lib/current-user";
+import { sanitizeSingleLineInput } from "@/lib/sanitize";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import {
+  HISTORY_PAGE_SIZE,
+  HISTORY_PREVIEW_LENGTH,
+  isHistoryFeature,
+  type HistoryDetail,
+  type HistoryListItem,
+} from "@/lib/history";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+
+const MAX_SEARCH_LENGTH = 200;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+function parseHistoryId(req: NextRequest): number | null {
+  const id = Number(req.nextUrl.searchParams.get("id"));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function errorResponse(error: unknown, operation: string, defaultMessage: string) {
+  logError(error, {
+    route: "/api/history",
+    operation,
+  });
+
+  const safeError = toSafeError(error, defaultMessage);
+
+  return NextResponse.json(
+    {
+      error: safeError.message,
+      code: safeError.code,
+    },
+    { status: safeError.statusCode },
+  );
+}
+
+// ============================================================================
+// API Route Handlers
+// ============================================================================
+
+// List history (paginated, searchable) or fetch a single item with ?id=
+export async function GET(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "history");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const userId = await getCurrentUserId(req);
+    if (!userId) {
+      return unauthorizedResponse();
+    }
+
+    const params = req.nextUrl.searchParams;
+
+    if (params.has("id")) {
+      const id = parseHistoryId(req);
+      const item = id
+        ? await prisma.historyItem.findFirst({ where: { id, userId } })
+        : null;
+
+      if (!item || !isHistoryFeature(item.feature)) {
+        return NextResponse.json({ error: "History item not found." }, { status: 404 });
+      }
+
+      const detail: HistoryDetail = {
+        id: item.id,
+        feature: item.feature,
+        inputText: item.inputText,
+        outputText: item.outputText,
+        timestamp: item.timestamp.toISOString(),
+      };
+      return NextResponse.json({ item: detail }, { headers: rateLimitHeaders(rateLimit) });
+    }
+
+    const feature = params.get("feature");
+    if (feature && !isHistoryFeature(feature)) {
+      return NextResponse.json({ error: "Invalid feature filter." }, { status: 400 });
+    }
+
+    const query = sanitizeSingleLineInput(params.get("q") || "", MAX_SEARCH_LENGTH);
+    const page = Math.max(1, parseInt(params.get("page") || "1") || 1);
+
+    const where = {
+      userId,
+      ...(feature ? { feature } : {}),
+      ...(query
+        ? {
+            OR: [
+              { inputText: { contains: query } },
+              { outputText: { contains: query } },
+            ],
+          }
+        : {}),
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.historyItem.count({ where }),
+      prisma.historyItem.findMany({
+        where,
+        orderBy: { timestamp: "desc" },
+        skip: (page - 1) * HISTORY_PAGE_SIZE,
+        take: HISTORY_PAGE_SIZE,
+        select: { id: true, feature: true, inputText: true, timestamp: true },
+      }),
+    ]);
+
+    const items: HistoryListItem[] = rows
+      .filter((row: { feature: string }) => isHistoryFeature(row.feature))
+      .map((row: { id: number; feature: HistoryListItem["feature"]; inputText: string; timestamp: Date }) => ({
+        id: row.id,
+        feature: row.feature,
+        inputPreview: row.inputText.substring(0, HISTORY_PREVIEW_LENGTH),
+        timestamp: row.timestamp.toISOString(),
+      }));
+
+    return NextResponse.json({
+      items,
+      total,
+      page,
+      page_size: HISTORY_PAGE_SIZE,
+    }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "GET", "Failed to load history. Please try again.");
+  }
+}
+
+// Delete a single item with ?id=, or clear history (optionally per ?feature=)
+export async function DELETE(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "history");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const userId = await getCurrentUserId(req);
+    if (!userId) {
+      return unauthorizedResponse();
+    }
+
+    const params = req.nextUrl.searchParams;
+
+    if (params.has("id")) {
+      const id = parseHistoryId(req);
+      const result = id
+        ? await prisma.historyItem.deleteMany({ where: { id, userId } })
+        : { count: 0 };
+
+      if (result.count === 0) {
+        return NextResponse.json({ error: "History item not found." }, { status: 404 });
+      }
+
+      return NextResponse.json({ success: true }, { headers: rateLimitHeaders(rateLimit) });
+    }
+
+    const feature = params.get("feature");
+    if (feature && !isHistoryFeature(feature)) {
+      return NextResponse.json({ error: "Invalid feature filter." }, { status: 400 });
+    }
+
+    const result = await prisma.historyItem.deleteMany({
+      where: { userId, ...(feature ? { feature } : {}) },
+    });
+
+    return NextResponse.json({ success: true, deleted: result.count }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "DELETE", "Failed to delete history. Please try again.");
+  }
+}
@@ -0,0 +1,276 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sanitizeSingleLineInput } from "@/lib/sanitize";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import { getModel } from "@/lib/modelRouter";
+import { isProviderConfigured } from "@/lib/llm-providers";
+import { getCurrentUserId } from "@/lib/current-user";
+import { generateStructured, LEARNING_PATH_RESPONSE_SCHEMA } from "@/lib/structured-output";
+import { CONTINUE_LEARNING_LIMIT, LEARNING_LEVELS, isConceptSessionId } from "@/lib/concept-sessions";
+import { MAX_GOAL_LENGTH, MAX_PATH_NODES, normalizeLearningPath } from "@/lib/learning-paths";
+import {
+  createLearningPath,
+  deleteLearningPath,
+  getLearningPath,
+  listLearningPaths,
+} from "@/lib/learning-path-store";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+
+// ============================================================================
+// SECURITY: Input Validation & Sanitization
+// ============================================================================
+const MAX_REQUEST_SIZE = 4000;
+
+function validateInput(goal: unknown, learningLevel: unknown): {
+  valid: boolean;
+  error?: string;
+} {
+  if (typeof goal !== "string" || goal.trim().length === 0) {
+    return { valid: false, error: "Learning goal cannot be empty." };
+  }
+
+  if (goal.length > MAX_GOAL_LENGTH) {
+    return {
+      valid: false,
+      error: `Learning goal exceeds maximum length of ${MAX_GOAL_LENGTH} characters.`,
+    };
+  }
+
+  if (typeof learningLevel !== "string" || !LEARNING_LEVELS.includes(learningLevel)) {
+    return { valid: false, error: "Invalid learning level." };
+  }
+
+  return { valid: true };
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+interface LearningPathRequest {
+  goal: string;
+  learning_level: string;
+  model?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+function errorResponse(error: unknown, operation: string, defaultMessage: string) {
+  logError(error, {
+    route: "/api/learning-paths",
+    operation,
+  });
+
+  const safeError = toSafeError(error, defaultMessage);
+
+  return NextResponse.json(
+    {
+      error: safeError.message,
+      code: safeError.code,
+      ...(process.env.NODE_ENV === "development" && safeError.details
+        ? { details: safeError.details }
+        : {}),
+    },
+    { status: safeError.statusCode },
+  );
+}
+
+function notFoundResponse() {
+  return NextResponse.json({ error: "Learning path not found." }, { status: 404 });
+}
+
+// ============================================================================
+// API Route Handlers
+// ============================================================================
+
+// Plan a new learning path for a goal
+export async function POST(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "learning-paths");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    // SECURITY: Request Size Limit
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
+      return NextResponse.json(
+        { error: "Request payload too large." },
+        { status: 413 },
+      );
+    }
+
+    let body: LearningPathRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body." },
+        { status: 400 },
+      );
+    }
+
+    // SECURITY: Input Validation
+    const validation = validateInput(body.goal, body.learning_level);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const goal = sanitizeSingleLineInput(body.goal, MAX_GOAL_LENGTH);
+    const learningLevel = sanitizeSingleLineInput(body.learning_level, 100);
+    const requestedModel = sanitizeSingleLineInput(body.model || "auto", 100) || "auto";
+
+    // Paths are learned with Concept Booster, so they are planned by its model
+    const modelConfig = getModel("concept_booster");
+    if (requestedModel !== "auto") {
+      modelConfig.model = requestedModel;
+      modelConfig.description = `User override: ${requestedModel}`;
+    }
+
+    // SECURITY: API keys are only accessed server-side via process.env
+    if (!isProviderConfigured(modelConfig.provider)) {
+      console.error("Learning Paths API: LLM provider is not configured (server-side check):", modelConfig.provider);
+      return NextResponse.json(
+        { error: "Server configuration error: API key not found" },
+        { status: 500 },
+      );
+    }
+
+    const systemPrompt = `You are the Concept Booster Learning Path Planner.
+
+Your job: split a learning goal into the sub-topics a student must learn to reach it, and say which sub-topics have to be learned before which.
+
+RULES:
+- Use 3 to ${Math.min(10, MAX_PATH_NODES)} sub-topics, each small enough for one study session.
+- Start from what a ${learningLevel} student may not know yet; leave out what they certainly know.
+- The goal itself is the last sub-topic.
+- "prerequisites" lists the ids of the sub-topics that must be learned first. Never create a cycle.
+- Ids are short lowercase slugs, e.g. "product-rule".
+
+OUTPUT FORMAT (MUST BE VALID JSON ONLY):
+
+Return exactly one top-level JSON object. Do not include any additional text, commentary, or markdown — only JSON.
+
+{
+  "status": "OK",
+  "nodes": [
+    { "id": "product-rule", "title": "The product rule", "description": "One sentence on what this sub-topic covers", "prerequisites": [] },
+    { "id": "integration-by-parts", "title": "Integration by parts", "description": "...", "prerequisites": ["product-rule"] }
+  ],
+  "metadata": {
+    "tokens_estimate": <int>
+  }
+}
+
+Error format:
+{
+  "status": "ERROR",
+  "error_code": "INSUFFICIENT_CONTEXT",
+  "message": "Error message"
+}`;
+
+    const userPrompt = `Goal: ${goal}
+Learning Level: ${learningLevel}
+
+Plan the learning path for this goal.`;
+
+    const { data, answeredBy } = await generateStructured(modelConfig, {
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      schema: LEARNING_PATH_RESPONSE_SCHEMA,
+      signal: req.signal,
+    });
+
+    if (data.status === "ERROR") {
+      return NextResponse.json(
+        {
+          error: data.message || "Failed to plan a learning path",
+          error_code: data.error_code,
+        },
+        { status: 400 },
+      );
+    }
+
+    const path = await createLearningPath(
+      await getCurrentUserId(req),
+      { goal, learningLevel, model: requestedModel },
+      normalizeLearningPath(data.nodes),
+    );
+
+    return NextResponse.json(
+      {
+        path,
+        metadata: {
+          tokens_estimate: data.metadata?.tokens_estimate || Math.ceil(goal.length / 4),
+          ...answeredBy,
+        },
+      },
+      { headers: rateLimitHeaders(rateLimit) },
+    );
+  } catch (error) {
+    return errorResponse(error, "POST", "Failed to plan a learning path. Please try again.");
+  }
+}
+
+// Fetch a path with its progress with ?id=, or list recent paths. Signed-out
+// visitors pass the ids this browser remembers as ?ids=a,b,c
+export async function GET(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "learning-paths-saved");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const userId = await getCurrentUserId(req);
+    const params = req.nextUrl.searchParams;
+
+    if (params.has("id")) {
+      const id = params.get("id");
+      const path = isConceptSessionId(id) ? await getLearningPath(id, userId) : null;
+      if (!path) {
+        return notFoundResponse();
+      }
+
+      return NextResponse.json({ path }, { headers: rateLimitHeaders(rateLimit) });
+    }
+
+    const ids = (params.get("ids") || "")
+      .split(",")
+      .filter(isConceptSessionId)
+      .slice(0, CONTINUE_LEARNING_LIMIT);
+
+    const paths = await listLearningPaths(userId, ids);
+    return NextResponse.json({ paths }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "GET", "Failed to load learning paths. Please try again.");
+  }
+}
+
+// Delete a path and its sessions with ?id=
+export async function DELETE(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "learning-paths-saved");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const userId = await getCurrentUserId(req);
+    const id = req.nextUrl.searchParams.get("id");
+
+    const deleted = isConceptSessionId(id) ? await deleteLearningPath(id, userId) : false;
+    if (!deleted) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({ success: true }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "DELETE", "Failed to delete learning path. Please try again.");
+  }
+}
@@ -1,24 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGroqClient } from "@/lib/groq";
 import { sanitizeTextInput } from "@/lib/sanitize";
+import { mathPromptRules } from "@/lib/math";
 import { logError, toSafeError } from "@/lib/errorHandler";
 import { getModel } from "@/lib/modelRouter";
-
-// ============================================================================
-// SECURITY: Rate Limiting
-// ============================================================================
-import { getRateLimiter } from "@/lib/rate-limit";
-
-// Rate limit: 10 requests per minute per IP
-const RATE_LIMIT_MAX_REQUESTS = 10;
-const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
-
+import { isProviderConfigured } from "@/lib/llm-providers";
+import type { AnsweredBy } from "@/lib/llm-fallback";
+import { generateStructured, MCQ_RESPONSE_SCHEMA } from "@/lib/structured-output";
+import { recordHistory } from "@/lib/history-store";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+import { createEventStreamResponse } from "@/lib/sse";
+import {
+  distributeCount,
+  generateInChunks,
+  removeNearDuplicates,
+  splitIntoChunks,
+  type ChunkProgress,
+} from "@/lib/chunking";
 
 // ============================================================================
 // SECURITY: Input Validation & Sanitization
 // ============================================================================
-const MAX_TEXT_LENGTH = 12000; // characters
-const MAX_REQUEST_SIZE = 15000; // bytes (approximate)
+const MAX_TEXT_LENGTH = 100000; // characters, across all chunks
+const CHUNK_LENGTH = 12000; // characters sent to the model in one call
+// Up to 3 UTF-8 bytes per character (Devanagari, Arabic, ...) plus the other fields
+const MAX_REQUEST_SIZE = MAX_TEXT_LENGTH * 3 + 2000; // bytes
 
 // Use the centralized sanitization utility
 function sanitizeText(text: string): string {
@@ -38,7 +43,7 @@ function validateInput(text: string, numQuestions: number, difficulty: string):
     return { valid: false, error: "Input text contains no valid content after sanitization." };
   }
 
-  if (sanitized.length > MAX_TEXT_LENGTH) {
+  if (text.length > MAX_TEXT_LENGTH) {
     return {
       valid: false,
       error: `Input text exceeds maximum length of ${MAX_TEXT_LENGTH} characters.`,
@@ -67,6 +72,8 @@ interface MCQRequest {
   include_explanations: boolean;
   title?: string;
   model?: string;
+  // Report per-chunk progress as server-sent events
+  stream?: boolean;
 }
 
 interface MCQ {
@@ -80,100 +87,29 @@ interface MCQ {
 interface MCQResponse {
   mcqs: MCQ[];
   source_tokens: number;
+  // Which model actually answered (after any fallbacks)
+  metadata: AnsweredBy;
+  // Only present when the text was split into several chunks
+  chunks?: {
+    total: number;
+    skipped: number;
+    duplicates_removed: number;
+  };
 }
 
+type GenerationResult =
+  | { ok: true; response: MCQResponse }
+  | { ok: false; error: string; error_code: string; status: number };
+
 // ============================================================================
-// API Route Handler
+// Prompts
 // ============================================================================
-export async function POST(req: NextRequest) {
-  try {
-    // SECURITY: Rate Limiting
-    const limiter = getRateLimiter();
-    const rateLimit = await limiter.check(req, RATE_LIMIT_MAX_REQUESTS, RATE_LIMIT_WINDOW_MS);
-
-    if (!rateLimit.allowed) {
-      return NextResponse.json(
-        {
-          error: "Rate limit exceeded. Please try again later.",
-          retry_after: Math.ceil((rateLimit.resetAt - Date.now()) / 1000),
-        },
-        { status: 429 },
-      );
-    }
-
-    // SECURITY: Request Size Limit
-    const contentLength = req.headers.get("content-length");
-    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
-      return NextResponse.json(
-        { error: "Request payload too large." },
-        { status: 413 },
-      );
-    }
-
-    // Parse and validate request body
-    let body: MCQRequest;
-    try {
-      body = await req.json();
-    } catch (error) {
-      return NextResponse.json(
-        { error: "Invalid JSON in request body." },
-        { status: 400 },
-      );
-    }
-
-    // SECURITY: Input Validation
-    const validation = validateInput(
-      body.text || "",
-      body.num_questions || 10,
-      body.difficulty || "medium",
-    );
-    if (!validation.valid) {
-      return NextResponse.json(
-        { error: validation.error },
-        { status: 400 },
-      );
-    }
-
-    const sanitizedText = sanitizeText(body.text);
-    const numQuestions = body.num_questions || 10;
-    const difficulty = body.difficulty || "medium";
-    const includeExplanations = body.include_explanations ?? true;
-    const title = body.title || "MCQ Set";
-
-    // Get optimal model for MCQ generation task
-    const modelConfig = getModel("mcqs");
-
-    // Override model if specified in request
-    if (body.model && body.model !== "auto") {
-      modelConfig.model = body.model;
-      modelConfig.description = `User override: ${body.model}`;
-    }
-
-    // SECURITY: API keys are only accessed server-side via process.env
-    // These environment variables are NOT included in the client bundle
-    const apiKey = process.env.GROQ_API_KEY || process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      // SECURITY: Never expose API key in error messages
-      console.error("MCQ API: API key is missing (server-side check)");
-      return NextResponse.json(
-        { error: "Server configuration error: API key not found" },
-        { status: 500 },
-      );
-    }
-
-    // ========================================================================
-    // LLM Integration: Generate MCQs using OpenRouter API
-    // ========================================================================
-    console.log("MCQ Generation Request:", {
-      numQuestions,
-      difficulty,
-      includeExplanations,
-      textLength: sanitizedText.length,
-      // SECURITY: Do not log sensitive content
-    });
-
-    // Build the system prompt for MCQ generation
-    const systemPrompt = `You are BrainBolt's MCQ generation engine. Your only source of truth is the exact \`text\` provided in the request. Follow these rules strictly.
+function buildSystemPrompt(
+  numQuestions: number,
+  difficulty: string,
+  includeExplanations: boolean,
+): string {
+  return `You are BrainBolt's MCQ generation engine. Your only source of truth is the exact \`text\` provided in the request. Follow these rules strictly.
 
 1) PRIMARY RULES
 
@@ -214,6 +150,8 @@ export async function POST(req: NextRequest) {
 
 - Keep answers and options short (preferably ≤ 20 words per option).
 
+${mathPromptRules(true)}
+
 5) OUTPUT FORMAT (MUST BE VALID JSON ONLY)
 
 Return exactly one top-level JSON object using the schema below. **Do not include any additional text, commentary, or markdown — only JSON.**
@@ -261,202 +199,258 @@ Error response format (when model cannot produce valid MCQs due to lack of info)
 - Ensure the JSON is valid (no trailing commas, no comments).
 
 - If multiple MCQs are requested but only fewer valid MCQs can be produced, produce only valid ones and set \`num_questions_generated\` accordingly.`;
+}
 
-    const userPrompt = `Generate ${numQuestions} ${difficulty} difficulty multiple choice questions based on this text:
+function buildUserPrompt(
+  numQuestions: number,
+  difficulty: string,
+  sanitizedText: string,
+  title: string,
+): string {
+  return `Generate ${numQuestions} ${difficulty} difficulty multiple choice questions based on this text:
 
 ${sanitizedText}
 
 ${title ? `Topic: ${title}` : ""}
 
 Return the response in the exact JSON format specified in the system prompt.`;
+}
 
-    // Call OpenRouter API
-    const client = getGroqClient();
-    const completion = await client.chat.completions.create({
-      model: modelConfig.model,
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        {
-          role: "user",
-          content: userPrompt,
-        },
-      ],
-      temperature: modelConfig.temperature,
-    });
+// ============================================================================
+// API Route Handler
+// ============================================================================
+export async function POST(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "mcq");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
 
-    const llmResponse = completion.choices[0]?.message?.content;
-    if (!llmResponse) {
-      throw new Error("No response received from LLM");
+    // SECURITY: Request Size Limit
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
+      return NextResponse.json(
+        { error: "Request payload too large." },
+        { status: 413 },
+      );
     }
 
-    // Parse the JSON response
-    let parsedResponse: any;
+    // Parse and validate request body
+    let body: MCQRequest;
     try {
-      // Clean the response - remove markdown code blocks if present
-      let cleanedResponse = llmResponse.trim();
-      if (cleanedResponse.startsWith("```json")) {
-        cleanedResponse = cleanedResponse.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-      } else if (cleanedResponse.startsWith("```")) {
-        cleanedResponse = cleanedResponse.replace(/^```\s*/, "").replace(/\s*```$/, "");
-      }
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body." },
+        { status: 400 },
+      );
+    }
 
-      // Try to parse as JSON
-      parsedResponse = JSON.parse(cleanedResponse);
-
-      // Check for error response
-      if (parsedResponse.status === "ERROR") {
-        const errorCode = parsedResponse.error_code || "UNKNOWN_ERROR";
-        const errorMessage = parsedResponse.message || "Failed to generate MCQs";
-
-        if (errorCode === "INSUFFICIENT_CONTEXT") {
-          return NextResponse.json(
-            {
-              error: errorMessage,
-              error_code: errorCode,
-            },
-            { status: 400 },
-          );
-        }
+    // SECURITY: Input Validation
+    const validation = validateInput(
+      body.text || "",
+      body.num_questions || 10,
+      body.difficulty || "medium",
+    );
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
 
-        return NextResponse.json(
-          {
-            error: errorMessage,
-            error_code: errorCode,
-          },
-          { status: 500 },
-        );
-      }
+    const sanitizedText = sanitizeText(body.text);
+    const numQuestions = body.num_questions || 10;
+    const difficulty = body.difficulty || "medium";
+    const includeExplanations = body.include_explanations ?? true;
+    const title = body.title || "MCQ Set";
 
-      // Handle success response with new format
-      if (parsedResponse.status === "OK" && Array.isArray(parsedResponse.mcqs)) {
-        const mcqsArray = parsedResponse.mcqs;
+    // Get optimal model for MCQ generation task
+    const modelConfig = getModel("mcqs");
 
-        if (mcqsArray.length === 0) {
-          return NextResponse.json(
-            {
-              error: "No MCQs were generated. The text may not contain enough information.",
-            },
-            { status: 400 },
-          );
-        }
+    // Override model if specified in request
+    if (body.model && body.model !== "auto") {
+      modelConfig.model = body.model;
+      modelConfig.description = `User override: ${body.model}`;
+    }
 
-        // Validate and format MCQs
-        const formattedMCQs: MCQ[] = mcqsArray.map((item: any) => {
-          // Extract question
-          const question = item.question || "";
-          if (!question) {
-            throw new Error(`Question ${item.id || "unknown"} is missing question text`);
-          }
+    // SECURITY: API keys are only accessed server-side via process.env
+    // These environment variables are NOT included in the client bundle
+    if (!isProviderConfigured(modelConfig.provider)) {
+      // SECURITY: Never expose API key in error messages
+      console.error("MCQ API: LLM provider is not configured (server-side check):", modelConfig.provider);
+      return NextResponse.json(
+        { error: "Server configuration error: API key not found" },
+        { status: 500 },
+      );
+    }
 
-          // Extract options
-          let options: string[] = [];
-          if (Array.isArray(item.options) && item.options.length === 4) {
-            options = item.options;
-          } else {
-            throw new Error(`Question ${item.id || "unknown"} must have exactly 4 options`);
-          }
+    // ========================================================================
+    // LLM Integration: Generate MCQs chunk by chunk
+    // ========================================================================
+    // Text longer than CHUNK_LENGTH is split at headings and paragraphs; each
+    // chunk gets a share of the questions proportional to its length
+    const chunks = splitIntoChunks(sanitizedText, CHUNK_LENGTH);
+    const questionCounts = distributeCount(numQuestions, chunks.map((chunk) => chunk.length));
 
-          // Extract correct answer
-          let correct = item.correct || "";
-          if (!correct || !["A", "B", "C", "D"].includes(correct.toUpperCase())) {
-            throw new Error(`Question ${item.id || "unknown"} must have a valid correct answer (A, B, C, or D)`);
+    console.log("MCQ Generation Request:", {
+      numQuestions,
+      difficulty,
+      includeExplanations,
+      textLength: sanitizedText.length,
+      chunks: chunks.length,
+      // SECURITY: Do not log sensitive content
+    });
+
+    const generate = async (
+      signal: AbortSignal,
+      onProgress?: (progress: ChunkProgress) => void,
+    ): Promise<GenerationResult> => {
+      const answers: AnsweredBy[] = [];
+      const failures: { error_code: string; message: string }[] = [];
+      let sourceTokens = 0;
+
+      const results = await generateInChunks(
+        chunks,
+        async (chunk, index) => {
+          const count = questionCounts[index];
+          if (count === 0) return null;
+
+          // Call the configured LLM provider (falls back to the next model on failure).
+          // The answer is repaired and validated against the MCQ schema; an invalid
+          // answer gets one corrective re-prompt.
+          const { data, answeredBy } = await generateStructured(modelConfig, {
+            messages: [
+              {
+                role: "system",
+                content: buildSystemPrompt(count, difficulty, includeExplanations),
+              },
+              {
+                role: "user",
+                content: buildUserPrompt(count, difficulty, chunk, title),
+              },
+            ],
+            schema: MCQ_RESPONSE_SCHEMA,
+            signal,
+            // Older prompts returned a bare array of questions
+            normalize: (value) =>
+              Array.isArray(value) ? { status: "OK", mcqs: value.slice(0, count) } : value,
+          });
+          answers.push(answeredBy);
+
+          // A chunk without usable facts (e.g. a table of contents) is skipped
+          if (data.status === "ERROR") {
+            failures.push({
+              error_code: data.error_code || "UNKNOWN_ERROR",
+              message: data.message || "Failed to generate MCQs",
+            });
+            return null;
           }
-          correct = correct.toUpperCase();
-
-          // Extract explanation
-          const explanation = includeExplanations && item.explanation
-            ? String(item.explanation).trim()
-            : undefined;
-
-          return {
-            id: item.id || 0,
-            question: question.trim(),
-            options: options.map((opt: any) => String(opt).trim()),
-            correct,
-            explanation,
-          };
-        });
-
-        // Get token estimate from metadata or calculate
-        const sourceTokens = parsedResponse.metadata?.source_tokens_estimate
-          || Math.ceil(sanitizedText.length / 4);
-
-        const response: MCQResponse = {
-          mcqs: formattedMCQs,
-          source_tokens: sourceTokens,
-        };
 
-        return NextResponse.json(response, {
-          headers: {
-            "X-RateLimit-Remaining": rateLimit.remaining.toString(),
-            "X-RateLimit-Reset": rateLimit.resetAt.toString(),
-          },
-        });
+          // Get token estimate from metadata or calculate
+          sourceTokens += data.metadata?.source_tokens_estimate || Math.ceil(chunk.length / 4);
+
+          return data.mcqs.slice(0, count).map((item, itemIndex): MCQ => ({
+            id: itemIndex + 1,
+            question: item.question.trim(),
+            options: item.options.map((opt) => opt.trim()),
+            correct: item.correct.trim().toUpperCase(),
+            explanation: includeExplanations && item.explanation
+              ? item.explanation.trim()
+              : undefined,
+          }));
+        },
+        onProgress,
+      );
+
+      const generated = results.flatMap((items) => items ?? []);
+      if (generated.length === 0 && failures.length > 0) {
+        const { error_code, message } = failures[0];
+        return {
+          ok: false,
+          error: message,
+          error_code,
+          status: error_code === "INSUFFICIENT_CONTEXT" ? 400 : 500,
+        };
       }
 
-      // Fallback: Try to handle old format (array directly) for backward compatibility
-      if (Array.isArray(parsedResponse)) {
-        const formattedMCQs: MCQ[] = parsedResponse.slice(0, numQuestions).map((item: any, index: number) => {
-          const question = item.question || "";
-          if (!question) {
-            throw new Error(`Question ${index + 1} is missing question text`);
-          }
+      // Neighbouring chunks often yield the same question; keep the first one
+      const mcqs = removeNearDuplicates(generated, (mcq) => {
+        const answer = mcq.options["ABCD".indexOf(mcq.correct)] ?? "";
+        return `${mcq.question} ${answer}`;
+      }).map((mcq, index) => ({ ...mcq, id: index + 1 }));
+
+      return {
+        ok: true,
+        response: {
+          mcqs,
+          source_tokens: sourceTokens || Math.ceil(sanitizedText.length / 4),
+          metadata: answers[0],
+          ...(chunks.length > 1
+            ? {
+              chunks: {
+                total: chunks.length,
+                skipped: results.filter((items) => items === null).length,
+                duplicates_removed: generated.length - mcqs.length,
+              },
+            }
+            : {}),
+        },
+      };
+    };
 
-          let options: string[] = [];
-          if (Array.isArray(item.options) && item.options.length === 4) {
-            options = item.options;
-          } else {
-            throw new Error(`Question ${index + 1} must have exactly 4 options`);
+    // Streaming mode: report progress per chunk as server-sent events
+    //   event: progress  data: { chunk, total, status, items }
+    //   event: done      data: the same body as the JSON response
+    //   event: error     data: { error, code?, error_code? }
+    if (body.stream === true) {
+      return createEventStreamResponse(req.signal, rateLimitHeaders(rateLimit), async (send, signal) => {
+        try {
+          const result = await generate(signal, (progress) => send("progress", progress));
+          if (!result.ok) {
+            send("error", { error: result.error, error_code: result.error_code });
+            return;
           }
 
-          let correct = item.correct || "";
-          if (!correct || !["A", "B", "C", "D"].includes(correct.toUpperCase())) {
-            throw new Error(`Question ${index + 1} must have a valid correct answer`);
-          }
-          correct = correct.toUpperCase();
-
-          const explanation = includeExplanations && item.explanation
-            ? String(item.explanation).trim()
-            : undefined;
-
-          return {
-            id: item.id || index + 1,
-            question: question.trim(),
-            options: options.map((opt: any) => String(opt).trim()),
-            correct,
-            explanation,
-          };
-        });
-
-        const sourceTokens = Math.ceil(sanitizedText.length / 4);
-        const response: MCQResponse = {
-          mcqs: formattedMCQs,
-          source_tokens: sourceTokens,
-        };
+          await recordHistory(req, "mcq", sanitizedText, { title, ...result.response });
+          send("done", result.response);
+        } catch (error) {
+          // The student pressed cancel or closed the page - nothing to report
+          if (signal.aborted) return;
 
-        return NextResponse.json(response, {
-          headers: {
-            "X-RateLimit-Remaining": rateLimit.remaining.toString(),
-            "X-RateLimit-Reset": rateLimit.resetAt.toString(),
-          },
-        });
-      }
+          logError(error, {
+            route: "/api/mcq",
+            operation: "POST (stream)",
+          });
 
-      throw new Error("Invalid response format: expected status OK with mcqs array or error object");
-    } catch (parseError) {
-      console.error("Failed to parse LLM response:", {
-        error: parseError instanceof Error ? parseError.message : "Unknown error",
-        responsePreview: llmResponse.substring(0, 500),
+          const safeError = toSafeError(
+            error,
+            "Failed to generate MCQs. Please try again.",
+          );
+          send("error", { error: safeError.message, code: safeError.code });
+        }
       });
-      throw new Error(
-        `Failed to parse MCQ response: ${parseError instanceof Error ? parseError.message : "Invalid format"}`,
+    }
+
+    const result = await generate(req.signal);
+
+    // Check for error response
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: result.error,
+          error_code: result.error_code,
+        },
+        { status: result.status },
       );
     }
 
+    await recordHistory(req, "mcq", sanitizedText, { title, ...result.response });
 
+    return NextResponse.json(result.response, {
+      headers: rateLimitHeaders(rateLimit),
+    });
   } catch (error) {
     logError(error, {
       route: "/api/mcq",
@@ -0,0 +1,303 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserId, unauthorizedResponse } from "@/lib/current-user";
+import { sanitizeSingleLineInput } from "@/lib/sanitize";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import {
+  MAX_PRESET_NAME_LENGTH,
+  MAX_PRESETS_PER_TOOL,
+  isPresetToolType,
+  validatePresetName,
+  validatePresetSettings,
+} from "@/lib/presets";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+
+// ============================================================================
+// Types
+// ============================================================================
+interface CreatePresetRequest {
+  toolType: string;
+  name: string;
+  settings: unknown;
+}
+
+interface UpdatePresetRequest {
+  name?: string;
+  settings?: unknown;
+}
+
+const PRESET_SELECT = {
+  id: true,
+  toolType: true,
+  name: true,
+  settings: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+function parsePresetId(req: NextRequest): number | null {
+  const id = Number(req.nextUrl.searchParams.get("id"));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function errorResponse(error: unknown, operation: string, defaultMessage: string) {
+  logError(error, {
+    route: "/api/presets",
+    operation,
+  });
+
+  const safeError = toSafeError(error, defaultMessage);
+
+  return NextResponse.json(
+    {
+      error: safeError.message,
+      code: safeError.code,
+    },
+    { status: safeError.statusCode },
+  );
+}
+
+// ============================================================================
+// API Route Handlers
+// ============================================================================
+
+// List presets for a tool
+export async function GET(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "presets");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const toolType = req.nextUrl.searchParams.get("toolType");
+    if (!isPresetToolType(toolType)) {
+      return NextResponse.json(
+        { error: "A valid toolType is required." },
+        { status: 400 },
+      );
+    }
+
+    const userId = await getCurrentUserId(req);
+    if (!userId) {
+      return unauthorizedResponse();
+    }
+
+    const presets = await prisma.preset.findMany({
+      where: { userId, toolType },
+      orderBy: { updatedAt: "desc" },
+      select: PRESET_SELECT,
+    });
+
+    return NextResponse.json({ presets }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "GET", "Failed to load presets. Please try again.");
+  }
+}
+
+// Create a preset
+export async function POST(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "presets");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    let body: CreatePresetRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body." },
+        { status: 400 },
+      );
+    }
+
+    if (!isPresetToolType(body.toolType)) {
+      return NextResponse.json(
+        { error: "A valid toolType is required." },
+        { status: 400 },
+      );
+    }
+
+    const nameValidation = validatePresetName(body.name);
+    if (!nameValidation.valid) {
+      return NextResponse.json({ error: nameValidation.error }, { status: 400 });
+    }
+
+    const settingsValidation = validatePresetSettings(body.toolType, body.settings);
+    if (!settingsValidation.valid) {
+      return NextResponse.json({ error: settingsValidation.error }, { status: 400 });
+    }
+
+    const name = sanitizeSingleLineInput(body.name, MAX_PRESET_NAME_LENGTH);
+    const userId = await getCurrentUserId(req);
+    if (!userId) {
+      return unauthorizedResponse();
+    }
+
+    const existingCount = await prisma.preset.count({
+      where: { userId, toolType: body.toolType },
+    });
+    if (existingCount >= MAX_PRESETS_PER_TOOL) {
+      return NextResponse.json(
+        { error: `You can save at most ${MAX_PRESETS_PER_TOOL} presets per tool.` },
+        { status: 400 },
+      );
+    }
+
+    const duplicate = await prisma.preset.findFirst({
+      where: { userId, toolType: body.toolType, name },
+      select: { id: true },
+    });
+    if (duplicate) {
+      return NextResponse.json(
+        { error: "A preset with this name already exists." },
+        { status: 409 },
+      );
+    }
+
+    const preset = await prisma.preset.create({
+      data: {
+        userId,
+        toolType: body.toolType,
+        name,
+        settings: JSON.stringify(settingsValidation.settings),
+      },
+      select: PRESET_SELECT,
+    });
+
+    return NextResponse.json({ preset }, { status: 201, headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "POST", "Failed to save preset. Please try again.");
+  }
+}
+
+// Rename a preset and/or replace its settings
+export async function PATCH(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "presets");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const id = parsePresetId(req);
+    if (!id) {
+      return NextResponse.json(
+        { error: "A valid preset id is required." },
+        { status: 400 },
+      );
+    }
+
+    let body: UpdatePresetRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body." },
+        { status: 400 },
+      );
+    }
+
+    if (body.name === undefined && body.settings === undefined) {
+      return NextResponse.json(
+        { error: "Nothing to update. Provide a name or settings." },
+        { status: 400 },
+      );
+    }
+
+    const userId = await getCurrentUserId(req);
+    if (!userId) {
+      return unauthorizedResponse();
+    }
+
+    const existing = await prisma.preset.findFirst({
+      where: { id, userId },
+      select: { id: true, toolType: true },
+    });
+    if (!existing || !isPresetToolType(existing.toolType)) {
+      return NextResponse.json({ error: "Preset not found." }, { status: 404 });
+    }
+
+    const data: { name?: string; settings?: string } = {};
+
+    if (body.name !== undefined) {
+      const nameValidation = validatePresetName(body.name);
+      if (!nameValidation.valid) {
+        return NextResponse.json({ error: nameValidation.error }, { status: 400 });
+      }
+
+      const name = sanitizeSingleLineInput(body.name, MAX_PRESET_NAME_LENGTH);
+      const duplicate = await prisma.preset.findFirst({
+        where: { userId, toolType: existing.toolType, name, NOT: { id } },
+        select: { id: true },
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: "A preset with this name already exists." },
+          { status: 409 },
+        );
+      }
+      data.name = name;
+    }
+
+    if (body.settings !== undefined) {
+      const settingsValidation = validatePresetSettings(existing.toolType, body.settings);
+      if (!settingsValidation.valid) {
+        return NextResponse.json({ error: settingsValidation.error }, { status: 400 });
+      }
+      data.settings = JSON.stringify(settingsValidation.settings);
+    }
+
+    const preset = await prisma.preset.update({
+      where: { id },
+      data,
+      select: PRESET_SELECT,
+    });
+
+    return NextResponse.json({ preset }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "PATCH", "Failed to update preset. Please try again.");
+  }
+}
+
+// Delete a preset
+export async function DELETE(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "presets");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const id = parsePresetId(req);
+    if (!id) {
+      return NextResponse.json(
+        { error: "A valid preset id is required." },
+        { status: 400 },
+      );
+    }
+
+    const userId = await getCurrentUserId(req);
+    if (!userId) {
+      return unauthorizedResponse();
+    }
+
+    const result = await prisma.preset.deleteMany({
+      where: { id, userId },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Preset not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true }, { headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    return errorResponse(error, "DELETE", "Failed to delete preset. Please try again.");
+  }
+}
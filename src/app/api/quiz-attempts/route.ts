@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserId, unauthorizedResponse } from "@/lib/current-user";
+import { logError, toSafeError } from "@/lib/errorHandler";
+import { validateQuizAttempt } from "@/lib/quiz";
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate-limit";
+
+const MAX_REQUEST_SIZE = 200000; // bytes (50 questions with explanations)
+
+// ============================================================================
+// API Route Handler
+// ============================================================================
+
+// Save a finished quiz attempt to the user's history (feature "quiz")
+export async function POST(req: NextRequest) {
+  try {
+    // SECURITY: Rate Limiting (per user when signed in, otherwise per IP)
+    const rateLimit = await checkRateLimit(req, "quiz-attempts");
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const userId = await getCurrentUserId(req);
+    if (!userId) {
+      return unauthorizedResponse();
+    }
+
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
+      return NextResponse.json(
+        { error: "Request payload too large." },
+        { status: 413 },
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body." },
+        { status: 400 },
+      );
+    }
+
+    const validation = validateQuizAttempt(body);
+    if (!validation.valid || !validation.attempt) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const attempt = validation.attempt;
+    const summary = `${attempt.title || attempt.answers[0].question} - ${attempt.score}/${attempt.total}`;
+
+    const item = await prisma.historyItem.create({
+      data: {
+        userId,
+        feature: "quiz",
+        inputText: summary,
+        outputText: JSON.stringify(attempt),
+      },
+      select: { id: true },
+    });
+
+    return NextResponse.json({ id: item.id, attempt }, { status: 201, headers: rateLimitHeaders(rateLimit) });
+  } catch (error) {
+    logError(error, {
+      route: "/api/quiz-attempts",
+      operation: "POST",
+    });
+
+    const safeError = toSafeError(error, "Failed to save quiz attempt. Please try again.");
+
+    return NextResponse.json(
+      {
+        error: safeError.message,
+        code: safeError.code,
+      },
+      { status: safeError.statusCode },
+    );
+  }
+}
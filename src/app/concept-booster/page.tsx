@@ -1,9 +1,19 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
 import ConceptBoosterForm from "@/components/ConceptBoosterForm";
 import ConceptBoosterDisplay from "@/components/ConceptBoosterDisplay";
+import ContinueLearningPanel from "@/components/ContinueLearningPanel";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import RateLimitNotice, { useRateLimitCountdown } from "@/components/RateLimitNotice";
+import {
+  forgetSession,
+  rememberSession,
+  type ConceptSessionDetail,
+  type QuestionAnswer,
+} from "@/lib/concept-sessions";
 
 type Mode = "idle" | "loading" | "active";
 
@@ -16,6 +26,7 @@ interface ConceptBoosterResponse {
     topic: string;
     tokens_estimate: number;
   };
+  session_id: string;
 }
 
 interface ErrorResponse {
@@ -24,130 +35,84 @@ interface ErrorResponse {
   retry_after?: number;
 }
 
-export default function ConceptBoosterPage() {
-  const [mode, setMode] = useState<Mode>("idle");
+// The learner's new input for one step; the session holds everything else
+interface StepRequest {
+  step: string;
+  topic?: string;
+  learning_level?: string;
+  model?: string;
+  diagnostic_answers?: QuestionAnswer[];
+  skip_diagnostic?: boolean;
+  doubt?: string;
+  understanding_answers?: QuestionAnswer[];
+  user_response?: string;
+}
+
+function ConceptBoosterSession() {
+  const router = useRouter();
+  const sessionParam = useSearchParams().get("session");
+  const [mode, setMode] = useState<Mode>(sessionParam ? "loading" : "idle");
   const [error, setError] = useState<string | null>(null);
+  const { secondsLeft, throttle } = useRateLimitCountdown();
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // Learning path the session belongs to, if any
+  const [pathId, setPathId] = useState<string | null>(null);
+  // Session the URL was last synced with, so our own URL updates don't reload it
+  const loadedSessionRef = useRef<string | null>(null);
   const [topic, setTopic] = useState<string>("");
   const [learningLevel, setLearningLevel] = useState<string>("");
-  const [model, setModel] = useState<string>("auto");
   const [currentStep, setCurrentStep] = useState<string>("");
+  const [pendingStep, setPendingStep] = useState<string>("");
   const [currentContent, setCurrentContent] = useState<any>(null);
-  const [conversationHistory, setConversationHistory] = useState<Array<{ role: "user" | "assistant"; content: string }>>([]);
-
-  const handleStart = async (data: { topic: string; learning_level: string; model: string }) => {
-    setTopic(data.topic);
-    setLearningLevel(data.learning_level);
-    setModel(data.model);
-    setMode("loading");
-    setError(null);
-    setCurrentStep("diagnostic");
-    setCurrentContent(null);
-    setConversationHistory([]);
 
+  // Resume a stored session after a refresh or from "continue learning"
+  const loadSession = useCallback(async (id: string) => {
     try {
-      const res = await fetch("/api/concept-booster", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          topic: data.topic,
-          learning_level: data.learning_level,
-          step: "diagnostic",
-          model: data.model,
-        }),
-      });
-
+      const res = await fetch(`/api/concept-booster/sessions?id=${encodeURIComponent(id)}`);
       if (!res.ok) {
-        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to start learning" }));
-        throw new Error(errorData.error || "Failed to start learning");
+        if (res.status === 404) {
+          forgetSession(id);
+        }
+        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to load session" }));
+        throw new Error(errorData.error || "Failed to load session");
       }
 
-      const responseData: ConceptBoosterResponse = await res.json();
-      setCurrentContent(responseData.content);
-      setCurrentStep(responseData.step);
-      setMode("active");
-    } catch (err) {
-      console.error("Concept Booster error:", err);
-      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
-      setMode("idle");
-    }
-  };
-
-  const handleDiagnosticSubmit = async (answers: Array<{ question: string; answer: string }>) => {
-    setMode("loading");
-    setError(null);
-
-    try {
-      const res = await fetch("/api/concept-booster", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          topic,
-          learning_level: learningLevel,
-          step: "explanation",
-          diagnostic_answers: answers.length > 0 ? answers : undefined,
-          skip_diagnostic: answers.length === 0,
-          model,
-        }),
-      });
-
-      if (!res.ok) {
-        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to generate explanation" }));
-        throw new Error(errorData.error || "Failed to generate explanation");
+      const { session }: { session: ConceptSessionDetail } = await res.json();
+      const lastStep = session.steps[session.steps.length - 1];
+      if (!lastStep) {
+        throw new Error("This session has nothing to continue yet.");
       }
 
-      const responseData: ConceptBoosterResponse = await res.json();
-      setCurrentContent(responseData.content);
-      setCurrentStep(responseData.step);
+      rememberSession(session.id);
+      setSessionId(session.id);
+      setPathId(session.pathId);
+      setTopic(session.topic);
+      setLearningLevel(session.learningLevel);
+      setCurrentStep(lastStep.step);
+      setCurrentContent(lastStep.content);
       setMode("active");
     } catch (err) {
       console.error("Concept Booster error:", err);
       setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
-      setMode("active");
+      setMode("idle");
+      loadedSessionRef.current = null;
+      router.replace("/concept-booster");
     }
-  };
+  }, [router]);
 
-  const handleDoubtSubmit = async (doubt: string) => {
-    setMode("loading");
-    setError(null);
-
-    try {
-      const res = await fetch("/api/concept-booster", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          topic,
-          learning_level: learningLevel,
-          step: "ask_doubts",
-          doubt: doubt.trim() || undefined,
-          model,
-        }),
-      });
-
-      if (!res.ok) {
-        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to process doubt" }));
-        throw new Error(errorData.error || "Failed to process doubt");
-      }
-
-      const responseData: ConceptBoosterResponse = await res.json();
-      setCurrentContent(responseData.content);
-      setCurrentStep(responseData.step);
-      setMode("active");
-    } catch (err) {
-      console.error("Concept Booster error:", err);
-      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
-      setMode("active");
+  useEffect(() => {
+    if (sessionParam && sessionParam !== loadedSessionRef.current) {
+      loadedSessionRef.current = sessionParam;
+      loadSession(sessionParam);
     }
-  };
+  }, [sessionParam, loadSession]);
 
-  const handleUnderstandingSubmit = async (answers: Array<{ question: string; answer: string }>) => {
+  const sendStep = async (request: StepRequest, fallbackError: string) => {
+    // Where to go back to when the step fails
+    const previousMode: Mode = sessionId ? "active" : "idle";
     setMode("loading");
     setError(null);
+    setPendingStep(request.step);
 
     try {
       const res = await fetch("/api/concept-booster", {
@@ -155,84 +120,119 @@ export default function ConceptBoosterPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          topic,
-          learning_level: learningLevel,
-          step: answers.length > 0 ? "check_understanding" : "practice",
-          understanding_answers: answers.length > 0 ? answers : undefined,
-          model,
-        }),
+        body: JSON.stringify(sessionId ? { session_id: sessionId, ...request } : request),
       });
 
       if (!res.ok) {
-        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to process" }));
-        throw new Error(errorData.error || "Failed to process");
+        // Throttled: the countdown notice replaces the error message
+        if (throttle(res)) {
+          setMode(previousMode);
+          return;
+        }
+
+        const errorData: ErrorResponse = await res.json().catch(() => ({ error: fallbackError }));
+        throw new Error(errorData.error || fallbackError);
       }
 
       const responseData: ConceptBoosterResponse = await res.json();
+      rememberSession(responseData.session_id);
+      if (!sessionId) {
+        // Put the new session in the URL so a refresh resumes it
+        loadedSessionRef.current = responseData.session_id;
+        setSessionId(responseData.session_id);
+        router.replace(`/concept-booster?session=${encodeURIComponent(responseData.session_id)}`);
+      }
       setCurrentContent(responseData.content);
       setCurrentStep(responseData.step);
       setMode("active");
     } catch (err) {
       console.error("Concept Booster error:", err);
       setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
-      setMode("active");
+      setMode(previousMode);
     }
   };
 
-  const handlePracticeSubmit = async (answer: string) => {
-    setMode("loading");
-    setError(null);
-
-    try {
-      const res = await fetch("/api/concept-booster", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          topic,
-          learning_level: learningLevel,
-          step: "feedback",
-          user_response: answer,
-          conversation_history: conversationHistory,
-          model,
-        }),
-      });
-
-      if (!res.ok) {
-        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to get feedback" }));
-        throw new Error(errorData.error || "Failed to get feedback");
-      }
+  const handleStart = (data: { topic: string; learning_level: string; model: string }) => {
+    setTopic(data.topic);
+    setLearningLevel(data.learning_level);
+    setCurrentStep("");
+    setCurrentContent(null);
 
-      const responseData: ConceptBoosterResponse = await res.json();
-      setCurrentContent(responseData.content);
-      setCurrentStep(responseData.step);
-      setMode("active");
-    } catch (err) {
-      console.error("Concept Booster error:", err);
-      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
-      setMode("active");
-    }
+    return sendStep(
+      {
+        topic: data.topic,
+        learning_level: data.learning_level,
+        step: "diagnostic",
+        model: data.model,
+      },
+      "Failed to start learning",
+    );
   };
 
+  const handleDiagnosticSubmit = (answers: QuestionAnswer[]) =>
+    sendStep(
+      {
+        step: "explanation",
+        diagnostic_answers: answers.length > 0 ? answers : undefined,
+        skip_diagnostic: answers.length === 0,
+      },
+      "Failed to generate explanation",
+    );
+
+  const handleDoubtSubmit = (doubt: string) =>
+    sendStep(
+      {
+        step: "ask_doubts",
+        doubt: doubt.trim() || undefined,
+      },
+      "Failed to process doubt",
+    );
+
+  // No answers yet: show the understanding check. With answers: grade them
+  const handleUnderstandingSubmit = (answers: QuestionAnswer[]) =>
+    sendStep(
+      {
+        step: answers.length > 0 ? "grading" : "check_understanding",
+        understanding_answers: answers.length > 0 ? answers : undefined,
+      },
+      "Failed to process",
+    );
+
+  const handleContinue = (step: "check_understanding" | "review" | "practice") =>
+    sendStep({ step }, "Failed to continue");
+
+  const handlePracticeSubmit = (answer: string) =>
+    sendStep(
+      {
+        step: "feedback",
+        user_response: answer,
+      },
+      "Failed to get feedback",
+    );
+
   const handleReset = () => {
     setMode("idle");
     setError(null);
+    setSessionId(null);
+    setPathId(null);
     setTopic("");
     setLearningLevel("");
     setCurrentStep("");
     setCurrentContent(null);
-    setConversationHistory([]);
+    loadedSessionRef.current = null;
+    router.replace("/concept-booster");
   };
 
   const getLoadingMessage = () => {
-    if (currentStep === "diagnostic") return "Preparing diagnostic questions...";
-    if (currentStep === "explanation") return "Generating personalized explanation...";
-    if (currentStep === "ask_doubts") return "Preparing doubt section...";
-    if (currentStep === "check_understanding") return "Preparing understanding check...";
-    if (currentStep === "practice") return "Creating practice task...";
-    if (currentStep === "feedback") return "Analyzing your response...";
+    if (!pendingStep) return "Loading your session...";
+    if (pendingStep === "diagnostic") return "Preparing diagnostic questions...";
+    if (pendingStep === "explanation") return "Generating personalized explanation...";
+    if (pendingStep === "ask_doubts") return "Preparing doubt section...";
+    if (pendingStep === "check_understanding") return "Preparing understanding check...";
+    if (pendingStep === "grading") return "Grading your answers...";
+    if (pendingStep === "review") return "Revisiting the missed concepts...";
+    if (pendingStep === "practice") return "Creating practice task...";
+    if (pendingStep === "feedback") return "Analyzing your response...";
     return "Processing...";
   };
 
@@ -272,6 +272,14 @@ export default function ConceptBoosterPage() {
             {mode === "idle" && (
               <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8">
                 <ConceptBoosterForm onSubmit={handleStart} isLoading={false} />
+                <p className="mt-4 text-center text-sm text-slate-600">
+                  Aiming at something bigger?{" "}
+                  <Link href="/concept-booster/paths" className="font-medium text-green-700 hover:text-green-800">
+                    Plan a learning path
+                  </Link>{" "}
+                  and learn its prerequisites first.
+                </p>
+                <RateLimitNotice secondsLeft={secondsLeft} />
                 {error && (
                   <div className="mt-6 rounded-xl border-2 border-rose-200 bg-rose-50/50 p-4">
                     <div className="flex items-center gap-2">
@@ -295,6 +303,8 @@ export default function ConceptBoosterPage() {
               </div>
             )}
 
+            {mode === "idle" && <ContinueLearningPanel className="" />}
+
             {/* Loading Animation */}
             {mode === "loading" && (
               <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-16">
@@ -341,6 +351,14 @@ export default function ConceptBoosterPage() {
                   <div>
                     <h2 className="text-xl font-bold text-slate-900">{topic}</h2>
                     <p className="text-sm text-slate-600 mt-1">{learningLevel}</p>
+                    {pathId && (
+                      <Link
+                        href={`/concept-booster/paths?path=${encodeURIComponent(pathId)}`}
+                        className="mt-1 inline-block text-sm font-medium text-green-700 hover:text-green-800"
+                      >
+                        ← Back to learning path
+                      </Link>
+                    )}
                   </div>
                   <button
                     onClick={handleReset}
@@ -363,6 +381,7 @@ export default function ConceptBoosterPage() {
                   </button>
                 </div>
 
+                <RateLimitNotice secondsLeft={secondsLeft} className="" />
                 {error && (
                   <div className="rounded-xl border-2 border-rose-200 bg-rose-50/50 p-4">
                     <div className="flex items-center gap-2">
@@ -394,6 +413,7 @@ export default function ConceptBoosterPage() {
                     onUnderstandingSubmit={handleUnderstandingSubmit}
                     onPracticeSubmit={handlePracticeSubmit}
                     onDoubtSubmit={handleDoubtSubmit}
+                    onContinue={handleContinue}
                     isLoading={false}
                   />
                 </div>
@@ -405,3 +425,11 @@ export default function ConceptBoosterPage() {
     </ErrorBoundary>
   );
 }
+
+export default function ConceptBoosterPage() {
+  return (
+    <Suspense fallback={null}>
+      <ConceptBoosterSession />
+    </Suspense>
+  );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import ConceptBoosterForm from "@/components/ConceptBoosterForm";
+import LearningPathGraph from "@/components/LearningPathGraph";
+import LearningPathsPanel from "@/components/LearningPathsPanel";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import RateLimitNotice, { useRateLimitCountdown } from "@/components/RateLimitNotice";
+import { CONCEPT_STEP_LABELS, rememberSession } from "@/lib/concept-sessions";
+import {
+  LEARNING_NODE_STATUS_LABELS,
+  forgetPath,
+  learningNodeStatus,
+  nodeDepths,
+  rememberPath,
+  type LearningNodeStatus,
+  type LearningPathDetail,
+} from "@/lib/learning-paths";
+
+type Mode = "idle" | "loading" | "active";
+
+interface ErrorResponse {
+  error: string;
+  error_code?: string;
+}
+
+const STATUS_BADGES: Record<LearningNodeStatus, string> = {
+  locked: "bg-slate-100 text-slate-600",
+  ready: "bg-blue-50 text-blue-700",
+  in_progress: "bg-amber-50 text-amber-700",
+  mastered: "bg-green-50 text-green-700",
+};
+
+function LearningPathPlanner() {
+  const router = useRouter();
+  const pathParam = useSearchParams().get("path");
+  const [mode, setMode] = useState<Mode>(pathParam ? "loading" : "idle");
+  const [error, setError] = useState<string | null>(null);
+  const { secondsLeft, throttle } = useRateLimitCountdown();
+  const [path, setPath] = useState<LearningPathDetail | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Node whose session is being started
+  const [startingId, setStartingId] = useState<string | null>(null);
+  // Path the URL was last synced with, so our own URL updates don't reload it
+  const loadedPathRef = useRef<string | null>(null);
+
+  const loadPath = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/learning-paths?id=${encodeURIComponent(id)}`);
+      if (!res.ok) {
+        if (res.status === 404) {
+          forgetPath(id);
+        }
+        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to load learning path" }));
+        throw new Error(errorData.error || "Failed to load learning path");
+      }
+
+      const data: { path: LearningPathDetail } = await res.json();
+      rememberPath(data.path.id);
+      setPath(data.path);
+      setMode("active");
+    } catch (err) {
+      console.error("Learning path error:", err);
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+      setMode("idle");
+      loadedPathRef.current = null;
+      router.replace("/concept-booster/paths");
+    }
+  }, [router]);
+
+  useEffect(() => {
+    if (pathParam && pathParam !== loadedPathRef.current) {
+      loadedPathRef.current = pathParam;
+      loadPath(pathParam);
+    }
+  }, [pathParam, loadPath]);
+
+  const handlePlan = async (data: { topic: string; learning_level: string; model: string }) => {
+    setMode("loading");
+    setError(null);
+
+    try {
+      const res = await fetch("/api/learning-paths", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          goal: data.topic,
+          learning_level: data.learning_level,
+          model: data.model,
+        }),
+      });
+
+      if (!res.ok) {
+        // Throttled: the countdown notice replaces the error message
+        if (throttle(res)) {
+          setMode("idle");
+          return;
+        }
+
+        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to plan a learning path" }));
+        throw new Error(errorData.error || "Failed to plan a learning path");
+      }
+
+      const responseData: { path: LearningPathDetail } = await res.json();
+      rememberPath(responseData.path.id);
+      loadedPathRef.current = responseData.path.id;
+      setPath(responseData.path);
+      setSelectedId(null);
+      setMode("active");
+      router.replace(`/concept-booster/paths?path=${encodeURIComponent(responseData.path.id)}`);
+    } catch (err) {
+      console.error("Learning path error:", err);
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+      setMode("idle");
+    }
+  };
+
+  // Start a Concept Booster session for a sub-topic and open it
+  const handleStartNode = async (nodeId: string) => {
+    if (!path) return;
+    setStartingId(nodeId);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/concept-booster", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ path_id: path.id, node_id: nodeId, step: "diagnostic" }),
+      });
+
+      if (!res.ok) {
+        if (throttle(res)) {
+          return;
+        }
+
+        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to start learning" }));
+        throw new Error(errorData.error || "Failed to start learning");
+      }
+
+      const responseData: { session_id: string } = await res.json();
+      rememberSession(responseData.session_id);
+      router.push(`/concept-booster?session=${encodeURIComponent(responseData.session_id)}`);
+    } catch (err) {
+      console.error("Learning path error:", err);
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  const handleReset = () => {
+    setMode("idle");
+    setError(null);
+    setPath(null);
+    setSelectedId(null);
+    loadedPathRef.current = null;
+    router.replace("/concept-booster/paths");
+  };
+
+  // Learning order: every sub-topic after its prerequisites
+  const depths = path ? nodeDepths(path.nodes) : new Map<string, number>();
+  const orderedNodes = path
+    ? [...path.nodes].sort((a, b) => (depths.get(a.id) ?? 0) - (depths.get(b.id) ?? 0))
+    : [];
+  const masteredCount = path
+    ? path.nodes.filter((node) => learningNodeStatus(node, path.progress) === "mastered").length
+    : 0;
+
+  const errorNotice = error && (
+    <div className="rounded-xl border-2 border-rose-200 bg-rose-50/50 p-4">
+      <div className="flex items-center gap-2">
+        <svg
+          className="h-5 w-5 text-rose-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+        <p className="text-sm font-medium text-rose-800">{error}</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <ErrorBoundary>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100">
+        <main className="mx-auto max-w-6xl px-4 py-12 sm:px-6 lg:px-8">
+          <header className="mb-12 text-center">
+            <h1 className="text-5xl font-bold bg-gradient-to-r from-green-600 to-green-800 bg-clip-text text-transparent mb-4">
+              Learning Paths
+            </h1>
+            <p className="text-lg text-slate-600 max-w-2xl mx-auto leading-relaxed">
+              Break a broad goal into the sub-topics it builds on. Learn each one with Concept Booster, in order, and watch the path fill in as you master them.
+            </p>
+            <Link
+              href="/concept-booster"
+              className="mt-4 inline-block text-sm font-medium text-green-700 hover:text-green-800"
+            >
+              Learn a single topic instead →
+            </Link>
+          </header>
+
+          <div className="space-y-8">
+            {mode === "idle" && (
+              <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8">
+                <ConceptBoosterForm variant="path" onSubmit={handlePlan} isLoading={false} />
+                <RateLimitNotice secondsLeft={secondsLeft} />
+                {errorNotice && <div className="mt-6">{errorNotice}</div>}
+              </div>
+            )}
+
+            {mode === "idle" && <LearningPathsPanel className="" />}
+
+            {mode === "loading" && (
+              <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-16">
+                <div className="flex flex-col items-center justify-center space-y-6">
+                  <svg
+                    className="h-20 w-20 animate-spin text-green-600"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    />
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    />
+                  </svg>
+                  <p className="text-lg font-semibold text-slate-900">
+                    {pathParam ? "Loading your learning path..." : "Planning your learning path..."}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {mode === "active" && path && (
+              <div className="space-y-6">
+                <div className="flex items-center justify-between rounded-xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-lg px-6 py-4">
+                  <div>
+                    <h2 className="text-xl font-bold text-slate-900">{path.goal}</h2>
+                    <p className="text-sm text-slate-600 mt-1">
+                      {path.learningLevel} • {masteredCount}/{path.nodes.length} mastered
+                    </p>
+                  </div>
+                  <button
+                    onClick={handleReset}
+                    className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 hover:shadow focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    Plan New Path
+                  </button>
+                </div>
+
+                <RateLimitNotice secondsLeft={secondsLeft} className="" />
+                {errorNotice}
+
+                <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8">
+                  <h3 className="mb-4 text-lg font-semibold text-slate-900">Prerequisite Graph</h3>
+                  <LearningPathGraph
+                    nodes={path.nodes}
+                    progress={path.progress}
+                    selectedId={selectedId}
+                    onSelect={setSelectedId}
+                  />
+                  <p className="mt-3 text-xs text-slate-500">
+                    Arrows point from a prerequisite to the sub-topic that builds on it. Click a sub-topic to find it below.
+                  </p>
+                </div>
+
+                <ol className="space-y-3">
+                  {orderedNodes.map((node, index) => {
+                    const status = learningNodeStatus(node, path.progress);
+                    const progress = path.progress[node.id];
+                    const prerequisites = node.prerequisites
+                      .map((id) => path.nodes.find((candidate) => candidate.id === id)?.title)
+                      .filter(Boolean);
+
+                    return (
+                      <li
+                        key={node.id}
+                        className={`flex items-start justify-between gap-4 rounded-xl border-2 bg-white p-5 shadow-sm ${
+                          node.id === selectedId ? "border-green-500" : "border-slate-200"
+                        }`}
+                      >
+                        <div className="min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-sm font-semibold text-slate-400">{index + 1}.</span>
+                            <h4 className="font-semibold text-slate-900">{node.title}</h4>
+                            <span className={`rounded-full px-2.5 py-0.5 text-xs font-semibold ${STATUS_BADGES[status]}`}>
+                              {LEARNING_NODE_STATUS_LABELS[status]}
+                              {progress?.mastery !== null && progress?.mastery !== undefined ? ` • ${progress.mastery}%` : ""}
+                            </span>
+                          </div>
+                          {node.description && (
+                            <p className="mt-1 text-sm text-slate-600">{node.description}</p>
+                          )}
+                          {prerequisites.length > 0 && (
+                            <p className="mt-1 text-xs text-slate-500">Builds on: {prerequisites.join(", ")}</p>
+                          )}
+                          {progress && (
+                            <p className="mt-1 text-xs text-slate-500">
+                              Last step: {CONCEPT_STEP_LABELS[progress.currentStep] ?? progress.currentStep}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="flex flex-shrink-0 flex-col items-end gap-2">
+                          {progress && (
+                            <Link
+                              href={`/concept-booster?session=${encodeURIComponent(progress.sessionId)}`}
+                              className="rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-green-700"
+                            >
+                              Continue
+                            </Link>
+                          )}
+                          <button
+                            onClick={() => handleStartNode(node.id)}
+                            disabled={startingId !== null || secondsLeft > 0}
+                            className={
+                              progress || status === "locked"
+                                ? "text-xs font-medium text-slate-500 hover:text-green-700 disabled:opacity-50"
+                                : "rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-green-700 disabled:opacity-50"
+                            }
+                          >
+                            {startingId === node.id
+                              ? "Starting..."
+                              : progress
+                                ? "Start over"
+                                : status === "locked"
+                                  ? "Start anyway"
+                                  : "Start"}
+                          </button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </ErrorBoundary>
+  );
+}
+
+export default function LearningPathsPage() {
+  return (
+    <Suspense fallback={null}>
+      <LearningPathPlanner />
+    </Suspense>
+  );
+}
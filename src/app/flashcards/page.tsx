@@ -4,6 +4,10 @@ import { useState } from "react";
 import FlashcardForm from "@/components/FlashcardForm";
 import FlashcardDisplay, { Flashcard } from "@/components/FlashcardDisplay";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import RateLimitNotice, { useRateLimitCountdown } from "@/components/RateLimitNotice";
+import ChunkProgressList from "@/components/ChunkProgressList";
+import { applyChunkProgress, type ChunkProgress } from "@/lib/chunking";
+import { readEventStream } from "@/lib/sse";
 
 type Mode = "idle" | "loading" | "done" | "error";
 
@@ -23,7 +27,6 @@ interface FlashcardResponse {
 interface ErrorResponse {
   error: string;
   error_code?: string;
-  retry_after?: number;
 }
 
 export default function FlashcardsPage() {
@@ -31,12 +34,15 @@ export default function FlashcardsPage() {
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<FlashcardResponse["metadata"]>();
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  const { secondsLeft, throttle } = useRateLimitCountdown();
 
   const handleGenerate = async (data: { content: string; learning_level: string; model: string }) => {
     setMode("loading");
     setError(null);
     setFlashcards([]);
     setMetadata(undefined);
+    setChunkProgress([]);
 
     try {
       const res = await fetch("/api/flashcards", {
@@ -48,32 +54,50 @@ export default function FlashcardsPage() {
           content: data.content,
           learning_level: data.learning_level,
           model: data.model,
+          stream: true,
         }),
       });
 
       if (!res.ok) {
+        // Throttled: the countdown notice replaces the error message
+        if (throttle(res)) {
+          setMode("error");
+          return;
+        }
+
         let errorMessage = "Failed to generate flashcards";
         let errorDetails = "";
-        let retryAfter: number | undefined;
 
         try {
           const errorData: ErrorResponse = await res.json();
           errorMessage = errorData.error || errorMessage;
           errorDetails = errorData.error_code || "";
-          retryAfter = errorData.retry_after;
         } catch {
           errorMessage = res.statusText || errorMessage;
         }
 
-        if (res.status === 429 && retryAfter) {
-          errorMessage = `${errorMessage} Please try again in ${retryAfter} seconds.`;
-        }
-
         const fullError = errorDetails ? `${errorMessage} (${errorDetails})` : errorMessage;
         throw new Error(fullError);
       }
 
-      const responseData: FlashcardResponse = await res.json();
+      // Long content is generated part by part: progress events arrive per
+      // chunk, then the merged deck in a single done event
+      let responseData = null as FlashcardResponse | null;
+      await readEventStream(res, (event, payload) => {
+        if (event === "progress") {
+          setChunkProgress((prev) => applyChunkProgress(prev, payload as ChunkProgress));
+        } else if (event === "error") {
+          const errorData = payload as ErrorResponse;
+          const message = errorData.error || "Failed to generate flashcards";
+          throw new Error(errorData.error_code ? `${message} (${errorData.error_code})` : message);
+        } else if (event === "done") {
+          responseData = payload as FlashcardResponse;
+        }
+      });
+
+      if (!responseData) {
+        throw new Error("The response ended unexpectedly. Please try again.");
+      }
 
       if (!responseData.flashcards || !Array.isArray(responseData.flashcards) || responseData.flashcards.length === 0) {
         throw new Error("Invalid response format from server");
@@ -98,6 +122,7 @@ export default function FlashcardsPage() {
     setFlashcards([]);
     setError(null);
     setMetadata(undefined);
+    setChunkProgress([]);
   };
 
   return (
@@ -136,6 +161,7 @@ export default function FlashcardsPage() {
             {mode !== "done" && (
               <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8">
                 <FlashcardForm onSubmit={handleGenerate} isLoading={mode === "loading"} />
+                <RateLimitNotice secondsLeft={secondsLeft} />
                 {error && (
                   <div className="mt-6 rounded-xl border-2 border-rose-200 bg-rose-50/50 p-4">
                     <div className="flex items-center gap-2">
@@ -194,6 +220,11 @@ export default function FlashcardsPage() {
                       AI is creating optimized flashcards from your content...
                     </p>
                   </div>
+                  <ChunkProgressList
+                    progress={chunkProgress}
+                    itemLabel="card"
+                    barClassName="from-indigo-500 to-indigo-600"
+                  />
                 </div>
               </div>
             )}
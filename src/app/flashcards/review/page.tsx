@@ -0,0 +1,58 @@
+"use client";
+
+import { Suspense, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import FlashcardReview from "@/components/FlashcardReview";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { loadDecks, loadDecksOnServer, subscribeToDecks } from "@/lib/spaced-repetition";
+
+function DeckReview() {
+  const router = useRouter();
+  const deckId = useSearchParams().get("deck");
+  const decks = useSyncExternalStore(subscribeToDecks, loadDecks, loadDecksOnServer);
+  const deck = decks.find((d) => d.id === deckId);
+
+  if (!deck) {
+    return (
+      <div className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm text-center">
+        <p className="text-base font-semibold text-slate-900">Deck not found</p>
+        <p className="mt-1 text-sm text-slate-600">
+          Decks are saved in this browser when you start reviewing a generated flashcard set.
+        </p>
+        <Link href="/flashcards" className="mt-4 inline-block text-sm font-medium text-sky-700 hover:text-sky-800">
+          Generate flashcards →
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-slate-900 truncate">{deck.title}</h2>
+      <FlashcardReview key={deck.id} deck={deck} onExit={() => router.push("/")} />
+    </div>
+  );
+}
+
+export default function FlashcardReviewPage() {
+  return (
+    <ErrorBoundary>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100">
+        <main className="mx-auto max-w-3xl px-4 py-12 sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <Link href="/" className="text-sm font-medium text-slate-500 hover:text-slate-700">
+              ← Dashboard
+            </Link>
+            <h1 className="mt-2 text-3xl font-bold text-slate-900">Flashcard Review</h1>
+          </div>
+          <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8">
+            <Suspense fallback={null}>
+              <DeckReview />
+            </Suspense>
+          </div>
+        </main>
+      </div>
+    </ErrorBoundary>
+  );
+}
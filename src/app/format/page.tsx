@@ -1,18 +1,22 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import MarkdownRenderer from "@/components/MarkdownRenderer";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import ModelSelector from "@/components/ModelSelector";
 import OCRUploader from "@/components/OCRUploader";
+import DocumentUploader from "@/components/DocumentUploader";
 import ExportButtons from "@/components/ExportButtons";
+import PresetManager from "@/components/PresetManager";
+import RateLimitNotice, { useRateLimitCountdown } from "@/components/RateLimitNotice";
 import { generateFormattedTextPDF } from "@/lib/pdf-generator";
+import { readEventStream } from "@/lib/sse";
+import type { ChunkProgress } from "@/lib/chunking";
 
 type Mode = "idle" | "loading" | "done" | "error";
 
-interface FormatResponse {
-  formatted: string;
-}
+// Matches the limit in /api/format
+const MAX_TEXT_LENGTH = 50000;
 
 interface ErrorResponse {
   error: string;
@@ -24,8 +28,19 @@ export default function FormatPage() {
   const [mode, setMode] = useState<Mode>("idle");
   const [error, setError] = useState<string | null>(null);
   const [model, setModel] = useState("auto");
+  const [cancelled, setCancelled] = useState(false);
+  // Long answers are formatted part by part
+  const [part, setPart] = useState<ChunkProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { secondsLeft, throttle } = useRateLimitCountdown();
+
+  // Stop any in-flight stream when leaving the page
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
 
-  const canSubmit = rawAnswer.trim().length > 0 && mode !== "loading";
+  const canSubmit =
+    rawAnswer.trim().length > 0 && rawAnswer.length <= MAX_TEXT_LENGTH && mode !== "loading" && secondsLeft === 0;
 
   async function handleFormat() {
     const trimmedText = rawAnswer.trim();
@@ -42,6 +57,12 @@ export default function FormatPage() {
     setMode("loading");
     setError(null);
     setFormatted("");
+    setCancelled(false);
+    setPart(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let received = "";
 
     try {
       const res = await fetch("/api/format", {
@@ -49,10 +70,17 @@ export default function FormatPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ text: trimmedText, model }),
+        body: JSON.stringify({ text: trimmedText, model, stream: true }),
+        signal: controller.signal,
       });
 
       if (!res.ok) {
+        // Throttled: the countdown notice replaces the error message
+        if (throttle(res)) {
+          setMode("error");
+          return;
+        }
+
         let errorMessage = "Failed to format answer";
         let errorDetails = "";
         try {
@@ -66,15 +94,33 @@ export default function FormatPage() {
         throw new Error(fullError);
       }
 
-      const data: FormatResponse = await res.json();
+      let finished = false;
+      await readEventStream(res, (event, data) => {
+        const payload = data as { content?: string; error?: string };
+        if (event === "progress") {
+          setPart(data as ChunkProgress);
+        } else if (event === "delta" && typeof payload.content === "string") {
+          received += payload.content;
+          setFormatted(received);
+        } else if (event === "error") {
+          throw new Error(payload.error || "Failed to format answer");
+        } else if (event === "done") {
+          finished = true;
+        }
+      });
 
-      if (!data.formatted || typeof data.formatted !== "string") {
-        throw new Error("Invalid response format from server");
+      if (!finished) {
+        throw new Error("The response ended unexpectedly. Please try again.");
       }
 
-      setFormatted(data.formatted);
       setMode("done");
     } catch (err) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the student cancelled
+        setMode(received ? "done" : "idle");
+        return;
+      }
+
       console.error("Format error:", err);
       setError(
         err instanceof Error
@@ -82,9 +128,19 @@ export default function FormatPage() {
           : "Something went wrong. Please try again.",
       );
       setMode("error");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
     }
   }
 
+  function handleCancel() {
+    if (!abortRef.current) return;
+    setCancelled(true);
+    abortRef.current.abort();
+  }
+
   async function handleCopy() {
     if (!formatted) return;
     try {
@@ -99,6 +155,7 @@ export default function FormatPage() {
     setFormatted("");
     setMode("idle");
     setError(null);
+    setCancelled(false);
   }
 
   function handleExportText() {
@@ -114,9 +171,14 @@ export default function FormatPage() {
     URL.revokeObjectURL(url);
   }
 
-  function handleExportPDF() {
+  async function handleExportPDF() {
     if (!formatted) return;
-    generateFormattedTextPDF(formatted, "BrainBolt Formatted Answer");
+    try {
+      await generateFormattedTextPDF(formatted, "BrainBolt Formatted Answer");
+    } catch (err) {
+      console.error("Failed to generate PDF:", err);
+      alert("Failed to generate PDF. Please try again.");
+    }
   }
 
 
@@ -174,11 +236,20 @@ export default function FormatPage() {
                   </svg>
                   Your Raw Answer
                 </label>
+                <PresetManager
+                  toolType="format"
+                  currentSettings={{ model }}
+                  onLoadPreset={(settings) => {
+                    if (settings.model) setModel(settings.model);
+                  }}
+                  disabled={mode === "loading"}
+                />
                 <div className="mb-4">
                   <ModelSelector selectedModel={model} onModelChange={setModel} disabled={mode === "loading"} />
                 </div>
                 <textarea
                   id="answer-input"
+                  dir="auto"
                   value={rawAnswer}
                   onChange={(e) => setRawAnswer(e.target.value)}
                   placeholder="Paste your unformatted answer here... Start typing or paste your content to begin formatting."
@@ -195,60 +266,81 @@ export default function FormatPage() {
                     disabled={mode === "loading"}
                   />
                 </div>
+                <div className="mt-4">
+                  <DocumentUploader
+                    onTextExtracted={(extractedText) => {
+                      setRawAnswer((prev) => (prev.trim() ? `${prev}\n\n${extractedText}` : extractedText));
+                    }}
+                    disabled={mode === "loading"}
+                    maxLength={MAX_TEXT_LENGTH}
+                  />
+                </div>
                 <div className="mt-4 flex items-center justify-between">
-                  <span className="text-sm text-slate-500">
-                    {rawAnswer.length} characters
+                  <span className={`text-sm ${rawAnswer.length > MAX_TEXT_LENGTH ? "text-rose-600" : "text-slate-500"}`}>
+                    {rawAnswer.length.toLocaleString()} / {MAX_TEXT_LENGTH.toLocaleString()} characters
                   </span>
-                  <button
-                    type="button"
-                    onClick={handleFormat}
-                    disabled={!canSubmit}
-                    className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-sky-600 to-sky-700 px-8 py-3 text-base font-semibold text-white shadow-lg shadow-sky-500/25 transition-all hover:shadow-xl hover:shadow-sky-500/30 hover:scale-[1.02] focus:outline-none focus:ring-4 focus:ring-sky-500/20 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
-                  >
-                    {mode === "loading" ? (
-                      <>
-                        <svg
-                          className="h-5 w-5 animate-spin"
-                          xmlns="http://www.w3.org/2000/svg"
-                          fill="none"
-                          viewBox="0 0 24 24"
-                        >
-                          <circle
-                            className="opacity-25"
-                            cx="12"
-                            cy="12"
-                            r="10"
-                            stroke="currentColor"
-                            strokeWidth="4"
-                          />
-                          <path
-                            className="opacity-75"
-                            fill="currentColor"
-                            d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                          />
-                        </svg>
-                        Formatting...
-                      </>
-                    ) : (
-                      <>
-                        <svg
-                          className="h-5 w-5"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M13 10V3L4 14h7v7l9-11h-7z"
-                          />
-                        </svg>
-                        Format Answer
-                      </>
+                  <div className="flex items-center gap-3">
+                    {mode === "loading" && (
+                      <button
+                        type="button"
+                        onClick={handleCancel}
+                        className="inline-flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-6 py-3 text-base font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50 focus:outline-none focus:ring-4 focus:ring-slate-500/10"
+                      >
+                        Cancel
+                      </button>
                     )}
-                  </button>
+                    <button
+                      type="button"
+                      onClick={handleFormat}
+                      disabled={!canSubmit}
+                      className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-sky-600 to-sky-700 px-8 py-3 text-base font-semibold text-white shadow-lg shadow-sky-500/25 transition-all hover:shadow-xl hover:shadow-sky-500/30 hover:scale-[1.02] focus:outline-none focus:ring-4 focus:ring-sky-500/20 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+                    >
+                      {mode === "loading" ? (
+                        <>
+                          <svg
+                            className="h-5 w-5 animate-spin"
+                            xmlns="http://www.w3.org/2000/svg"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                          >
+                            <circle
+                              className="opacity-25"
+                              cx="12"
+                              cy="12"
+                              r="10"
+                              stroke="currentColor"
+                              strokeWidth="4"
+                            />
+                            <path
+                              className="opacity-75"
+                              fill="currentColor"
+                              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                            />
+                          </svg>
+                          Formatting...
+                        </>
+                      ) : (
+                        <>
+                          <svg
+                            className="h-5 w-5"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M13 10V3L4 14h7v7l9-11h-7z"
+                            />
+                          </svg>
+                          Format Answer
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
+                <RateLimitNotice secondsLeft={secondsLeft} className="mt-4" />
                 {error && (
                   <div className="mt-4 rounded-xl border-2 border-rose-200 bg-rose-50/50 p-4">
                     <div className="flex items-center gap-2">
@@ -272,8 +364,8 @@ export default function FormatPage() {
               </div>
             </div>
 
-            {/* Loading Animation */}
-            {mode === "loading" && (
+            {/* Loading Animation (until the first tokens arrive) */}
+            {mode === "loading" && !formatted && (
               <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-16">
                 <div className="flex flex-col items-center justify-center space-y-6">
                   <div className="relative">
@@ -312,7 +404,7 @@ export default function FormatPage() {
             )}
 
             {/* Output Section */}
-            {formatted && mode !== "loading" && (
+            {formatted && (
               <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl overflow-hidden">
                 <div className="flex items-center justify-between border-b border-slate-200 bg-gradient-to-r from-slate-50 to-white px-6 py-4">
                   <div className="flex items-center gap-3">
@@ -335,36 +427,46 @@ export default function FormatPage() {
                       <h3 className="text-base font-semibold text-slate-900">
                         Formatted Answer
                       </h3>
-                      <p className="text-xs text-slate-500">Ready to use</p>
+                      <p className="text-xs text-slate-500">
+                        {mode === "loading"
+                          ? part && part.total > 1
+                            ? `Writing part ${part.chunk} of ${part.total}...`
+                            : "Writing..."
+                          : cancelled
+                            ? "Stopped early - partial answer"
+                            : "Ready to use"}
+                      </p>
                     </div>
                   </div>
-                  <div className="flex items-center gap-3 flex-wrap">
-                    <ExportButtons
-                      onExportPDF={handleExportPDF}
-                      onExportText={handleExportText}
-                      onCopy={handleCopy}
-                    />
-                    <button
-                      type="button"
-                      onClick={handleClear}
-                      className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 hover:shadow focus:outline-none focus:ring-2 focus:ring-sky-500"
-                    >
-                      <svg
-                        className="h-4 w-4"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
+                  {mode !== "loading" && (
+                    <div className="flex items-center gap-3 flex-wrap">
+                      <ExportButtons
+                        onExportPDF={handleExportPDF}
+                        onExportText={handleExportText}
+                        onCopy={handleCopy}
+                      />
+                      <button
+                        type="button"
+                        onClick={handleClear}
+                        className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 hover:shadow focus:outline-none focus:ring-2 focus:ring-sky-500"
                       >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M6 18L18 6M6 6l12 12"
-                        />
-                      </svg>
-                      Clear
-                    </button>
-                  </div>
+                        <svg
+                          className="h-4 w-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M6 18L18 6M6 6l12 12"
+                          />
+                        </svg>
+                        Clear
+                      </button>
+                    </div>
+                  )}
                 </div>
                 <div className="p-8 bg-gradient-to-br from-slate-50 to-white min-h-[300px] max-h-[700px] overflow-y-auto">
                   <div className="prose prose-sky max-w-none prose-headings:font-bold prose-p:text-slate-700 prose-strong:text-slate-900">
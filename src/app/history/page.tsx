@@ -0,0 +1,466 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import MarkdownRenderer from "@/components/MarkdownRenderer";
+import MathText from "@/components/MathText";
+import MermaidDiagram from "@/components/MermaidDiagram";
+import MCQList, { MCQ } from "@/components/MCQList";
+import FlashcardDisplay, { Flashcard } from "@/components/FlashcardDisplay";
+import QuizResults from "@/components/QuizResults";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { useDebouncedValue } from "@/lib/api-manager";
+import {
+  HISTORY_FEATURES,
+  HISTORY_FEATURE_LABELS,
+  HISTORY_PAGE_SIZE,
+  type HistoryDetail,
+  type HistoryFeature,
+  type HistoryListItem,
+} from "@/lib/history";
+import type { QuizAttempt } from "@/lib/quiz";
+import type { GradedAnswer } from "@/lib/structured-output";
+
+interface HistoryListResponse {
+  items: HistoryListItem[];
+  total: number;
+  page: number;
+}
+
+interface ErrorResponse {
+  error: string;
+}
+
+const FEATURE_BADGES: Record<HistoryFeature, string> = {
+  format: "bg-sky-50 text-sky-700 border-sky-200",
+  mcq: "bg-purple-50 text-purple-700 border-purple-200",
+  flashcards: "bg-indigo-50 text-indigo-700 border-indigo-200",
+  "concept-booster": "bg-green-50 text-green-700 border-green-200",
+  quiz: "bg-rose-50 text-rose-700 border-rose-200",
+};
+
+function HistoryOutput({ item }: { item: HistoryDetail }) {
+  if (item.feature === "format") {
+    return <MarkdownRenderer content={item.outputText} />;
+  }
+
+  let output: Record<string, unknown>;
+  try {
+    output = JSON.parse(item.outputText);
+  } catch {
+    return <p className="text-sm text-rose-700">This history entry could not be read.</p>;
+  }
+
+  if (item.feature === "mcq") {
+    return <MCQList mcqs={(output.mcqs as MCQ[]) || []} title={output.title as string | undefined} />;
+  }
+
+  if (item.feature === "quiz") {
+    return <QuizResults attempt={output as unknown as QuizAttempt} />;
+  }
+
+  if (item.feature === "flashcards") {
+    return (
+      <FlashcardDisplay
+        flashcards={(output.flashcards as Flashcard[]) || []}
+        metadata={output.metadata as Parameters<typeof FlashcardDisplay>[0]["metadata"]}
+      />
+    );
+  }
+
+  // Concept Booster: read-only view of the saved step
+  const content = (output.content || {}) as {
+    message?: string;
+    answer?: string;
+    questions?: Array<{ id: number; question: string }>;
+    explanation?: Record<string, string>;
+    understanding_check?: { questions: Array<{ id: number; question: string; correct_answer?: string }> };
+    grading?: { results: GradedAnswer[]; mastery?: number };
+    review?: { concepts: Array<{ concept: string; explanation: string; example?: string }> };
+    practice_task?: { task: string; ideal_response?: string };
+    feedback?: { comparison: string; improvements: string[]; misunderstandings: string[] };
+  };
+
+  return (
+    <div className="space-y-4 text-sm text-slate-700">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+        Step: {String(output.step || "unknown").replace(/_/g, " ")}
+        {output.learning_level ? ` • ${output.learning_level}` : ""}
+      </p>
+      {content.message && <p className="rounded-lg bg-sky-50 border border-sky-200 p-4 text-sky-800">{content.message}</p>}
+      {content.answer && <p className="whitespace-pre-line leading-relaxed"><MathText text={content.answer} /></p>}
+      {content.questions && (
+        <ol className="list-decimal ml-6 space-y-1">
+          {content.questions.map((q) => <li key={q.id}><MathText text={q.question} /></li>)}
+        </ol>
+      )}
+      {content.explanation && (
+        <div className="space-y-3">
+          {Object.entries(content.explanation).map(([key, value]) => (
+            <div key={key} className="rounded-lg border border-slate-200 bg-white p-4">
+              <h4 className="font-semibold text-slate-900 mb-1 capitalize">{key.replace(/_/g, " ")}</h4>
+              {key === "diagram" ? (
+                <MermaidDiagram code={value} />
+              ) : (
+                <p className="whitespace-pre-line leading-relaxed"><MathText text={value} /></p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {content.understanding_check && (
+        <ol className="list-decimal ml-6 space-y-2">
+          {content.understanding_check.questions.map((q) => (
+            <li key={q.id}>
+              <MathText text={q.question} />
+              {q.correct_answer && <p className="text-xs text-slate-500 mt-1">Answer: <MathText text={q.correct_answer} /></p>}
+            </li>
+          ))}
+        </ol>
+      )}
+      {content.grading && (
+        <div className="space-y-3">
+          {content.grading.mastery !== undefined && (
+            <p className="font-semibold text-slate-900">Mastery: {content.grading.mastery}%</p>
+          )}
+          {content.grading.results.map((result) => (
+            <div key={result.id} className="rounded-lg border border-slate-200 bg-white p-4">
+              <p className="font-semibold text-slate-900">
+                {result.id}. {result.question}{" "}
+                <span className="text-xs font-medium uppercase text-slate-500">({result.verdict})</span>
+              </p>
+              {result.answer && <p className="text-xs text-slate-500 mt-1 whitespace-pre-line">Answer: {result.answer}</p>}
+              <p className="mt-1">{result.rationale}</p>
+              {result.missed_concept && <p className="text-xs text-amber-700 mt-1">Missed: {result.missed_concept}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+      {content.review && (
+        <div className="space-y-3">
+          {content.review.concepts.map((concept, idx) => (
+            <div key={idx} className="rounded-lg border border-slate-200 bg-white p-4">
+              <h4 className="font-semibold text-slate-900 mb-1">{concept.concept}</h4>
+              <p className="whitespace-pre-line leading-relaxed">{concept.explanation}</p>
+              {concept.example && <p className="mt-2 text-xs text-slate-500 whitespace-pre-line">Example: {concept.example}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+      {content.practice_task && (
+        <div className="rounded-lg border border-slate-200 bg-white p-4 whitespace-pre-line"><MathText text={content.practice_task.task} /></div>
+      )}
+      {content.feedback && (
+        <div className="space-y-3">
+          <p className="whitespace-pre-line leading-relaxed"><MathText text={content.feedback.comparison} /></p>
+          {content.feedback.improvements?.length > 0 && (
+            <ul className="list-disc ml-6 space-y-1 text-green-800">
+              {content.feedback.improvements.map((imp, idx) => <li key={idx}><MathText text={imp} /></li>)}
+            </ul>
+          )}
+          {content.feedback.misunderstandings?.length > 0 && (
+            <ul className="list-disc ml-6 space-y-1 text-amber-800">
+              {content.feedback.misunderstandings.map((mis, idx) => <li key={idx}><MathText text={mis} /></li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  const [items, setItems] = useState<HistoryListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [feature, setFeature] = useState<HistoryFeature | "all">("all");
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openItem, setOpenItem] = useState<HistoryDetail | null>(null);
+  const [signedOut, setSignedOut] = useState(false);
+
+  const debouncedSearch = useDebouncedValue(search, 400);
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (feature !== "all") params.set("feature", feature);
+      if (debouncedSearch.trim()) params.set("q", debouncedSearch.trim());
+
+      const res = await fetch(`/api/history?${params.toString()}`);
+      setSignedOut(res.status === 401);
+      if (res.status === 401) {
+        setItems([]);
+        setTotal(0);
+        return;
+      }
+      if (!res.ok) {
+        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to load history" }));
+        throw new Error(errorData.error || "Failed to load history");
+      }
+
+      const data: HistoryListResponse = await res.json();
+      setItems(data.items);
+      setTotal(data.total);
+    } catch (err) {
+      console.error("History error:", err);
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, feature, debouncedSearch]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleOpen = async (id: number) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/history?id=${id}`);
+      if (!res.ok) {
+        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Failed to open item" }));
+        throw new Error(errorData.error || "Failed to open item");
+      }
+      const data: { item: HistoryDetail } = await res.json();
+      setOpenItem(data.item);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open item");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm("Delete this item from your history?")) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/history?id=${id}`, { method: "DELETE" });
+      if (res.ok) {
+        if (openItem?.id === id) setOpenItem(null);
+        await fetchHistory();
+      }
+    } catch (err) {
+      console.error("Error deleting history item:", err);
+    }
+  };
+
+  const handleClear = async () => {
+    const scope = feature === "all" ? "all history" : `all ${HISTORY_FEATURE_LABELS[feature]} history`;
+    if (!confirm(`Delete ${scope}? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const query = feature === "all" ? "" : `?feature=${feature}`;
+      const res = await fetch(`/api/history${query}`, { method: "DELETE" });
+      if (res.ok) {
+        setOpenItem(null);
+        setPage(1);
+        await fetchHistory();
+      }
+    } catch (err) {
+      console.error("Error clearing history:", err);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+
+  return (
+    <ErrorBoundary>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100">
+        <main className="mx-auto max-w-6xl px-4 py-12 sm:px-6 lg:px-8">
+          {/* Premium Header */}
+          <header className="mb-12 text-center">
+            <div className="inline-flex items-center justify-center gap-3 mb-4">
+              <div className="flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-amber-500 to-amber-600 shadow-lg">
+                <svg
+                  className="h-8 w-8 text-white"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+              </div>
+              <h1 className="text-5xl font-bold bg-gradient-to-r from-amber-600 to-amber-800 bg-clip-text text-transparent">
+                History
+              </h1>
+            </div>
+            <p className="text-lg text-slate-600 max-w-2xl mx-auto leading-relaxed">
+              Come back to anything you generated. Search, filter by tool, re-open or delete past results.
+            </p>
+          </header>
+
+          {signedOut ? (
+            <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8 text-center space-y-4">
+              <p className="text-slate-700">Sign in to keep a history of everything you generate.</p>
+              <Link
+                href="/signin"
+                className="inline-flex items-center rounded-lg bg-amber-600 px-5 py-2.5 text-sm font-semibold text-white shadow transition hover:bg-amber-700"
+              >
+                Sign in
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {/* Opened Item */}
+              {openItem && (
+                <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8 space-y-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <span className={`inline-block text-xs font-semibold px-2 py-1 rounded border ${FEATURE_BADGES[openItem.feature]}`}>
+                        {HISTORY_FEATURE_LABELS[openItem.feature]}
+                      </span>
+                      <p className="mt-2 text-xs text-slate-500">{new Date(openItem.timestamp).toLocaleString()}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setOpenItem(null)}
+                      className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+                    >
+                      Close
+                    </button>
+                  </div>
+                  <details className="rounded-lg border border-slate-200 bg-slate-50 p-4">
+                    <summary className="cursor-pointer text-sm font-medium text-slate-700">Input</summary>
+                    <p className="mt-3 text-sm text-slate-700 whitespace-pre-line">{openItem.inputText}</p>
+                  </details>
+                  <HistoryOutput item={openItem} />
+                </div>
+              )}
+
+              {/* Filters */}
+              <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-6 space-y-4">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => {
+                      setSearch(e.target.value);
+                      setPage(1);
+                    }}
+                    placeholder="Search your history..."
+                    className="flex-1 rounded-md border border-slate-300 px-4 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-amber-500 focus:outline-none focus:ring-2 focus:ring-amber-500/20"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleClear}
+                    disabled={items.length === 0}
+                    className="rounded-md border border-rose-200 bg-rose-50 px-4 py-2.5 text-sm font-medium text-rose-700 transition hover:bg-rose-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Clear {feature === "all" ? "All" : HISTORY_FEATURE_LABELS[feature]}
+                  </button>
+                </div>
+                <div className="flex gap-2 flex-wrap">
+                  {(["all", ...HISTORY_FEATURES] as const).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => {
+                        setFeature(value);
+                        setPage(1);
+                      }}
+                      className={`px-4 py-2 rounded-md text-sm font-medium transition ${feature === value
+                        ? "bg-amber-600 text-white"
+                        : "bg-white border border-slate-300 text-slate-700 hover:bg-slate-50"
+                        }`}
+                    >
+                      {value === "all" ? "All" : HISTORY_FEATURE_LABELS[value]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {error && (
+                <div className="rounded-xl border-2 border-rose-200 bg-rose-50/50 p-4">
+                  <p className="text-sm font-medium text-rose-800">{error}</p>
+                </div>
+              )}
+
+              {/* History List */}
+              <div className="space-y-3">
+                {isLoading && items.length === 0 && (
+                  <p className="text-center text-sm text-slate-500">Loading history...</p>
+                )}
+                {!isLoading && items.length === 0 && !error && (
+                  <p className="text-center text-sm text-slate-500">
+                    {debouncedSearch || feature !== "all"
+                      ? "No history matches your filters."
+                      : "Nothing here yet. Results from every tool will show up here."}
+                  </p>
+                )}
+                {items.map((item) => (
+                  <div
+                    key={item.id}
+                    className={`flex items-start justify-between gap-4 rounded-lg border bg-white p-4 shadow-sm transition hover:shadow-md ${openItem?.id === item.id ? "border-amber-400 ring-2 ring-amber-100" : "border-slate-200"}`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className={`text-xs font-semibold px-2 py-0.5 rounded border ${FEATURE_BADGES[item.feature]}`}>
+                          {HISTORY_FEATURE_LABELS[item.feature]}
+                        </span>
+                        <span className="text-xs text-slate-500">{new Date(item.timestamp).toLocaleString()}</span>
+                      </div>
+                      <p className="text-sm text-slate-700 line-clamp-2">{item.inputPreview}</p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(item.id)}
+                        className="px-3 py-1.5 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-md hover:bg-amber-100 transition"
+                      >
+                        Open
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(item.id)}
+                        className="px-3 py-1.5 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 hover:text-rose-600 transition"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between">
+                  <button
+                    type="button"
+                    onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                    disabled={page <= 1 || isLoading}
+                    className="px-4 py-2 rounded-md border border-slate-300 bg-white text-sm text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    ← Previous
+                  </button>
+                  <span className="text-sm text-slate-600">
+                    Page {page} of {totalPages}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+                    disabled={page >= totalPages || isLoading}
+                    className="px-4 py-2 rounded-md border border-slate-300 bg-white text-sm text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    Next →
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </main>
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -3,19 +3,30 @@
 import { useState } from "react";
 import MCQForm from "@/components/MCQForm";
 import MCQList, { MCQ } from "@/components/MCQList";
+import QuizMode from "@/components/QuizMode";
+import ExamPaperBuilder from "@/components/ExamPaperBuilder";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import RateLimitNotice, { useRateLimitCountdown } from "@/components/RateLimitNotice";
+import ChunkProgressList from "@/components/ChunkProgressList";
+import { applyChunkProgress, type ChunkProgress } from "@/lib/chunking";
+import { readEventStream } from "@/lib/sse";
 
 type Mode = "idle" | "loading" | "done" | "error";
+type ResultView = "list" | "quiz" | "exam";
 
 interface MCQResponse {
   mcqs: MCQ[];
   source_tokens: number;
+  chunks?: {
+    total: number;
+    skipped: number;
+    duplicates_removed: number;
+  };
 }
 
 interface ErrorResponse {
   error: string;
   details?: string;
-  retry_after?: number;
   error_code?: string;
 }
 
@@ -25,6 +36,10 @@ export default function MCQPage() {
   const [error, setError] = useState<string | null>(null);
   const [title, setTitle] = useState<string>("");
   const [sourceTokens, setSourceTokens] = useState<number>(0);
+  const [view, setView] = useState<ResultView>("list");
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  const [chunkSummary, setChunkSummary] = useState<MCQResponse["chunks"]>();
+  const { secondsLeft, throttle } = useRateLimitCountdown();
 
   const handleGenerate = async (data: {
     text: string;
@@ -38,6 +53,8 @@ export default function MCQPage() {
     setError(null);
     setMcqs([]);
     setTitle(data.title);
+    setChunkProgress([]);
+    setChunkSummary(undefined);
 
     try {
       const res = await fetch("/api/mcq", {
@@ -52,29 +69,30 @@ export default function MCQPage() {
           include_explanations: data.includeExplanations,
           title: data.title,
           model: data.model,
+          stream: true,
         }),
       });
 
       if (!res.ok) {
+        // Throttled: the countdown notice replaces the error message
+        if (throttle(res)) {
+          setMode("error");
+          return;
+        }
+
         let errorMessage = "Failed to generate MCQs";
         let errorDetails = "";
-        let retryAfter: number | undefined;
         let errorCode: string | undefined;
 
         try {
-          const errorData: ErrorResponse & { error_code?: string; retry_after?: number } = await res.json();
+          const errorData: ErrorResponse = await res.json();
           errorMessage = errorData.error || errorMessage;
           errorDetails = errorData.details || "";
           errorCode = errorData.error_code;
-          retryAfter = errorData.retry_after;
         } catch {
           errorMessage = res.statusText || errorMessage;
         }
 
-        if (res.status === 429 && retryAfter) {
-          errorMessage = `${errorMessage} Please try again in ${retryAfter} seconds.`;
-        }
-
         if (errorCode === "INSUFFICIENT_CONTEXT") {
           errorMessage = errorMessage || "The provided text doesn't contain enough information to generate valid MCQs. Please provide more detailed content.";
         }
@@ -83,14 +101,31 @@ export default function MCQPage() {
         throw new Error(fullError);
       }
 
-      const responseData: MCQResponse = await res.json();
+      // Long text is generated part by part: progress events arrive per
+      // chunk, then the merged set in a single done event
+      let responseData = null as MCQResponse | null;
+      await readEventStream(res, (event, payload) => {
+        if (event === "progress") {
+          setChunkProgress((prev) => applyChunkProgress(prev, payload as ChunkProgress));
+        } else if (event === "error") {
+          throw new Error((payload as ErrorResponse).error || "Failed to generate MCQs");
+        } else if (event === "done") {
+          responseData = payload as MCQResponse;
+        }
+      });
+
+      if (!responseData) {
+        throw new Error("The response ended unexpectedly. Please try again.");
+      }
 
       if (!responseData.mcqs || !Array.isArray(responseData.mcqs) || responseData.mcqs.length === 0) {
         throw new Error("Invalid response format from server");
       }
 
       setMcqs(responseData.mcqs);
+      setView("list");
       setSourceTokens(responseData.source_tokens || 0);
+      setChunkSummary(responseData.chunks);
       setMode("done");
     } catch (err) {
       console.error("MCQ generation error:", err);
@@ -109,6 +144,9 @@ export default function MCQPage() {
     setError(null);
     setTitle("");
     setSourceTokens(0);
+    setView("list");
+    setChunkProgress([]);
+    setChunkSummary(undefined);
   };
 
   return (
@@ -147,6 +185,7 @@ export default function MCQPage() {
             {mode !== "done" && (
               <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8">
                 <MCQForm onSubmit={handleGenerate} isLoading={mode === "loading"} />
+                <RateLimitNotice secondsLeft={secondsLeft} />
                 {error && (
                   <div className="mt-6 rounded-xl border-2 border-rose-200 bg-rose-50/50 p-4">
                     <div className="flex items-center gap-2">
@@ -205,6 +244,7 @@ export default function MCQPage() {
                       AI is crafting high-quality questions from your content...
                     </p>
                   </div>
+                  <ChunkProgressList progress={chunkProgress} itemLabel="question" />
                 </div>
               </div>
             )}
@@ -236,32 +276,85 @@ export default function MCQPage() {
                       {sourceTokens > 0 && (
                         <p className="text-xs text-slate-500">
                           ~{sourceTokens.toLocaleString()} tokens processed
+                          {chunkSummary && ` in ${chunkSummary.total} parts`}
+                          {chunkSummary && chunkSummary.duplicates_removed > 0 &&
+                            ` • ${chunkSummary.duplicates_removed} duplicate${chunkSummary.duplicates_removed !== 1 ? "s" : ""} removed`}
                         </p>
                       )}
                     </div>
                   </div>
-                  <button
-                    onClick={handleReset}
-                    className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 hover:shadow focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  >
-                    <svg
-                      className="h-4 w-4"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+                  <div className="flex flex-wrap gap-3">
+                    {view === "list" && (
+                      <button
+                        onClick={() => setView("quiz")}
+                        className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-purple-600 to-purple-700 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        <svg
+                          className="h-4 w-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664zM21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                          />
+                        </svg>
+                        Take Quiz
+                      </button>
+                    )}
+                    {view === "list" && (
+                      <button
+                        onClick={() => setView("exam")}
+                        className="inline-flex items-center gap-2 rounded-lg border border-purple-300 bg-white px-5 py-2.5 text-sm font-semibold text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        <svg
+                          className="h-4 w-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z"
+                          />
+                        </svg>
+                        Exam Papers
+                      </button>
+                    )}
+                    <button
+                      onClick={handleReset}
+                      className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 hover:shadow focus:outline-none focus:ring-2 focus:ring-purple-500"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-                      />
-                    </svg>
-                    Generate New Set
-                  </button>
+                      <svg
+                        className="h-4 w-4"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                        />
+                      </svg>
+                      Generate New Set
+                    </button>
+                  </div>
                 </div>
                 <div className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8">
-                  <MCQList mcqs={mcqs} title={title} />
+                  {view === "quiz" ? (
+                    <QuizMode mcqs={mcqs} title={title} onExit={() => setView("list")} />
+                  ) : view === "exam" ? (
+                    <ExamPaperBuilder mcqs={mcqs} title={title} onExit={() => setView("list")} />
+                  ) : (
+                    <MCQList mcqs={mcqs} title={title} />
+                  )}
                 </div>
               </div>
             )}
@@ -2,6 +2,8 @@
 
 import Link from "next/link";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import DueTodayPanel from "@/components/DueTodayPanel";
+import ContinueLearningPanel from "@/components/ContinueLearningPanel";
 
 interface DashboardCard {
   title: string;
@@ -181,6 +183,12 @@ export default function Dashboard() {
           </p>
         </header>
 
+        {/* Flashcard review queue */}
+        <DueTodayPanel />
+
+        {/* Unfinished Concept Booster sessions */}
+        <ContinueLearningPanel />
+
         {/* Dashboard Cards Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 lg:gap-8">
           {dashboardCards.map((card) => (
@@ -0,0 +1,19 @@
+import AuthForm from "@/components/AuthForm";
+
+export default function SignUpPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100">
+      <main className="mx-auto max-w-md px-4 py-16 sm:px-6">
+        <header className="mb-8 text-center">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-sky-600 to-purple-600 bg-clip-text text-transparent">
+            Create account
+          </h1>
+          <p className="mt-3 text-slate-600">
+            Create a free account to save presets and keep a history of everything you generate.
+          </p>
+        </header>
+        <AuthForm mode="signup" />
+      </main>
+    </div>
+  );
+}
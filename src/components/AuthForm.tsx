@@ -0,0 +1,136 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FormEvent, useState } from "react";
+import RateLimitNotice, { useRateLimitCountdown } from "@/components/RateLimitNotice";
+
+interface AuthFormProps {
+  mode: "signin" | "signup";
+}
+
+interface ErrorResponse {
+  error: string;
+}
+
+export default function AuthForm({ mode }: AuthFormProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { secondsLeft, throttle } = useRateLimitCountdown();
+
+  const isSignUp = mode === "signup";
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(isSignUp ? { name, email, password } : { email, password }),
+      });
+
+      if (!res.ok) {
+        // Too many attempts: the countdown notice replaces the error message
+        if (throttle(res)) {
+          setIsSubmitting(false);
+          return;
+        }
+
+        const errorData: ErrorResponse = await res.json().catch(() => ({ error: "Something went wrong" }));
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      router.push("/");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-2xl border-2 border-slate-200/80 bg-white/80 backdrop-blur-sm shadow-xl p-8 space-y-5"
+    >
+      {isSignUp && (
+        <div>
+          <label htmlFor="auth-name" className="block text-sm font-medium text-slate-700 mb-1">
+            Name <span className="text-slate-400 font-normal">(optional)</span>
+          </label>
+          <input
+            id="auth-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoComplete="name"
+            maxLength={60}
+            className="w-full rounded-md border border-slate-300 px-4 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20"
+          />
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="auth-email" className="block text-sm font-medium text-slate-700 mb-1">
+          Email
+        </label>
+        <input
+          id="auth-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          autoComplete="email"
+          required
+          className="w-full rounded-md border border-slate-300 px-4 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="auth-password" className="block text-sm font-medium text-slate-700 mb-1">
+          Password
+        </label>
+        <input
+          id="auth-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={isSignUp ? "new-password" : "current-password"}
+          minLength={isSignUp ? 8 : undefined}
+          required
+          className="w-full rounded-md border border-slate-300 px-4 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20"
+        />
+        {isSignUp && <p className="mt-1 text-xs text-slate-500">At least 8 characters.</p>}
+      </div>
+
+      <RateLimitNotice secondsLeft={secondsLeft} className="" />
+
+      {error && (
+        <div className="rounded-lg border border-rose-200 bg-rose-50 p-3">
+          <p className="text-sm font-medium text-rose-800">{error}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting || secondsLeft > 0}
+        className="w-full rounded-lg bg-gradient-to-r from-sky-600 to-purple-600 px-6 py-3 text-sm font-semibold text-white shadow-lg transition hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? "Please wait..." : isSignUp ? "Create account" : "Sign in"}
+      </button>
+
+      <p className="text-center text-sm text-slate-600">
+        {isSignUp ? "Already have an account? " : "New to BrainBolt? "}
+        <Link href={isSignUp ? "/signin" : "/signup"} className="font-medium text-sky-600 hover:text-sky-700">
+          {isSignUp ? "Sign in" : "Create an account"}
+        </Link>
+      </p>
+    </form>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import type { ChunkProgress } from "@/lib/chunking";
+
+interface ChunkProgressListProps {
+  // One entry per chunk the server has reported so far
+  progress: ChunkProgress[];
+  // Noun for what each chunk produces, e.g. "question"
+  itemLabel: string;
+  barClassName?: string;
+}
+
+/**
+ * Per-chunk progress for long inputs that the server generates part by part.
+ * Renders nothing for inputs that fit in a single chunk.
+ */
+export default function ChunkProgressList({
+  progress,
+  itemLabel,
+  barClassName = "from-purple-500 to-purple-600",
+}: ChunkProgressListProps) {
+  // The list is sparse until every chunk has started
+  const total = progress.find(Boolean)?.total ?? 0;
+  if (total <= 1) return null;
+
+  const finished = progress.filter((chunk) => chunk.status !== "generating").length;
+  const current = progress.find((chunk) => chunk?.status === "generating");
+
+  return (
+    <div className="w-full max-w-md space-y-3">
+      <div className="flex items-center justify-between text-xs font-medium text-slate-600">
+        <span>{current ? `Part ${current.chunk} of ${total}` : `${total} parts`}</span>
+        <span>{finished} / {total} done</span>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-slate-200">
+        <div
+          className={`h-full bg-gradient-to-r ${barClassName} transition-all duration-300`}
+          style={{ width: `${Math.round((finished / total) * 100)}%` }}
+        />
+      </div>
+      <ol className="flex flex-wrap gap-1.5">
+        {Array.from({ length: total }, (_, index) => {
+          const chunk = progress[index];
+          const status = chunk?.status;
+          const title = !chunk
+            ? `Part ${index + 1}: waiting`
+            : status === "generating"
+              ? `Part ${index + 1}: generating`
+              : status === "skipped"
+                ? `Part ${index + 1}: skipped`
+                : `Part ${index + 1}: ${chunk.items} ${itemLabel}${chunk.items !== 1 ? "s" : ""}`;
+          return (
+            <li
+              key={index}
+              title={title}
+              className={`flex h-6 min-w-6 items-center justify-center rounded px-1.5 text-xs font-medium ${status === "done"
+                ? "bg-green-100 text-green-700"
+                : status === "skipped"
+                  ? "bg-slate-100 text-slate-400 line-through"
+                  : status === "generating"
+                    ? "bg-amber-100 text-amber-700 animate-pulse"
+                    : "bg-slate-100 text-slate-500"
+                }`}
+            >
+              {status === "done" ? chunk.items : index + 1}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -1,6 +1,18 @@
 "use client";
 
 import { useState } from "react";
+import MathText from "@/components/MathText";
+import MermaidDiagram from "@/components/MermaidDiagram";
+import { MASTERY_THRESHOLD } from "@/lib/concept-sessions";
+import type { ConceptBoosterResponse, GradedAnswer, GradingVerdict } from "@/lib/structured-output";
+
+type ReviewedConcept = NonNullable<ConceptBoosterResponse["content"]["review"]>["concepts"][number];
+
+const VERDICT_STYLES: Record<GradingVerdict, { label: string; className: string }> = {
+  correct: { label: "Correct", className: "bg-green-100 text-green-800" },
+  partial: { label: "Partly correct", className: "bg-amber-100 text-amber-800" },
+  incorrect: { label: "Incorrect", className: "bg-rose-100 text-rose-800" },
+};
 
 interface ConceptBoosterDisplayProps {
   step: string;
@@ -11,6 +23,8 @@ interface ConceptBoosterDisplayProps {
   onUnderstandingSubmit: (answers: Array<{ question: string; answer: string }>) => void;
   onPracticeSubmit: (answer: string) => void;
   onDoubtSubmit: (doubt: string) => void;
+  // Move on without new input: retry the check, review missed concepts or practise
+  onContinue: (step: "check_understanding" | "review" | "practice") => void;
   isLoading: boolean;
 }
 
@@ -23,6 +37,7 @@ export default function ConceptBoosterDisplay({
   onUnderstandingSubmit,
   onPracticeSubmit,
   onDoubtSubmit,
+  onContinue,
   isLoading,
 }: ConceptBoosterDisplayProps) {
   const [diagnosticAnswers, setDiagnosticAnswers] = useState<Record<number, string>>({});
@@ -43,7 +58,7 @@ export default function ConceptBoosterDisplay({
           {content.questions.map((q: any) => (
             <div key={q.id} className="rounded-lg border border-slate-200 bg-white p-5">
               <h4 className="font-semibold text-slate-900 mb-3">
-                {q.id}. {q.question}
+                {q.id}. <MathText text={q.question} />
               </h4>
               <textarea
                 value={diagnosticAnswers[q.id] || ""}
@@ -98,25 +113,32 @@ export default function ConceptBoosterDisplay({
         <div className="space-y-5">
           <div className="rounded-lg border border-slate-200 bg-white p-6">
             <h3 className="text-lg font-semibold text-slate-900 mb-3">💡 Simple Intuition</h3>
-            <p className="text-slate-700 leading-relaxed">{content.explanation.simple_intuition}</p>
+            <p className="text-slate-700 leading-relaxed"><MathText text={content.explanation.simple_intuition} /></p>
           </div>
 
           <div className="rounded-lg border border-slate-200 bg-white p-6">
             <h3 className="text-lg font-semibold text-slate-900 mb-3">🔗 Analogy</h3>
-            <p className="text-slate-700 leading-relaxed">{content.explanation.analogy}</p>
+            <p className="text-slate-700 leading-relaxed"><MathText text={content.explanation.analogy} /></p>
           </div>
 
           <div className="rounded-lg border border-slate-200 bg-white p-6">
             <h3 className="text-lg font-semibold text-slate-900 mb-3">📚 Level-Appropriate Detail</h3>
             <div className="text-slate-700 leading-relaxed whitespace-pre-line">
-              {content.explanation.level_appropriate_detail}
+              <MathText text={content.explanation.level_appropriate_detail} />
             </div>
           </div>
 
+          {content.explanation.diagram && (
+            <div className="rounded-lg border border-slate-200 bg-white p-6">
+              <h3 className="text-lg font-semibold text-slate-900 mb-3">🗺️ Diagram</h3>
+              <MermaidDiagram code={content.explanation.diagram} />
+            </div>
+          )}
+
           <div className="rounded-lg border border-slate-200 bg-white p-6">
             <h3 className="text-lg font-semibold text-slate-900 mb-3">💼 Example</h3>
             <div className="text-slate-700 leading-relaxed whitespace-pre-line">
-              {content.explanation.example}
+              <MathText text={content.explanation.example} />
             </div>
           </div>
         </div>
@@ -156,7 +178,7 @@ export default function ConceptBoosterDisplay({
           <div className="rounded-lg border border-green-200 bg-green-50 p-6">
             <h3 className="text-lg font-semibold text-green-900 mb-3">💡 Answer to Your Question</h3>
             <div className="text-green-800 leading-relaxed whitespace-pre-line mb-4">
-              {content.answer}
+              <MathText text={content.answer} />
             </div>
             <button
               onClick={() => {
@@ -224,7 +246,7 @@ export default function ConceptBoosterDisplay({
           {content.understanding_check.questions.map((q: any) => (
             <div key={q.id} className="rounded-lg border border-slate-200 bg-white p-5">
               <h4 className="font-semibold text-slate-900 mb-3">
-                {q.id}. {q.question}
+                {q.id}. <MathText text={q.question} />
               </h4>
               <textarea
                 value={understandingAnswers[q.id] || ""}
@@ -246,12 +268,142 @@ export default function ConceptBoosterDisplay({
           disabled={isLoading}
           className="w-full rounded-md bg-sky-600 px-6 py-3 text-base font-semibold text-white shadow-sm transition hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:bg-slate-300"
         >
-          {isLoading ? "Processing..." : "Continue to Practice →"}
+          {isLoading ? "Processing..." : "Check My Answers →"}
         </button>
       </div>
     );
   }
 
+  // Graded Understanding Check
+  if (step === "grading" && content.grading) {
+    const mastery: number = content.grading.mastery ?? 0;
+    const needsReview = mastery < MASTERY_THRESHOLD;
+    const hasMissed = content.grading.results.some((result: GradedAnswer) => result.verdict !== "correct");
+
+    return (
+      <div className="space-y-6">
+        {content.message && (
+          <div className="rounded-lg bg-sky-50 border border-sky-200 p-4">
+            <p className="text-sm text-sky-800">{content.message}</p>
+          </div>
+        )}
+        <div className="rounded-lg border border-slate-200 bg-white p-6">
+          <div className="flex items-baseline justify-between mb-3">
+            <h3 className="text-lg font-semibold text-slate-900">🎯 Mastery</h3>
+            <span className={`text-2xl font-bold ${needsReview ? "text-amber-600" : "text-green-600"}`}>
+              {mastery}%
+            </span>
+          </div>
+          <div className="h-3 w-full overflow-hidden rounded-full bg-slate-100">
+            <div
+              className={`h-full rounded-full ${needsReview ? "bg-amber-500" : "bg-green-500"}`}
+              style={{ width: `${mastery}%` }}
+            />
+          </div>
+          <p className="mt-3 text-sm text-slate-600">
+            {needsReview
+              ? "Let's go over the missed ideas before practising."
+              : "Great grasp of the topic. You're ready to practise."}
+          </p>
+        </div>
+        <div className="space-y-4">
+          {content.grading.results.map((result: GradedAnswer) => (
+            <div key={result.id} className="rounded-lg border border-slate-200 bg-white p-5">
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <h4 className="font-semibold text-slate-900">
+                  {result.id}. {result.question && <MathText text={result.question} />}
+                </h4>
+                <span
+                  className={`flex-shrink-0 rounded-full px-3 py-1 text-xs font-semibold ${VERDICT_STYLES[result.verdict].className}`}
+                >
+                  {VERDICT_STYLES[result.verdict].label}
+                </span>
+              </div>
+              <p className="text-sm text-slate-500 mb-2 whitespace-pre-line">
+                Your answer: {result.answer || <em>No answer</em>}
+              </p>
+              <p className="text-sm text-slate-700"><MathText text={result.rationale} /></p>
+              {result.missed_concept && (
+                <p className="mt-2 text-xs font-medium text-amber-700">Missed: <MathText text={result.missed_concept} /></p>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          {hasMissed && (
+            <button
+              onClick={() => onContinue("review")}
+              disabled={isLoading}
+              className={`flex-1 rounded-md px-6 py-3 text-base font-semibold shadow-sm transition focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:cursor-not-allowed ${
+                needsReview
+                  ? "bg-sky-600 text-white hover:bg-sky-700 focus:ring-sky-500 disabled:bg-slate-300"
+                  : "border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 focus:ring-slate-500 disabled:bg-slate-100"
+              }`}
+            >
+              {isLoading ? "Loading..." : "Review Missed Concepts →"}
+            </button>
+          )}
+          {!needsReview && (
+            <button
+              onClick={() => onContinue("practice")}
+              disabled={isLoading}
+              className="flex-1 rounded-md bg-sky-600 px-6 py-3 text-base font-semibold text-white shadow-sm transition hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:bg-slate-300"
+            >
+              {isLoading ? "Loading..." : "Continue to Practice →"}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Review of Missed Concepts
+  if (step === "review" && content.review) {
+    return (
+      <div className="space-y-6">
+        {content.message && (
+          <div className="rounded-lg bg-sky-50 border border-sky-200 p-4">
+            <p className="text-sm text-sky-800">{content.message}</p>
+          </div>
+        )}
+        <div className="space-y-5">
+          {content.review.concepts.map((concept: ReviewedConcept, idx: number) => (
+            <div key={idx} className="rounded-lg border border-slate-200 bg-white p-6">
+              <h3 className="text-lg font-semibold text-slate-900 mb-3">🔁 {concept.concept}</h3>
+              <div className="text-slate-700 leading-relaxed whitespace-pre-line"><MathText text={concept.explanation} /></div>
+              {concept.example && (
+                <div className="mt-4 rounded-md bg-slate-50 p-4 text-sm text-slate-700 whitespace-pre-line">
+                  <span className="font-semibold">Example: </span>
+                  <MathText text={concept.example} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => {
+              // A new check has new questions, so start with empty answers
+              setUnderstandingAnswers({});
+              onContinue("check_understanding");
+            }}
+            disabled={isLoading}
+            className="flex-1 rounded-md border border-slate-300 bg-white px-6 py-3 text-base font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:bg-slate-100"
+          >
+            {isLoading ? "Loading..." : "Retry Understanding Check"}
+          </button>
+          <button
+            onClick={() => onContinue("practice")}
+            disabled={isLoading}
+            className="flex-1 rounded-md bg-sky-600 px-6 py-3 text-base font-semibold text-white shadow-sm transition hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:bg-slate-300"
+          >
+            {isLoading ? "Loading..." : "Continue to Practice →"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Practice Task
   if (step === "practice" && content.practice_task) {
     return (
@@ -264,7 +416,7 @@ export default function ConceptBoosterDisplay({
         <div className="rounded-lg border border-slate-200 bg-white p-6">
           <h3 className="text-lg font-semibold text-slate-900 mb-4">📝 Practice Task</h3>
           <div className="text-slate-700 leading-relaxed mb-6 whitespace-pre-line">
-            {content.practice_task.task}
+            <MathText text={content.practice_task.task} />
           </div>
           <textarea
             value={practiceAnswer}
@@ -297,7 +449,7 @@ export default function ConceptBoosterDisplay({
           <div className="rounded-lg border border-slate-200 bg-white p-6">
             <h3 className="text-lg font-semibold text-slate-900 mb-3">📊 Comparison</h3>
             <p className="text-slate-700 leading-relaxed whitespace-pre-line">
-              {content.feedback.comparison}
+              <MathText text={content.feedback.comparison} />
             </p>
           </div>
 
@@ -306,7 +458,7 @@ export default function ConceptBoosterDisplay({
               <h3 className="text-lg font-semibold text-green-900 mb-3">✅ Improvements</h3>
               <ul className="list-disc list-inside space-y-2 text-green-800">
                 {content.feedback.improvements.map((imp: string, idx: number) => (
-                  <li key={idx}>{imp}</li>
+                  <li key={idx}><MathText text={imp} /></li>
                 ))}
               </ul>
             </div>
@@ -317,7 +469,7 @@ export default function ConceptBoosterDisplay({
               <h3 className="text-lg font-semibold text-amber-900 mb-3">⚠️ Areas to Clarify</h3>
               <ul className="list-disc list-inside space-y-2 text-amber-800">
                 {content.feedback.misunderstandings.map((mis: string, idx: number) => (
-                  <li key={idx}>{mis}</li>
+                  <li key={idx}><MathText text={mis} /></li>
                 ))}
               </ul>
             </div>
@@ -3,23 +3,33 @@
 import { useState } from "react";
 import ModelSelector from "@/components/ModelSelector";
 import OCRUploader from "@/components/OCRUploader";
+import PresetManager from "@/components/PresetManager";
+import { LEARNING_LEVELS } from "@/lib/concept-sessions";
 
 interface ConceptBoosterFormProps {
   onSubmit: (data: { topic: string; learning_level: string; model: string }) => void;
   isLoading: boolean;
+  // "path" asks for a broad goal to plan a learning path for
+  variant?: "topic" | "path";
 }
 
-const LEARNING_LEVELS = [
-  "Class 6–8",
-  "Class 9–10",
-  "Class 11–12 (FSc/Intermediate)",
-  "University Level",
-  "Beginner Adult",
-  "Advanced Learner",
-  "Other",
-];
+const FORM_TEXT = {
+  topic: {
+    label: "What topic would you like to learn?",
+    placeholder: "e.g., Photosynthesis, Newton's Laws, Python Functions...",
+    loading: "Starting your learning journey...",
+    submit: "Start Learning",
+  },
+  path: {
+    label: "What is your learning goal?",
+    placeholder: "e.g., Integration by parts, Balancing redox equations, Recursion in Python...",
+    loading: "Planning your learning path...",
+    submit: "Plan My Path",
+  },
+};
 
-export default function ConceptBoosterForm({ onSubmit, isLoading }: ConceptBoosterFormProps) {
+export default function ConceptBoosterForm({ onSubmit, isLoading, variant = "topic" }: ConceptBoosterFormProps) {
+  const text = FORM_TEXT[variant];
   const [topic, setTopic] = useState("");
   const [learningLevel, setLearningLevel] = useState("");
   const [customLevel, setCustomLevel] = useState("");
@@ -45,17 +55,33 @@ export default function ConceptBoosterForm({ onSubmit, isLoading }: ConceptBoost
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Preset Manager */}
+      <PresetManager
+        toolType="concept-booster"
+        currentSettings={{
+          learningLevel,
+          customLevel,
+          model,
+        }}
+        onLoadPreset={(settings) => {
+          if (settings.learningLevel) setLearningLevel(settings.learningLevel);
+          if (settings.customLevel !== undefined) setCustomLevel(settings.customLevel);
+          if (settings.model) setModel(settings.model);
+        }}
+        disabled={isLoading}
+      />
+
       {/* Topic Input */}
       <div>
         <label htmlFor="topic-input" className="block text-sm font-medium text-slate-700 mb-2">
-          What topic would you like to learn?
+          {text.label}
         </label>
         <input
           id="topic-input"
           type="text"
           value={topic}
           onChange={(e) => setTopic(e.target.value)}
-          placeholder="e.g., Photosynthesis, Newton's Laws, Python Functions..."
+          placeholder={text.placeholder}
           className="w-full rounded-md border border-slate-300 px-4 py-3 text-sm text-slate-900 placeholder:text-slate-400 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20"
         />
         <div className="mt-4">
@@ -139,12 +165,12 @@ export default function ConceptBoosterForm({ onSubmit, isLoading }: ConceptBoost
                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
               />
             </svg>
-            Starting your learning journey...
+            {text.loading}
           </>
         ) : (
           <>
             <span>🚀</span>
-            Start Learning
+            {text.submit}
           </>
         )}
       </button>
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  CONCEPT_STEP_LABELS,
+  forgetSession,
+  loadRecentSessionIds,
+  type ConceptSessionSummary,
+} from "@/lib/concept-sessions";
+
+interface ContinueLearningPanelProps {
+  className?: string;
+}
+
+/**
+ * Recent Concept Booster sessions, to pick up where the learner stopped
+ */
+export default function ContinueLearningPanel({ className = "mb-12" }: ContinueLearningPanelProps) {
+  const [sessions, setSessions] = useState<ConceptSessionSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = loadRecentSessionIds();
+    const query = ids.length > 0 ? `?ids=${ids.join(",")}` : "";
+
+    fetch(`/api/concept-booster/sessions${query}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { sessions: ConceptSessionSummary[] } | null) => {
+        if (data && !cancelled) {
+          setSessions(data.sessions);
+        }
+      })
+      .catch((err) => console.error("Continue learning error:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRemove = async (id: string) => {
+    if (!confirm("Remove this session and its progress?")) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/concept-booster/sessions?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      // Already gone on the server: drop it here too
+      if (res.ok || res.status === 404) {
+        forgetSession(id);
+        setSessions((prev) => prev.filter((session) => session.id !== id));
+      }
+    } catch (err) {
+      console.error("Continue learning error:", err);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <section className={`${className} rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-lg`}>
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-900">Continue Learning</h2>
+        <span className="rounded-full bg-green-50 px-3 py-1 text-xs font-semibold text-green-700">
+          {sessions.length} session{sessions.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {sessions.map((session) => (
+          <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium text-slate-900">{session.topic}</p>
+              <p className="text-xs text-slate-500">
+                {session.learningLevel} • {CONCEPT_STEP_LABELS[session.currentStep] ?? session.currentStep} •{" "}
+                {new Date(session.updatedAt).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex flex-shrink-0 items-center gap-3">
+              <button
+                onClick={() => handleRemove(session.id)}
+                className="text-xs text-slate-400 hover:text-rose-600"
+              >
+                Remove
+              </button>
+              <Link
+                href={`/concept-booster?session=${encodeURIComponent(session.id)}`}
+                className="rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-green-700"
+              >
+                Continue
+              </Link>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import type { Quad } from "@/lib/image-preprocessing";
+
+interface CornerPickerProps {
+    imageUrl: string;
+    width: number;
+    height: number;
+    corners: Quad;
+    // Called when a corner is dropped or nudged, not on every move
+    onChange: (corners: Quad) => void;
+    disabled?: boolean;
+}
+
+const CORNER_LABELS = ["Top-left corner", "Top-right corner", "Bottom-right corner", "Bottom-left corner"];
+
+// Arrow-key step, as a fraction of the image size
+const NUDGE = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Photo with four draggable handles marking the page to crop. Corners are
+ * fractions of the image size, so the picker works at any display width.
+ */
+export default function CornerPicker({ imageUrl, width, height, corners, onChange, disabled = false }: CornerPickerProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [dragging, setDragging] = useState<number | null>(null);
+    // Corners while a handle is being dragged
+    const [draft, setDraft] = useState<Quad | null>(null);
+
+    const shown = draft ?? corners;
+
+    const moveCorner = (quad: Quad, index: number, x: number, y: number): Quad => {
+        const next = quad.slice() as Quad;
+        next[index] = { x: clamp(x), y: clamp(y) };
+        return next;
+    };
+
+    const handlePointerMove = (e: React.PointerEvent, index: number) => {
+        if (dragging !== index || !containerRef.current) return;
+        const rect = containerRef.current.getBoundingClientRect();
+        setDraft(
+            moveCorner(shown, index, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height)
+        );
+    };
+
+    const handlePointerUp = () => {
+        if (dragging === null) return;
+        if (draft) {
+            onChange(draft);
+        }
+        setDragging(null);
+        setDraft(null);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+        const offsets: Record<string, [number, number]> = {
+            ArrowLeft: [-NUDGE, 0],
+            ArrowRight: [NUDGE, 0],
+            ArrowUp: [0, -NUDGE],
+            ArrowDown: [0, NUDGE],
+        };
+        const offset = offsets[e.key];
+        if (!offset) return;
+        e.preventDefault();
+        onChange(moveCorner(corners, index, corners[index].x + offset[0], corners[index].y + offset[1]));
+    };
+
+    return (
+        <div ref={containerRef} className="relative select-none touch-none">
+            <Image
+                src={imageUrl}
+                alt="Original photo"
+                width={width}
+                height={height}
+                unoptimized
+                draggable={false}
+                className="block h-auto w-full"
+            />
+            <svg
+                className="pointer-events-none absolute inset-0 h-full w-full"
+                viewBox="0 0 100 100"
+                preserveAspectRatio="none"
+            >
+                <polygon
+                    points={shown.map((point) => `${point.x * 100},${point.y * 100}`).join(" ")}
+                    className="fill-sky-500/10 stroke-sky-500"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                />
+            </svg>
+            {shown.map((point, index) => (
+                <button
+                    key={CORNER_LABELS[index]}
+                    type="button"
+                    aria-label={CORNER_LABELS[index]}
+                    disabled={disabled}
+                    onPointerDown={(e) => {
+                        e.currentTarget.setPointerCapture(e.pointerId);
+                        setDragging(index);
+                        setDraft(corners);
+                    }}
+                    onPointerMove={(e) => handlePointerMove(e, index)}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onKeyDown={(e) => handleKeyDown(e, index)}
+                    style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+                    className="absolute h-5 w-5 -translate-x-1/2 -translate-y-1/2 cursor-move rounded-full border-2 border-white bg-sky-600 shadow focus:outline-none focus:ring-2 focus:ring-sky-400 disabled:cursor-not-allowed disabled:opacity-50"
+                />
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+    DOCUMENT_ACCEPT,
+    buildDocumentText,
+    extractDocument,
+    parseUnitRange,
+    type ExtractedDocument,
+} from "@/lib/document-extraction";
+
+interface DocumentUploaderProps {
+    onTextExtracted: (text: string) => void;
+    disabled?: boolean;
+    // Character limit of the target input, used to warn about oversized selections
+    maxLength?: number;
+}
+
+type Phase = "idle" | "reading" | "selecting" | "inserting";
+
+export default function DocumentUploader({ onTextExtracted, disabled = false, maxLength }: DocumentUploaderProps) {
+    const [phase, setPhase] = useState<Phase>("idle");
+    const [progress, setProgress] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const [doc, setDoc] = useState<ExtractedDocument | null>(null);
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [rangeInput, setRangeInput] = useState("");
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Release pdf.js resources when a document is replaced or the form unmounts
+    useEffect(() => {
+        return () => doc?.close();
+    }, [doc]);
+
+    const unitName = doc?.kind === "pdf" ? "page" : doc?.kind === "pptx" ? "slide" : "section";
+
+    const reset = () => {
+        setDoc(null);
+        setSelected(new Set());
+        setRangeInput("");
+        setPhase("idle");
+        setProgress(0);
+        if (fileInputRef.current) {
+            fileInputRef.current.value = "";
+        }
+    };
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setError(null);
+        setPhase("reading");
+        setProgress(0);
+
+        try {
+            const extracted = await extractDocument(file, (done, total) => {
+                setProgress(Math.round((done / total) * 100));
+            });
+            setDoc(extracted);
+            setSelected(new Set(extracted.units.map((unit) => unit.number)));
+            setPhase("selecting");
+        } catch (err) {
+            console.error("Document extraction error:", err);
+            setError(err instanceof Error ? err.message : "Failed to read the document.");
+            reset();
+        }
+    };
+
+    const toggleUnit = (number: number) => {
+        const next = new Set(selected);
+        if (next.has(number)) {
+            next.delete(number);
+        } else {
+            next.add(number);
+        }
+        setSelected(next);
+    };
+
+    const applyRange = () => {
+        if (!doc) return;
+        const parsed = parseUnitRange(rangeInput, doc.units.length);
+        if (!parsed) {
+            setError(`Enter ${unitName}s like "1-3, 5".`);
+            return;
+        }
+        setError(null);
+        setSelected(parsed);
+    };
+
+    const handleInsert = async () => {
+        if (!doc || selected.size === 0) return;
+
+        setError(null);
+        setPhase("inserting");
+        setProgress(0);
+
+        try {
+            const text = await buildDocumentText(doc, selected, (done, total) => {
+                setProgress(Math.round((done / total) * 100));
+            });
+            if (!text.trim()) {
+                setError(`No text could be extracted from the selected ${unitName}s.`);
+                setPhase("selecting");
+                return;
+            }
+            onTextExtracted(text);
+            reset();
+        } catch (err) {
+            console.error("Document OCR error:", err);
+            const errorMessage = err instanceof Error ? err.message : "Unknown error";
+            setError(`Failed to extract text: ${errorMessage}`);
+            setPhase("selecting");
+        }
+    };
+
+    const selectedUnits = doc ? doc.units.filter((unit) => selected.has(unit.number)) : [];
+    const selectedChars = selectedUnits.reduce((sum, unit) => sum + unit.text.length, 0);
+    const scannedCount = selectedUnits.filter((unit) => unit.needsOcr).length;
+    const isBusy = phase === "reading" || phase === "inserting";
+
+    return (
+        <div className="space-y-2">
+            {/* Upload Button */}
+            {phase !== "selecting" && (
+                <label
+                    className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg border-2 border-dashed transition-all cursor-pointer ${isBusy || disabled
+                        ? "border-slate-300 bg-slate-100 text-slate-400 cursor-not-allowed"
+                        : "border-indigo-400 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 hover:border-indigo-500"
+                        }`}
+                >
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={DOCUMENT_ACCEPT}
+                        onChange={handleFileUpload}
+                        disabled={isBusy || disabled}
+                        className="hidden"
+                    />
+                    <svg
+                        className="h-5 w-5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                    >
+                        <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                        />
+                    </svg>
+                    <span className="text-sm font-medium">
+                        {phase === "reading" ? "Reading document..." : phase === "inserting" ? "Extracting..." : "Upload Document"}
+                    </span>
+                </label>
+            )}
+
+            {/* Progress */}
+            {isBusy && (
+                <div className="flex items-center gap-3">
+                    <div className="flex-1 h-2 bg-slate-200 rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-gradient-to-r from-indigo-500 to-indigo-600 transition-all duration-300"
+                            style={{ width: `${progress}%` }}
+                        />
+                    </div>
+                    <span className="text-xs font-medium text-slate-600">{progress}%</span>
+                </div>
+            )}
+
+            {/* Page / slide / section picker */}
+            {phase === "selecting" && doc && (
+                <div className="rounded-lg border border-indigo-200 bg-white p-4 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-sm font-medium text-slate-900 truncate">
+                            {doc.fileName} • {doc.units.length} {unitName}{doc.units.length !== 1 ? "s" : ""}
+                        </p>
+                        <div className="flex gap-3 text-xs font-medium">
+                            <button
+                                type="button"
+                                onClick={() => setSelected(new Set(doc.units.map((unit) => unit.number)))}
+                                className="text-indigo-700 hover:text-indigo-800"
+                            >
+                                Select all
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setSelected(new Set())}
+                                className="text-indigo-700 hover:text-indigo-800"
+                            >
+                                Clear
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={rangeInput}
+                            onChange={(e) => setRangeInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                    e.preventDefault();
+                                    applyRange();
+                                }
+                            }}
+                            placeholder={`${unitName[0].toUpperCase()}${unitName.slice(1)}s, e.g. 1-3, 5`}
+                            className="flex-1 rounded-md border border-slate-300 px-3 py-1.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                        />
+                        <button
+                            type="button"
+                            onClick={applyRange}
+                            className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+                        >
+                            Apply
+                        </button>
+                    </div>
+
+                    <ul className="max-h-64 overflow-y-auto divide-y divide-slate-100 rounded-md border border-slate-200">
+                        {doc.units.map((unit) => (
+                            <li key={unit.number}>
+                                <label className="flex items-start gap-3 px-3 py-2 cursor-pointer hover:bg-slate-50">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.has(unit.number)}
+                                        onChange={() => toggleUnit(unit.number)}
+                                        className="mt-0.5 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    <span className="min-w-0 flex-1">
+                                        <span className="block text-sm font-medium text-slate-800 truncate">
+                                            {unit.label}
+                                            {unit.needsOcr && (
+                                                <span className="ml-2 rounded bg-amber-50 px-1.5 py-0.5 text-xs font-medium text-amber-700">
+                                                    Scanned - OCR
+                                                </span>
+                                            )}
+                                        </span>
+                                        {unit.text && (
+                                            <span className="block text-xs text-slate-500 truncate">
+                                                {unit.text.replace(/^#+\s*/gm, "").replace(/\s+/g, " ").slice(0, 140)}
+                                            </span>
+                                        )}
+                                    </span>
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <p className={`text-xs ${maxLength && selectedChars > maxLength ? "text-amber-700" : "text-slate-500"}`}>
+                            {selected.size} selected • ~{selectedChars.toLocaleString()} characters
+                            {scannedCount > 0 && ` + ${scannedCount} scanned ${unitName}${scannedCount !== 1 ? "s" : ""} to OCR`}
+                            {maxLength && selectedChars > maxLength && ` (limit ${maxLength.toLocaleString()})`}
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                type="button"
+                                onClick={reset}
+                                className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleInsert}
+                                disabled={selected.size === 0 || disabled}
+                                className="rounded-md bg-indigo-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                Insert Text
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Error Display */}
+            {error && !isBusy && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-rose-50 border border-rose-200">
+                    <svg
+                        className="h-5 w-5 text-rose-600 mt-0.5 flex-shrink-0"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                    >
+                        <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                        />
+                    </svg>
+                    <p className="text-sm font-medium text-rose-800">{error}</p>
+                </div>
+            )}
+
+            {/* Help Text */}
+            {phase === "idle" && !error && (
+                <p className="text-xs text-slate-500">
+                    Supported formats: PDF, DOCX, PPTX • Scanned PDF pages are read with OCR
+                </p>
+            )}
+        </div>
+    );
+}
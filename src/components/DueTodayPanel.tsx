@@ -0,0 +1,73 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import Link from "next/link";
+import {
+  deleteDeck,
+  getDueCards,
+  loadDecks,
+  loadDecksOnServer,
+  subscribeToDecks,
+} from "@/lib/spaced-repetition";
+
+/**
+ * Dashboard queue of flashcard decks with cards due for review today
+ */
+export default function DueTodayPanel() {
+  const decks = useSyncExternalStore(subscribeToDecks, loadDecks, loadDecksOnServer);
+
+  if (decks.length === 0) return null;
+
+  const queue = decks
+    .map((deck) => ({ deck, due: getDueCards(deck).length }))
+    .sort((a, b) => b.due - a.due);
+  const totalDue = queue.reduce((sum, item) => sum + item.due, 0);
+
+  return (
+    <section className="mb-12 rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-lg">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-900">Due Today</h2>
+        <span
+          className={`rounded-full px-3 py-1 text-xs font-semibold ${
+            totalDue > 0 ? "bg-indigo-50 text-indigo-700" : "bg-green-50 text-green-700"
+          }`}
+        >
+          {totalDue > 0 ? `${totalDue} card${totalDue !== 1 ? "s" : ""} to review` : "All caught up"}
+        </span>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {queue.map(({ deck, due }) => (
+          <li key={deck.id} className="flex items-center justify-between gap-4 py-3">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium text-slate-900">{deck.title}</p>
+              <p className="text-xs text-slate-500">
+                {deck.cards.length} cards • {due} due
+              </p>
+            </div>
+            <div className="flex flex-shrink-0 items-center gap-3">
+              <button
+                onClick={() => {
+                  if (confirm("Delete this deck and its review progress?")) {
+                    deleteDeck(deck.id);
+                  }
+                }}
+                className="text-xs text-slate-400 hover:text-rose-600"
+              >
+                Remove
+              </button>
+              {due > 0 && (
+                <Link
+                  href={`/flashcards/review?deck=${encodeURIComponent(deck.id)}`}
+                  className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-indigo-700"
+                >
+                  Review
+                </Link>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
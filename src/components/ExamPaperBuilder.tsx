@@ -0,0 +1,288 @@
+"use client";
+
+import { useState } from "react";
+import { zipSync } from "fflate";
+import type { MCQ } from "@/components/MCQList";
+import { downloadBytes } from "@/lib/download";
+import {
+  DEFAULT_EXAM_SETTINGS,
+  MAX_EXAM_VERSIONS,
+  EXAM_VERSION_LABELS,
+  buildExamVersions,
+  examFileName,
+  type ExamPaperSettings,
+  type ExamVersion,
+} from "@/lib/exam-paper";
+
+interface ExamPaperBuilderProps {
+  mcqs: MCQ[];
+  title?: string;
+  onExit: () => void;
+}
+
+const inputClassName =
+  "w-full rounded-md border border-slate-300 px-4 py-2.5 text-sm text-slate-900 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20";
+
+export default function ExamPaperBuilder({ mcqs, title, onExit }: ExamPaperBuilderProps) {
+  const [settings, setSettings] = useState<ExamPaperSettings>(() => ({
+    ...DEFAULT_EXAM_SETTINGS,
+    title: title || "",
+  }));
+  // Built once per "Build Papers" click so every download of a set matches its key
+  const [versions, setVersions] = useState<ExamVersion[] | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const update = (changes: Partial<ExamPaperSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+    setVersions(null);
+  };
+
+  const parseOptionalNumber = (value: string): number | null => {
+    const parsed = parseInt(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+  };
+
+  const handleDownload = async (version: ExamVersion, kind: "paper" | "key") => {
+    try {
+      const { buildExamPaperPDF, buildExamAnswerKeyPDF } = await import("@/lib/pdf-generator");
+      const name = examFileName(settings, version);
+      if (kind === "paper") {
+        (await buildExamPaperPDF(version, settings)).save(`${name}.pdf`);
+      } else {
+        (await buildExamAnswerKeyPDF(version, settings)).save(`${name}-answer-key.pdf`);
+      }
+    } catch (error) {
+      console.error("Failed to generate exam PDF:", error);
+      alert("Failed to generate PDF. Please try again.");
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    if (!versions) return;
+    setIsDownloading(true);
+    try {
+      const { buildExamPaperPDF, buildExamAnswerKeyPDF } = await import("@/lib/pdf-generator");
+      const files: Record<string, Uint8Array> = {};
+      for (const version of versions) {
+        const name = examFileName(settings, version);
+        files[`${name}.pdf`] = new Uint8Array((await buildExamPaperPDF(version, settings)).output("arraybuffer"));
+        files[`answer-keys/${name}-answer-key.pdf`] = new Uint8Array(
+          (await buildExamAnswerKeyPDF(version, settings)).output("arraybuffer"),
+        );
+      }
+      downloadBytes(zipSync(files), "brainbolt-exam-papers.zip", "application/zip");
+    } catch (error) {
+      console.error("Failed to build exam papers:", error);
+      alert("Failed to build exam papers. Please try again.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900">Build exam papers</h3>
+        <p className="text-sm text-slate-600">
+          Print {mcqs.length} question{mcqs.length !== 1 ? "s" : ""} as up to {MAX_EXAM_VERSIONS} sets with their own
+          question and option order. Set A keeps the original order, and every set has a separate answer key.
+        </p>
+      </div>
+
+      {/* Header block */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="exam-school" className="block text-sm font-medium text-slate-700 mb-1">
+            School / Institution
+          </label>
+          <input
+            id="exam-school"
+            type="text"
+            value={settings.school}
+            onChange={(e) => update({ school: e.target.value })}
+            maxLength={120}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="exam-subject" className="block text-sm font-medium text-slate-700 mb-1">
+            Subject
+          </label>
+          <input
+            id="exam-subject"
+            type="text"
+            value={settings.subject}
+            onChange={(e) => update({ subject: e.target.value })}
+            maxLength={80}
+            className={inputClassName}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label htmlFor="exam-title" className="block text-sm font-medium text-slate-700 mb-1">
+            Exam Title
+          </label>
+          <input
+            id="exam-title"
+            type="text"
+            value={settings.title}
+            onChange={(e) => update({ title: e.target.value })}
+            placeholder="e.g. Unit Test 2"
+            maxLength={120}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="exam-duration" className="block text-sm font-medium text-slate-700 mb-1">
+            Duration (minutes)
+          </label>
+          <input
+            id="exam-duration"
+            type="number"
+            min={1}
+            max={600}
+            value={settings.durationMinutes ?? ""}
+            onChange={(e) => update({ durationMinutes: parseOptionalNumber(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="exam-marks" className="block text-sm font-medium text-slate-700 mb-1">
+            Maximum Marks
+          </label>
+          <input
+            id="exam-marks"
+            type="number"
+            min={1}
+            max={1000}
+            value={settings.totalMarks ?? ""}
+            onChange={(e) => update({ totalMarks: parseOptionalNumber(e.target.value) })}
+            placeholder={`${mcqs.length} (one per question)`}
+            className={inputClassName}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label htmlFor="exam-instructions" className="block text-sm font-medium text-slate-700 mb-1">
+            Instructions
+          </label>
+          <textarea
+            id="exam-instructions"
+            rows={2}
+            value={settings.instructions}
+            onChange={(e) => update({ instructions: e.target.value })}
+            maxLength={500}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {/* Versions */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="exam-versions" className="block text-sm font-medium text-slate-700 mb-1">
+            Number of Sets
+          </label>
+          <select
+            id="exam-versions"
+            value={settings.versions}
+            onChange={(e) => update({ versions: parseInt(e.target.value) })}
+            className={inputClassName}
+          >
+            {EXAM_VERSION_LABELS.map((label, index) => (
+              <option key={label} value={index + 1}>
+                {index === 0 ? "1 set (A)" : `${index + 1} sets (A-${label})`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2 sm:pt-6">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={settings.shuffleQuestions}
+              onChange={(e) => update({ shuffleQuestions: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-300 text-purple-600 focus:ring-purple-500"
+            />
+            Shuffle question order
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={settings.shuffleOptions}
+              onChange={(e) => update({ shuffleOptions: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-300 text-purple-600 focus:ring-purple-500"
+            />
+            Shuffle answer options
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={settings.includeOmrSheet}
+              onChange={(e) => update({ includeOmrSheet: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-300 text-purple-600 focus:ring-purple-500"
+            />
+            Add an OMR bubble sheet to each paper
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() => setVersions(buildExamVersions(mcqs, settings))}
+          className="rounded-lg bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-3 text-sm font-semibold text-white shadow-lg transition hover:opacity-90"
+        >
+          {versions ? "Reshuffle Sets" : "Build Papers"}
+        </button>
+        <button
+          onClick={onExit}
+          className="rounded-lg border border-slate-300 bg-white px-6 py-3 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+        >
+          Back to Questions
+        </button>
+      </div>
+
+      {/* Downloads */}
+      {versions && (
+        <div className="rounded-lg border border-slate-200 bg-white p-4 shadow-sm space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm font-semibold text-slate-900">
+              {versions.length} set{versions.length !== 1 ? "s" : ""} ready
+            </p>
+            <button
+              onClick={handleDownloadAll}
+              disabled={isDownloading}
+              className="rounded-md bg-purple-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isDownloading ? "Preparing..." : "Download All (.zip)"}
+            </button>
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {versions.map((version) => (
+              <li key={version.label} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div>
+                  <p className="text-sm font-medium text-slate-900">Set {version.label}</p>
+                  <p className="text-xs text-slate-500">
+                    Key: {version.questions.map((question, index) => `${index + 1}${question.correct}`).join(" ")}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleDownload(version, "paper")}
+                    className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 transition hover:bg-slate-50"
+                  >
+                    Question Paper
+                  </button>
+                  <button
+                    onClick={() => handleDownload(version, "key")}
+                    className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 transition hover:bg-slate-50"
+                  >
+                    Answer Key
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
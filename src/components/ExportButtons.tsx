@@ -2,10 +2,20 @@
 
 import { useState } from "react";
 
+export interface ExportFormat {
+    id: string;
+    label: string;
+    // Shown under the label, e.g. the file extension or target app
+    description?: string;
+    onExport: () => void | Promise<void>;
+}
+
 interface ExportButtonsProps {
     onExportPDF: () => void | Promise<void>;
     onExportText: () => void;
     onCopy: () => void | Promise<void>;
+    // Extra file formats offered in a "More formats" menu
+    formats?: ExportFormat[];
     disabled?: boolean;
 }
 
@@ -13,10 +23,13 @@ export default function ExportButtons({
     onExportPDF,
     onExportText,
     onCopy,
+    formats = [],
     disabled = false,
 }: ExportButtonsProps) {
     const [copied, setCopied] = useState(false);
     const [isExporting, setIsExporting] = useState(false);
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [exportingFormat, setExportingFormat] = useState<string | null>(null);
 
     const handleCopy = async () => {
         try {
@@ -39,6 +52,23 @@ export default function ExportButtons({
         }
     };
 
+    const handleExportFormat = async (format: ExportFormat) => {
+        setIsMenuOpen(false);
+        setExportingFormat(format.id);
+        try {
+            await format.onExport();
+        } catch (err) {
+            console.error(`${format.label} export failed:`, err);
+            alert(
+                err instanceof Error && err.message
+                    ? `Failed to export ${format.label}: ${err.message}`
+                    : `Failed to export ${format.label}. Please try again.`,
+            );
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
     return (
         <div className="flex items-center gap-3 flex-wrap">
             {/* Export as PDF */}
@@ -74,6 +104,57 @@ export default function ExportButtons({
                 Export Text
             </button>
 
+            {/* Other formats */}
+            {formats.length > 0 && (
+                <div className="relative">
+                    <button
+                        type="button"
+                        onClick={() => setIsMenuOpen((open) => !open)}
+                        disabled={disabled || exportingFormat !== null}
+                        aria-haspopup="menu"
+                        aria-expanded={isMenuOpen}
+                        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 hover:shadow transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {exportingFormat ? (
+                            <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                            </svg>
+                        ) : (
+                            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                        )}
+                        More Formats
+                        <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+
+                    {isMenuOpen && (
+                        <div
+                            role="menu"
+                            className="absolute right-0 z-20 mt-2 w-60 rounded-lg border border-slate-200 bg-white py-1 shadow-lg"
+                        >
+                            {formats.map((format) => (
+                                <button
+                                    key={format.id}
+                                    type="button"
+                                    role="menuitem"
+                                    onClick={() => handleExportFormat(format)}
+                                    className="block w-full px-4 py-2 text-left hover:bg-slate-50"
+                                >
+                                    <span className="block text-sm font-medium text-slate-700">{format.label}</span>
+                                    {format.description && (
+                                        <span className="block text-xs text-slate-500">{format.description}</span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Copy to Clipboard */}
             <button
                 type="button"
@@ -1,8 +1,20 @@
 "use client";
 
-import { useState } from "react";
-import ExportButtons from "@/components/ExportButtons";
+import { useMemo, useState, useSyncExternalStore } from "react";
+import ExportButtons, { type ExportFormat } from "@/components/ExportButtons";
+import FlashcardReview from "@/components/FlashcardReview";
+import MathText from "@/components/MathText";
 import { generateFlashcardPDF } from "@/lib/pdf-generator";
+import { downloadBlob, downloadText } from "@/lib/download";
+import { flashcardsToAnkiTsv, flashcardsToQuizletCsv } from "@/lib/flashcard-export";
+import {
+  getDeckId,
+  getDueCards,
+  loadDecks,
+  loadDecksOnServer,
+  saveDeck,
+  subscribeToDecks,
+} from "@/lib/spaced-repetition";
 
 export interface Flashcard {
   id: number;
@@ -26,6 +38,18 @@ export default function FlashcardDisplay({ flashcards, metadata }: FlashcardDisp
   const [flippedCards, setFlippedCards] = useState<Set<number>>(new Set());
   const [currentIndex, setCurrentIndex] = useState(0);
   const [filterType, setFilterType] = useState<"all" | "concept" | "application" | "trick">("all");
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  // The set is saved as a spaced-repetition deck once the student starts reviewing it
+  const decks = useSyncExternalStore(subscribeToDecks, loadDecks, loadDecksOnServer);
+  const deckId = useMemo(() => getDeckId(flashcards), [flashcards]);
+  const deck = decks.find((d) => d.id === deckId);
+  const dueCount = deck ? getDueCards(deck).length : flashcards.length;
+
+  const startReview = () => {
+    saveDeck(flashcards, flashcards[0]?.front.slice(0, 80) || "Flashcards");
+    setIsReviewing(true);
+  };
 
   const toggleFlip = (id: number) => {
     const newSet = new Set(flippedCards);
@@ -105,6 +129,38 @@ export default function FlashcardDisplay({ flashcards, metadata }: FlashcardDisp
     generateFlashcardPDF(flashcards, "BrainBolt Flashcards");
   };
 
+  const exportFormats: ExportFormat[] = [
+    {
+      id: "apkg",
+      label: "Anki Deck",
+      description: ".apkg, card type as a tag",
+      onExport: async () => {
+        const res = await fetch("/api/flashcards/export", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ title: "BrainBolt Flashcards", flashcards }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || "Failed to build Anki package");
+        }
+        downloadBlob(await res.blob(), "brainbolt-flashcards.apkg");
+      },
+    },
+    {
+      id: "anki-tsv",
+      label: "Anki Text",
+      description: ".txt, tab-separated for File > Import",
+      onExport: () => downloadText(flashcardsToAnkiTsv(flashcards), "brainbolt-flashcards-anki.txt", "text/tab-separated-values"),
+    },
+    {
+      id: "quizlet-csv",
+      label: "Quizlet",
+      description: ".csv, term and definition",
+      onExport: () => downloadText(flashcardsToQuizletCsv(flashcards), "brainbolt-flashcards-quizlet.csv", "text/csv"),
+    },
+  ];
+
 
   return (
     <div className="space-y-6">
@@ -120,149 +176,166 @@ export default function FlashcardDisplay({ flashcards, metadata }: FlashcardDisp
             </p>
           )}
         </div>
-        <ExportButtons
-          onExportPDF={handleExportPDF}
-          onExportText={handleExportText}
-          onCopy={copyAll}
-        />
-      </div>
-
-      {/* Filter Buttons */}
-      <div className="flex gap-2 flex-wrap">
-        {(["all", "concept", "application", "trick"] as const).map((type) => (
-          <button
-            key={type}
-            onClick={() => {
-              setFilterType(type);
-              setCurrentIndex(0);
-            }}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition ${filterType === type
-              ? "bg-sky-600 text-white"
-              : "bg-white border border-slate-300 text-slate-700 hover:bg-slate-50"
-              }`}
-          >
-            {type === "all" ? "All" : getTypeLabel(type)}
-            {type !== "all" && ` (${flashcards.filter((c) => c.type === type).length})`}
-          </button>
-        ))}
+        <div className="flex flex-wrap items-center gap-2">
+          {!isReviewing && (
+            <button
+              onClick={startReview}
+              className="px-4 py-2 rounded-md bg-sky-600 text-sm font-medium text-white shadow-sm transition hover:bg-sky-700"
+            >
+              Review ({dueCount} due)
+            </button>
+          )}
+          <ExportButtons
+            onExportPDF={handleExportPDF}
+            onExportText={handleExportText}
+            onCopy={copyAll}
+            formats={exportFormats}
+          />
+        </div>
       </div>
 
-      {/* Flashcard Display */}
-      {currentCard && (
-        <div className="space-y-4">
-          <div className="text-center text-sm text-slate-600">
-            Card {currentIndex + 1} of {filteredFlashcards.length}
-          </div>
-
-          <div
-            onClick={() => toggleFlip(currentCard.id)}
-            className="relative h-64 cursor-pointer"
-          >
-            <div className="relative w-full h-full">
-              {/* Front */}
-              <div
-                className={`absolute inset-0 rounded-lg border-2 shadow-lg p-6 flex flex-col items-center justify-center transition-opacity duration-500 ${getTypeColor(currentCard.type)}`}
-                style={{
-                  opacity: isFlipped ? 0 : 1,
-                  pointerEvents: isFlipped ? "none" : "auto",
-                  transform: "translateZ(0)",
+      {isReviewing && deck ? (
+        <FlashcardReview deck={deck} onExit={() => setIsReviewing(false)} />
+      ) : (
+        <>
+          {/* Filter Buttons */}
+          <div className="flex gap-2 flex-wrap">
+            {(["all", "concept", "application", "trick"] as const).map((type) => (
+              <button
+                key={type}
+                onClick={() => {
+                  setFilterType(type);
+                  setCurrentIndex(0);
                 }}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition ${filterType === type
+                  ? "bg-sky-600 text-white"
+                  : "bg-white border border-slate-300 text-slate-700 hover:bg-slate-50"
+                  }`}
               >
-                <div className="absolute top-3 right-3">
-                  <span className="text-xs font-semibold px-2 py-1 rounded bg-white/80">
-                    {getTypeLabel(currentCard.type)}
-                  </span>
-                </div>
-                <div className="text-center">
-                  <p className="text-lg font-semibold mb-2">Front</p>
-                  <p className="text-base leading-relaxed">{currentCard.front}</p>
-                </div>
-                <div className="absolute bottom-3 text-xs text-slate-500">
-                  Click to flip
-                </div>
+                {type === "all" ? "All" : getTypeLabel(type)}
+                {type !== "all" && ` (${flashcards.filter((c) => c.type === type).length})`}
+              </button>
+            ))}
+          </div>
+
+          {/* Flashcard Display */}
+          {currentCard && (
+            <div className="space-y-4">
+              <div className="text-center text-sm text-slate-600">
+                Card {currentIndex + 1} of {filteredFlashcards.length}
               </div>
 
-              {/* Back */}
               <div
-                className="absolute inset-0 rounded-lg border-2 border-slate-300 shadow-lg p-6 flex flex-col items-center justify-center bg-white transition-opacity duration-500"
-                style={{
-                  opacity: isFlipped ? 1 : 0,
-                  pointerEvents: isFlipped ? "auto" : "none",
-                  transform: "translateZ(0)",
-                }}
+                onClick={() => toggleFlip(currentCard.id)}
+                className="relative h-64 cursor-pointer"
               >
-                <div className="text-center w-full">
-                  <p className="text-lg font-semibold mb-2 text-slate-900">Back</p>
-                  <p className="text-base leading-relaxed whitespace-pre-line text-slate-900 font-normal" style={{
-                    textRendering: "optimizeLegibility",
-                    WebkitFontSmoothing: "antialiased",
-                    MozOsxFontSmoothing: "grayscale",
-                  }}>{currentCard.back}</p>
-                </div>
-                <div className="absolute bottom-3 text-xs text-slate-500">
-                  Click to flip
+                <div className="relative w-full h-full">
+                  {/* Front */}
+                  <div
+                    className={`absolute inset-0 rounded-lg border-2 shadow-lg p-6 flex flex-col items-center justify-center transition-opacity duration-500 ${getTypeColor(currentCard.type)}`}
+                    style={{
+                      opacity: isFlipped ? 0 : 1,
+                      pointerEvents: isFlipped ? "none" : "auto",
+                      transform: "translateZ(0)",
+                    }}
+                  >
+                    <div className="absolute top-3 right-3">
+                      <span className="text-xs font-semibold px-2 py-1 rounded bg-white/80">
+                        {getTypeLabel(currentCard.type)}
+                      </span>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-lg font-semibold mb-2">Front</p>
+                      <p className="text-base leading-relaxed"><MathText text={currentCard.front} /></p>
+                    </div>
+                    <div className="absolute bottom-3 text-xs text-slate-500">
+                      Click to flip
+                    </div>
+                  </div>
+
+                  {/* Back */}
+                  <div
+                    className="absolute inset-0 rounded-lg border-2 border-slate-300 shadow-lg p-6 flex flex-col items-center justify-center bg-white transition-opacity duration-500"
+                    style={{
+                      opacity: isFlipped ? 1 : 0,
+                      pointerEvents: isFlipped ? "auto" : "none",
+                      transform: "translateZ(0)",
+                    }}
+                  >
+                    <div className="text-center w-full">
+                      <p className="text-lg font-semibold mb-2 text-slate-900">Back</p>
+                      <p className="text-base leading-relaxed whitespace-pre-line text-slate-900 font-normal" style={{
+                        textRendering: "optimizeLegibility",
+                        WebkitFontSmoothing: "antialiased",
+                        MozOsxFontSmoothing: "grayscale",
+                      }}><MathText text={currentCard.back} /></p>
+                    </div>
+                    <div className="absolute bottom-3 text-xs text-slate-500">
+                      Click to flip
+                    </div>
+                  </div>
                 </div>
               </div>
+
+              {/* Navigation */}
+              <div className="flex items-center justify-between gap-4">
+                <button
+                  onClick={() => {
+                    setCurrentIndex((prev) => (prev > 0 ? prev - 1 : filteredFlashcards.length - 1));
+                    setFlippedCards(new Set());
+                  }}
+                  disabled={filteredFlashcards.length === 0}
+                  className="px-4 py-2 rounded-md border border-slate-300 bg-white text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:opacity-50"
+                >
+                  ← Previous
+                </button>
+                <button
+                  onClick={() => toggleFlip(currentCard.id)}
+                  className="px-6 py-2 rounded-md bg-sky-600 text-white shadow-sm transition hover:bg-sky-700"
+                >
+                  {isFlipped ? "Show Front" : "Flip Card"}
+                </button>
+                <button
+                  onClick={() => {
+                    setCurrentIndex((prev) => (prev < filteredFlashcards.length - 1 ? prev + 1 : 0));
+                    setFlippedCards(new Set());
+                  }}
+                  disabled={filteredFlashcards.length === 0}
+                  className="px-4 py-2 rounded-md border border-slate-300 bg-white text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:opacity-50"
+                >
+                  Next →
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
-          {/* Navigation */}
-          <div className="flex items-center justify-between gap-4">
-            <button
-              onClick={() => {
-                setCurrentIndex((prev) => (prev > 0 ? prev - 1 : filteredFlashcards.length - 1));
-                setFlippedCards(new Set());
-              }}
-              disabled={filteredFlashcards.length === 0}
-              className="px-4 py-2 rounded-md border border-slate-300 bg-white text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:opacity-50"
-            >
-              ← Previous
-            </button>
-            <button
-              onClick={() => toggleFlip(currentCard.id)}
-              className="px-6 py-2 rounded-md bg-sky-600 text-white shadow-sm transition hover:bg-sky-700"
-            >
-              {isFlipped ? "Show Front" : "Flip Card"}
-            </button>
-            <button
-              onClick={() => {
-                setCurrentIndex((prev) => (prev < filteredFlashcards.length - 1 ? prev + 1 : 0));
-                setFlippedCards(new Set());
-              }}
-              disabled={filteredFlashcards.length === 0}
-              className="px-4 py-2 rounded-md border border-slate-300 bg-white text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:opacity-50"
-            >
-              Next →
-            </button>
+          {/* All Cards List */}
+          <div className="mt-8 space-y-4">
+            <h4 className="text-lg font-semibold text-slate-900">All Flashcards</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {filteredFlashcards.map((card, idx) => (
+                <div
+                  key={card.id}
+                  onClick={() => {
+                    setCurrentIndex(idx);
+                    setFlippedCards(new Set());
+                  }}
+                  className={`rounded-lg border-2 p-4 cursor-pointer transition hover:shadow-md ${currentIndex === idx ? "border-sky-500 ring-2 ring-sky-200" : "border-slate-200"
+                    } ${getTypeColor(card.type)}`}
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <span className="text-xs font-semibold">{getTypeLabel(card.type)}</span>
+                    <span className="text-xs text-slate-500">#{card.id}</span>
+                  </div>
+                  <p className="text-sm font-medium mb-1">Front:</p>
+                  <p className="text-sm mb-3 line-clamp-2"><MathText text={card.front} /></p>
+                  <p className="text-xs text-slate-600">Click to view in detail</p>
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
+        </>
       )}
-
-      {/* All Cards List */}
-      <div className="mt-8 space-y-4">
-        <h4 className="text-lg font-semibold text-slate-900">All Flashcards</h4>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {filteredFlashcards.map((card, idx) => (
-            <div
-              key={card.id}
-              onClick={() => {
-                setCurrentIndex(idx);
-                setFlippedCards(new Set());
-              }}
-              className={`rounded-lg border-2 p-4 cursor-pointer transition hover:shadow-md ${currentIndex === idx ? "border-sky-500 ring-2 ring-sky-200" : "border-slate-200"
-                } ${getTypeColor(card.type)}`}
-            >
-              <div className="flex items-start justify-between mb-2">
-                <span className="text-xs font-semibold">{getTypeLabel(card.type)}</span>
-                <span className="text-xs text-slate-500">#{card.id}</span>
-              </div>
-              <p className="text-sm font-medium mb-1">Front:</p>
-              <p className="text-sm mb-3 line-clamp-2">{card.front}</p>
-              <p className="text-xs text-slate-600">Click to view in detail</p>
-            </div>
-          ))}
-        </div>
-      </div>
     </div>
   );
 }
@@ -3,6 +3,8 @@
 import { useState } from "react";
 import ModelSelector from "@/components/ModelSelector";
 import OCRUploader from "@/components/OCRUploader";
+import DocumentUploader from "@/components/DocumentUploader";
+import PresetManager from "@/components/PresetManager";
 
 interface FlashcardFormProps {
   onSubmit: (data: { content: string; learning_level: string; model: string }) => void;
@@ -44,6 +46,22 @@ export default function FlashcardForm({ onSubmit, isLoading }: FlashcardFormProp
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Preset Manager */}
+      <PresetManager
+        toolType="flashcard"
+        currentSettings={{
+          learningLevel,
+          customLevel,
+          model,
+        }}
+        onLoadPreset={(settings) => {
+          if (settings.learningLevel) setLearningLevel(settings.learningLevel);
+          if (settings.customLevel !== undefined) setCustomLevel(settings.customLevel);
+          if (settings.model) setModel(settings.model);
+        }}
+        disabled={isLoading}
+      />
+
       {/* Content Input */}
       <div>
         <label htmlFor="flashcard-content" className="block text-sm font-medium text-slate-700 mb-2">
@@ -51,6 +69,7 @@ export default function FlashcardForm({ onSubmit, isLoading }: FlashcardFormProp
         </label>
         <textarea
           id="flashcard-content"
+          dir="auto"
           value={content}
           onChange={(e) => setContent(e.target.value)}
           placeholder="Paste your notes, textbook content, or any study material here..."
@@ -67,8 +86,19 @@ export default function FlashcardForm({ onSubmit, isLoading }: FlashcardFormProp
             disabled={isLoading}
           />
         </div>
+        <div className="mt-4">
+          <DocumentUploader
+            onTextExtracted={(extractedText) => {
+              setContent((prev) => (prev.trim() ? `${prev}\n\n${extractedText}` : extractedText));
+            }}
+            disabled={isLoading}
+            maxLength={100000}
+          />
+        </div>
         <div className="mt-2 text-xs text-slate-500">
-          {content.length.toLocaleString()} / 15,000 characters
+          {content.length.toLocaleString()} / 100,000 characters
+          {/* Matches the per-call chunk size in /api/flashcards */}
+          {content.length > 15000 && ` • generated in ~${Math.ceil(content.length / 15000)} parts`}
         </div>
       </div>
 
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import type { Flashcard } from "@/components/FlashcardDisplay";
+import MathText from "@/components/MathText";
+import {
+  REVIEW_GRADES,
+  describeInterval,
+  getDueCards,
+  recordReview,
+  scheduleReview,
+  type FlashcardDeck,
+  type ReviewGrade,
+} from "@/lib/spaced-repetition";
+
+interface FlashcardReviewProps {
+  deck: FlashcardDeck;
+  onExit?: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: "Again", className: "border-rose-300 bg-rose-50 text-rose-800 hover:bg-rose-100" },
+  hard: { label: "Hard", className: "border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100" },
+  good: { label: "Good", className: "border-green-300 bg-green-50 text-green-800 hover:bg-green-100" },
+  easy: { label: "Easy", className: "border-sky-300 bg-sky-50 text-sky-800 hover:bg-sky-100" },
+};
+
+/**
+ * Review session for one deck: shows each due card, reveals the answer and
+ * records the student's grade. Cards graded "again" go back to the end of
+ * the session queue.
+ */
+export default function FlashcardReview({ deck, onExit }: FlashcardReviewProps) {
+  // Fixed when the session starts; later changes to the deck only update schedules
+  const [queue, setQueue] = useState<Flashcard[]>(() => getDueCards(deck));
+  const [revealed, setRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const [counts, setCounts] = useState<Record<ReviewGrade, number>>({ again: 0, hard: 0, good: 0, easy: 0 });
+
+  const currentCard = queue[0];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentCard) return;
+
+    recordReview(deck.id, currentCard.id, grade);
+    setCounts((prev) => ({ ...prev, [grade]: prev[grade] + 1 }));
+    setReviewed((prev) => prev + 1);
+    setQueue((prev) => (grade === "again" ? [...prev.slice(1), prev[0]] : prev.slice(1)));
+    setRevealed(false);
+  };
+
+  if (!currentCard) {
+    return (
+      <div className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm text-center">
+        <p className="text-lg font-semibold text-slate-900">
+          {reviewed > 0 ? "Review complete" : "Nothing due today"}
+        </p>
+        <p className="mt-1 text-sm text-slate-600">
+          {reviewed > 0
+            ? `${reviewed} review${reviewed !== 1 ? "s" : ""} • ${counts.again} again • ${counts.hard} hard • ${counts.good} good • ${counts.easy} easy`
+            : "Every card in this deck is scheduled for a later day."}
+        </p>
+        {onExit && (
+          <button
+            onClick={onExit}
+            className="mt-5 px-4 py-2 rounded-md border border-slate-300 bg-white text-slate-700 shadow-sm transition hover:bg-slate-50"
+          >
+            Back to Cards
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const schedule = deck.schedules[currentCard.id];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <span>
+          {queue.length} card{queue.length !== 1 ? "s" : ""} left
+          {!schedule && " • New card"}
+        </span>
+        {onExit && (
+          <button onClick={onExit} className="font-medium text-sky-700 hover:text-sky-800">
+            End Review
+          </button>
+        )}
+      </div>
+
+      <div className="rounded-lg border-2 border-slate-200 bg-white shadow-lg p-6 min-h-64 flex flex-col justify-center text-center">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">Front</p>
+        <p className="text-lg leading-relaxed text-slate-900"><MathText text={currentCard.front} /></p>
+        {revealed && (
+          <div className="mt-6 border-t border-slate-200 pt-6">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">Back</p>
+            <p className="text-base leading-relaxed whitespace-pre-line text-slate-900"><MathText text={currentCard.back} /></p>
+          </div>
+        )}
+      </div>
+
+      {revealed ? (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {REVIEW_GRADES.map((grade) => (
+            <button
+              key={grade}
+              onClick={() => handleGrade(grade)}
+              className={`rounded-md border px-4 py-2 text-sm font-medium shadow-sm transition ${GRADE_STYLES[grade].className}`}
+            >
+              {GRADE_STYLES[grade].label}
+              <span className="block text-xs font-normal opacity-75">
+                {describeInterval(scheduleReview(schedule, grade))}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center">
+          <button
+            onClick={() => setRevealed(true)}
+            className="px-6 py-2 rounded-md bg-sky-600 text-white shadow-sm transition hover:bg-sky-700"
+          >
+            Show Answer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
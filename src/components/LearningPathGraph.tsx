@@ -0,0 +1,140 @@
+"use client";
+
+import {
+  LEARNING_NODE_STATUS_LABELS,
+  learningNodeStatus,
+  nodeDepths,
+  type LearningNodeProgress,
+  type LearningNodeStatus,
+  type LearningPathNode,
+} from "@/lib/learning-paths";
+
+interface LearningPathGraphProps {
+  nodes: LearningPathNode[];
+  progress: Record<string, LearningNodeProgress>;
+  selectedId?: string | null;
+  onSelect?: (nodeId: string) => void;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 72;
+const ROW_GAP = 20;
+const PADDING = 12;
+const MAX_TITLE_CHARS = 24;
+
+const STATUS_STYLES: Record<LearningNodeStatus, { fill: string; stroke: string; text: string }> = {
+  locked: { fill: "#f8fafc", stroke: "#cbd5e1", text: "#64748b" },
+  ready: { fill: "#eff6ff", stroke: "#3b82f6", text: "#1e3a8a" },
+  in_progress: { fill: "#fffbeb", stroke: "#f59e0b", text: "#78350f" },
+  mastered: { fill: "#f0fdf4", stroke: "#16a34a", text: "#14532d" },
+};
+
+function truncate(text: string): string {
+  return text.length > MAX_TITLE_CHARS ? `${text.substring(0, MAX_TITLE_CHARS - 1)}…` : text;
+}
+
+/**
+ * Prerequisite graph of a learning path, laid out left to right: each
+ * column holds the nodes whose longest prerequisite chain has the same
+ * length, so every arrow points right.
+ */
+export default function LearningPathGraph({ nodes, progress, selectedId, onSelect }: LearningPathGraphProps) {
+  const depths = nodeDepths(nodes);
+  const columns: LearningPathNode[][] = [];
+  for (const node of nodes) {
+    const depth = depths.get(node.id) ?? 0;
+    (columns[depth] ??= []).push(node);
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, depth) => {
+    column.forEach((node, row) => {
+      positions.set(node.id, {
+        x: PADDING + depth * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  const tallest = Math.max(1, ...columns.map((column) => column.length));
+  const width = PADDING * 2 + columns.length * NODE_WIDTH + Math.max(0, columns.length - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + tallest * NODE_HEIGHT + (tallest - 1) * ROW_GAP;
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label="Learning path prerequisite graph"
+      >
+        <defs>
+          <marker id="learning-path-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+          </marker>
+        </defs>
+
+        {/* Edges: prerequisite → node */}
+        {nodes.flatMap((node) =>
+          node.prerequisites.map((id) => {
+            const from = positions.get(id);
+            const to = positions.get(node.id);
+            if (!from || !to) return null;
+
+            const startX = from.x + NODE_WIDTH;
+            const startY = from.y + NODE_HEIGHT / 2;
+            const endX = to.x;
+            const endY = to.y + NODE_HEIGHT / 2;
+            const bend = (endX - startX) / 2;
+            return (
+              <path
+                key={`${id}->${node.id}`}
+                d={`M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`}
+                fill="none"
+                stroke="#94a3b8"
+                strokeWidth={1.5}
+                markerEnd="url(#learning-path-arrow)"
+              />
+            );
+          }),
+        )}
+
+        {nodes.map((node) => {
+          const position = positions.get(node.id);
+          if (!position) return null;
+
+          const status = learningNodeStatus(node, progress);
+          const style = STATUS_STYLES[status];
+          const mastery = progress[node.id]?.mastery;
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${position.x}, ${position.y})`}
+              onClick={() => onSelect?.(node.id)}
+              className={onSelect ? "cursor-pointer" : undefined}
+            >
+              <title>{`${node.title} — ${LEARNING_NODE_STATUS_LABELS[status]}`}</title>
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={10}
+                fill={style.fill}
+                stroke={style.stroke}
+                strokeWidth={node.id === selectedId ? 3 : 1.5}
+              />
+              <text x={12} y={23} fontSize={13} fontWeight={600} fill={style.text}>
+                {truncate(node.title)}
+              </text>
+              <text x={12} y={42} fontSize={11} fill={style.text}>
+                {LEARNING_NODE_STATUS_LABELS[status]}
+                {mastery !== null && mastery !== undefined ? ` • ${mastery}%` : ""}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  forgetPath,
+  loadRecentPathIds,
+  type LearningPathSummary,
+} from "@/lib/learning-paths";
+
+interface LearningPathsPanelProps {
+  className?: string;
+}
+
+/**
+ * Recent learning paths with how many of their sub-topics are mastered
+ */
+export default function LearningPathsPanel({ className = "mb-12" }: LearningPathsPanelProps) {
+  const [paths, setPaths] = useState<LearningPathSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = loadRecentPathIds();
+    const query = ids.length > 0 ? `?ids=${ids.join(",")}` : "";
+
+    fetch(`/api/learning-paths${query}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { paths: LearningPathSummary[] } | null) => {
+        if (data && !cancelled) {
+          setPaths(data.paths);
+        }
+      })
+      .catch((err) => console.error("Learning paths error:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRemove = async (id: string) => {
+    if (!confirm("Remove this learning path and the progress on all its sub-topics?")) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/learning-paths?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      // Already gone on the server: drop it here too
+      if (res.ok || res.status === 404) {
+        forgetPath(id);
+        setPaths((prev) => prev.filter((path) => path.id !== id));
+      }
+    } catch (err) {
+      console.error("Learning paths error:", err);
+    }
+  };
+
+  if (paths.length === 0) return null;
+
+  return (
+    <section className={`${className} rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-lg`}>
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-900">Your Learning Paths</h2>
+        <span className="rounded-full bg-green-50 px-3 py-1 text-xs font-semibold text-green-700">
+          {paths.length} path{paths.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {paths.map((path) => (
+          <li key={path.id} className="flex items-center justify-between gap-4 py-3">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium text-slate-900">{path.goal}</p>
+              <p className="text-xs text-slate-500">
+                {path.learningLevel} • {path.masteredCount}/{path.nodeCount} mastered •{" "}
+                {new Date(path.updatedAt).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex flex-shrink-0 items-center gap-3">
+              <button
+                onClick={() => handleRemove(path.id)}
+                className="text-xs text-slate-400 hover:text-rose-600"
+              >
+                Remove
+              </button>
+              <Link
+                href={`/concept-booster/paths?path=${encodeURIComponent(path.id)}`}
+                className="rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-green-700"
+              >
+                Open
+              </Link>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import ModelSelector from "@/components/ModelSelector";
 import OCRUploader from "@/components/OCRUploader";
+import DocumentUploader from "@/components/DocumentUploader";
 import PresetManager from "@/components/PresetManager";
 
 interface MCQFormProps {
@@ -30,9 +31,9 @@ export default function MCQForm({ onSubmit, isLoading }: MCQFormProps) {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // Validate file size (max 50KB for text files)
-    if (file.size > 50 * 1024) {
-      setFileError("File size must be less than 50KB");
+    // Validate file size (max 200KB for text files)
+    if (file.size > 200 * 1024) {
+      setFileError("File size must be less than 200KB");
       return;
     }
 
@@ -46,8 +47,8 @@ export default function MCQForm({ onSubmit, isLoading }: MCQFormProps) {
     const reader = new FileReader();
     reader.onload = (event) => {
       const content = event.target?.result as string;
-      if (content.length > 12000) {
-        setFileError("File content exceeds 12,000 characters limit");
+      if (content.length > 100000) {
+        setFileError("File content exceeds 100,000 characters limit");
         return;
       }
       setText(content);
@@ -118,6 +119,7 @@ export default function MCQForm({ onSubmit, isLoading }: MCQFormProps) {
         </label>
         <textarea
           id="mcq-text"
+          dir="auto"
           value={text}
           onChange={(e) => {
             setText(e.target.value);
@@ -137,6 +139,15 @@ export default function MCQForm({ onSubmit, isLoading }: MCQFormProps) {
             disabled={isLoading}
           />
         </div>
+        <div className="mt-4">
+          <DocumentUploader
+            onTextExtracted={(extractedText) => {
+              setText((prev) => (prev.trim() ? `${prev}\n\n${extractedText}` : extractedText));
+            }}
+            disabled={isLoading}
+            maxLength={100000}
+          />
+        </div>
         <div className="mt-2 flex items-center gap-4">
           <label className="inline-flex items-center gap-2 text-sm text-slate-600 cursor-pointer hover:text-slate-900">
             <input
@@ -161,7 +172,9 @@ export default function MCQForm({ onSubmit, isLoading }: MCQFormProps) {
             Upload text file
           </label>
           <span className="text-xs text-slate-500">
-            {text.length.toLocaleString()} / 12,000 characters
+            {text.length.toLocaleString()} / 100,000 characters
+            {/* Matches the per-call chunk size in /api/mcq */}
+            {text.length > 12000 && ` • generated in ~${Math.ceil(text.length / 12000)} parts`}
           </span>
         </div>
         {fileError && (
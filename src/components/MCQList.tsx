@@ -1,7 +1,10 @@
 "use client";
 
 import { useState } from "react";
-import ExportButtons from "@/components/ExportButtons";
+import ExportButtons, { type ExportFormat } from "@/components/ExportButtons";
+import MathText from "@/components/MathText";
+import { downloadBytes, downloadText } from "@/lib/download";
+import { mcqsToGift, mcqsToKahootXlsx, mcqsToMoodleXml, mcqsToQtiPackage } from "@/lib/mcq-export";
 
 export interface MCQ {
   id: number;
@@ -77,7 +80,7 @@ export default function MCQList({ mcqs, title }: MCQListProps) {
   const downloadPDF = async () => {
     try {
       const { generateMCQPDF } = await import("@/lib/pdf-generator");
-      generateMCQPDF(mcqs, title);
+      await generateMCQPDF(mcqs, title);
     } catch (error) {
       console.error("Failed to generate PDF:", error);
       alert("Failed to generate PDF. Please try again.");
@@ -101,6 +104,39 @@ export default function MCQList({ mcqs, title }: MCQListProps) {
     URL.revokeObjectURL(url);
   };
 
+  const exportTitle = title || "BrainBolt MCQs";
+  const exportFormats: ExportFormat[] = [
+    {
+      id: "moodle-xml",
+      label: "Moodle XML",
+      description: ".xml, for the Moodle question bank",
+      onExport: () => downloadText(mcqsToMoodleXml(mcqs, exportTitle), "brainbolt-mcqs-moodle.xml", "application/xml"),
+    },
+    {
+      id: "gift",
+      label: "GIFT",
+      description: ".txt, Moodle plain-text format",
+      onExport: () => downloadText(mcqsToGift(mcqs, exportTitle), "brainbolt-mcqs-gift.txt"),
+    },
+    {
+      id: "qti",
+      label: "QTI 2.1 Package",
+      description: ".zip, for Canvas, Blackboard and other LMSs",
+      onExport: () => downloadBytes(mcqsToQtiPackage(mcqs, exportTitle), "brainbolt-mcqs-qti.zip", "application/zip"),
+    },
+    {
+      id: "kahoot",
+      label: "Kahoot Spreadsheet",
+      description: ".xlsx, long text is shortened to Kahoot's limits",
+      onExport: () =>
+        downloadBytes(
+          mcqsToKahootXlsx(mcqs, exportTitle),
+          "brainbolt-mcqs-kahoot.xlsx",
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        ),
+    },
+  ];
+
 
   return (
     <div className="space-y-6">
@@ -118,6 +154,7 @@ export default function MCQList({ mcqs, title }: MCQListProps) {
           onExportPDF={downloadPDF}
           onExportText={exportText}
           onCopy={copyAll}
+          formats={exportFormats}
         />
       </div>
 
@@ -133,7 +170,7 @@ export default function MCQList({ mcqs, title }: MCQListProps) {
             <div className="mb-4">
               <div className="flex items-start justify-between gap-4">
                 <h4 className="flex-1 text-base font-semibold text-slate-900">
-                  {mcq.id}. {mcq.question}
+                  {mcq.id}. <MathText text={mcq.question} />
                 </h4>
                 <button
                   onClick={() => copyMCQ(mcq)}
@@ -186,7 +223,7 @@ export default function MCQList({ mcqs, title }: MCQListProps) {
                       : "border-slate-200 bg-slate-50 text-slate-700"
                       }`}
                   >
-                    <span className="font-medium">{optionLetter}.</span> {option}
+                    <span className="font-medium">{optionLetter}.</span> <MathText text={option} />
                     {isCorrect && (
                       <span className="ml-2 text-xs font-semibold text-green-700">
                         ✓ Correct
@@ -222,7 +259,7 @@ export default function MCQList({ mcqs, title }: MCQListProps) {
                 </button>
                 {expandedExplanations.has(mcq.id) && (
                   <div className="mt-2 rounded-md border border-slate-200 bg-white p-4 text-sm text-slate-700">
-                    {mcq.explanation}
+                    <MathText text={mcq.explanation} />
                   </div>
                 )}
               </div>
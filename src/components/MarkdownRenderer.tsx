@@ -1,4 +1,7 @@
 import ReactMarkdown from "react-markdown";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import MermaidDiagram from "@/components/MermaidDiagram";
 
 interface MarkdownRendererProps {
   content: string;
@@ -8,6 +11,8 @@ export default function MarkdownRenderer({ content }: MarkdownRendererProps) {
   return (
     <div className="prose prose-sm max-w-none">
       <ReactMarkdown
+        remarkPlugins={[remarkMath]}
+        rehypePlugins={[[rehypeKatex, { throwOnError: false }]]}
         components={{
           h1: ({ node, ...props }) => (
             <h1 className="mb-4 mt-6 text-2xl font-bold text-slate-900" {...props} />
@@ -36,6 +41,19 @@ export default function MarkdownRenderer({ content }: MarkdownRendererProps) {
           em: ({ node, ...props }) => (
             <em className="italic text-slate-800" {...props} />
           ),
+          // ```mermaid blocks are drawn as diagrams
+          pre: ({ node, children, ...props }) => {
+            const code = node?.children[0];
+            if (
+              code?.type === "element" &&
+              code.tagName === "code" &&
+              String(code.properties.className).includes("language-mermaid")
+            ) {
+              const source = code.children.map((child) => (child.type === "text" ? child.value : "")).join("");
+              return <MermaidDiagram code={source.trim()} />;
+            }
+            return <pre {...props}>{children}</pre>;
+          },
           code: ({ node, ...props }) => (
             <code
               className="rounded bg-slate-200 px-1.5 py-0.5 text-xs font-mono text-sky-700"
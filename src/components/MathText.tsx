@@ -0,0 +1,31 @@
+import { renderMathToString, splitMath } from "@/lib/math";
+
+interface MathTextProps {
+  text: string;
+}
+
+/**
+ * Plain model text with its $...$ and $$...$$ formulas rendered by KaTeX.
+ * Text outside the formulas is left as is, so the parent's whitespace
+ * handling (e.g. whitespace-pre-line) still applies.
+ */
+export default function MathText({ text }: MathTextProps) {
+  const segments = splitMath(text);
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.type === "text" ? (
+          segment.value
+        ) : (
+          <span
+            key={index}
+            className={segment.display ? "block overflow-x-auto py-2 text-center" : undefined}
+            // KaTeX escapes the source and ignores \href and similar commands
+            dangerouslySetInnerHTML={{ __html: renderMathToString(segment.value, segment.display) }}
+          />
+        ),
+      )}
+    </>
+  );
+}
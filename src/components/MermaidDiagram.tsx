@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { renderMermaidSvg } from "@/lib/mermaid";
+
+interface MermaidDiagramProps {
+  code: string;
+}
+
+interface RenderResult {
+  code: string;
+  svg?: string;
+  error?: string;
+}
+
+/**
+ * A Mermaid diagram drawn as SVG. Invalid diagrams fall back to their
+ * source, so the learner still sees what the model meant.
+ */
+export default function MermaidDiagram({ code }: MermaidDiagramProps) {
+  const [result, setResult] = useState<RenderResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    renderMermaidSvg(code)
+      .then((svg) => {
+        if (!cancelled) setResult({ code, svg });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setResult({ code, error: err instanceof Error ? err.message : "Invalid diagram" });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  // A result for an earlier version of the code counts as still loading
+  const current = result?.code === code ? result : null;
+
+  if (current?.svg) {
+    return (
+      <div
+        className="my-4 flex justify-center overflow-x-auto rounded-lg border border-slate-200 bg-white p-4"
+        role="img"
+        aria-label="Diagram"
+        // Rendered with securityLevel "strict", which sanitises labels
+        dangerouslySetInnerHTML={{ __html: current.svg }}
+      />
+    );
+  }
+
+  if (current?.error) {
+    return (
+      <div className="my-4 rounded-lg border border-amber-200 bg-amber-50 p-4">
+        <p className="mb-2 text-xs font-medium text-amber-800">This diagram could not be drawn. Its source:</p>
+        <pre className="overflow-x-auto whitespace-pre text-xs text-slate-700">{code}</pre>
+      </div>
+    );
+  }
+
+  return (
+    <div className="my-4 rounded-lg border border-slate-200 bg-slate-50 p-6 text-center text-sm text-slate-500">
+      Drawing diagram...
+    </div>
+  );
+}
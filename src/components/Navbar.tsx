@@ -1,12 +1,48 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname } from "next/navigation";
-import { useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+interface NavUser {
+  id: string;
+  email: string | null;
+  name: string | null;
+}
 
 export default function Navbar() {
   const pathname = usePathname();
+  const router = useRouter();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [user, setUser] = useState<NavUser | null>(null);
+
+  // Re-check the session on navigation so sign-in/sign-out is reflected immediately
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/auth/session")
+      .then((res) => (res.ok ? res.json() : { user: null }))
+      .then((data: { user: NavUser | null }) => {
+        if (!cancelled) setUser(data.user);
+      })
+      .catch(() => {
+        if (!cancelled) setUser(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pathname]);
+
+  const handleSignOut = async () => {
+    try {
+      await fetch("/api/auth/signout", { method: "POST" });
+    } catch (err) {
+      console.error("Error signing out:", err);
+    }
+    setUser(null);
+    setMobileMenuOpen(false);
+    router.push("/");
+    router.refresh();
+  };
 
   const navLinks = [
     { href: "/", label: "Home" },
@@ -14,6 +50,7 @@ export default function Navbar() {
     { href: "/mcq", label: "MCQs" },
     { href: "/flashcards", label: "Flashcards" },
     { href: "/concept-booster", label: "Concept" },
+    { href: "/history", label: "History" },
   ];
 
   const isActive = (href: string) => {
@@ -60,6 +97,31 @@ export default function Navbar() {
             ))}
           </div>
 
+          {/* Account */}
+          <div className="hidden md:flex items-center gap-2">
+            {user ? (
+              <>
+                <span className="max-w-[12rem] truncate text-sm text-slate-600" title={user.email || undefined}>
+                  {user.name || user.email}
+                </span>
+                <button
+                  type="button"
+                  onClick={handleSignOut}
+                  className="px-3 py-1.5 rounded-lg border border-slate-300 text-sm font-medium text-slate-700 transition hover:bg-slate-50"
+                >
+                  Sign out
+                </button>
+              </>
+            ) : (
+              <Link
+                href="/signin"
+                className="px-3 py-1.5 rounded-lg bg-sky-600 text-sm font-medium text-white transition hover:bg-sky-700"
+              >
+                Sign in
+              </Link>
+            )}
+          </div>
+
           {/* Mobile Menu Button */}
           <div className="md:hidden">
             <button
@@ -123,6 +185,25 @@ export default function Navbar() {
                 {link.label}
               </Link>
             ))}
+            <div className="border-t border-slate-200 pt-2 mt-2">
+              {user ? (
+                <button
+                  type="button"
+                  onClick={handleSignOut}
+                  className="block w-full text-left px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:text-slate-900 hover:bg-slate-50"
+                >
+                  Sign out ({user.name || user.email})
+                </button>
+              ) : (
+                <Link
+                  href="/signin"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className="block px-4 py-2 rounded-lg text-sm font-medium text-sky-600 hover:bg-sky-50"
+                >
+                  Sign in
+                </Link>
+              )}
+            </div>
           </div>
         </div>
       )}
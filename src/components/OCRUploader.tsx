@@ -1,19 +1,114 @@
 "use client";
 
-import { useState, useRef } from "react";
-import Tesseract from "tesseract.js";
-import { compressImage, formatFileSize } from "@/lib/image-compression";
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import Image from "next/image";
+import CornerPicker from "@/components/CornerPicker";
+import {
+    DEFAULT_PREPROCESS_OPTIONS,
+    FULL_QUAD,
+    isFullQuad,
+    loadImage,
+    preprocessForOcr,
+    type PreprocessOptions,
+    type PreprocessedImage,
+} from "@/lib/image-preprocessing";
+import {
+    LOW_CONFIDENCE,
+    MAX_OCR_LANGUAGES,
+    OCR_LANGUAGES,
+    applyOcrCorrections,
+    describeOcrLanguages,
+    loadOcrSettings,
+    loadOcrSettingsOnServer,
+    recognizePages,
+    saveOcrSettings,
+    subscribeToOcrSettings,
+    type OcrResult,
+} from "@/lib/ocr";
 
 interface OCRUploaderProps {
     onTextExtracted: (text: string) => void;
     disabled?: boolean;
 }
 
+type Phase = "idle" | "preparing" | "reviewing" | "reading" | "correcting";
+
+interface OcrImage {
+    name: string;
+    // Object URL of the upload, for the "before" preview
+    url: string;
+    source: HTMLImageElement;
+    options: PreprocessOptions;
+    processed: PreprocessedImage;
+    // Re-running the clean-up after an option or corner change
+    isUpdating: boolean;
+    result: OcrResult | null;
+    // Student's fixes to low-confidence words, keyed by "line:word"
+    corrections: Record<string, string>;
+}
+
+const CLEANUP_OPTIONS: { key: "deskew" | "denoise" | "binarize"; label: string }[] = [
+    { key: "deskew", label: "Straighten" },
+    { key: "denoise", label: "Remove noise" },
+    { key: "binarize", label: "Black & white" },
+];
+
+// Below this an image is treated as having no readable text
+const MIN_TEXT_LENGTH = 3;
+
+function confidenceClass(confidence: number): string {
+    if (confidence >= 80) return "bg-emerald-50 text-emerald-700";
+    if (confidence >= LOW_CONFIDENCE) return "bg-amber-50 text-amber-700";
+    return "bg-rose-50 text-rose-700";
+}
+
 export default function OCRUploader({ onTextExtracted, disabled = false }: OCRUploaderProps) {
-    const [isProcessing, setIsProcessing] = useState(false);
+    const [phase, setPhase] = useState<Phase>("idle");
     const [progress, setProgress] = useState(0);
+    // Per-image progress (0-1) while reading
+    const [pageProgress, setPageProgress] = useState<number[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const [images, setImages] = useState<OcrImage[]>([]);
+    const [showLanguages, setShowLanguages] = useState(false);
+    // Languages auto-detection picked for the last upload
+    const [detectedLanguages, setDetectedLanguages] = useState<string[] | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // Object URLs to release on reset and unmount
+    const urlsRef = useRef<string[]>([]);
+    const abortRef = useRef<AbortController | null>(null);
+    const settings = useSyncExternalStore(subscribeToOcrSettings, loadOcrSettings, loadOcrSettingsOnServer);
+
+    useEffect(() => {
+        const urls = urlsRef.current;
+        const abort = abortRef;
+        return () => {
+            abort.current?.abort();
+            urls.forEach((url) => URL.revokeObjectURL(url));
+        };
+    }, []);
+
+    const reset = () => {
+        urlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+        urlsRef.current.length = 0;
+        setImages([]);
+        setPhase("idle");
+        setProgress(0);
+        if (fileInputRef.current) {
+            fileInputRef.current.value = "";
+        }
+    };
+
+    const updateImage = (index: number, patch: Partial<OcrImage>) => {
+        setImages((current) => current.map((image, i) => (i === index ? { ...image, ...patch } : image)));
+    };
+
+    const toggleLanguage = (code: string) => {
+        const languages = settings.languages.includes(code)
+            ? settings.languages.filter((selected) => selected !== code)
+            : [...settings.languages, code];
+        if (languages.length === 0 || languages.length > MAX_OCR_LANGUAGES) return;
+        saveOcrSettings({ ...settings, languages });
+    };
 
     const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
@@ -21,6 +116,7 @@ export default function OCRUploader({ onTextExtracted, disabled = false }: OCRUp
 
         // Clear previous errors
         setError(null);
+        setDetectedLanguages(null);
 
         // Validate file types
         const validImageTypes = ["image/png", "image/jpeg", "image/jpg"];
@@ -33,130 +129,428 @@ export default function OCRUploader({ onTextExtracted, disabled = false }: OCRUp
             return;
         }
 
-        setIsProcessing(true);
+        // Validate file size (max 10MB each)
+        const tooLarge = Array.from(files).findIndex((file) => file.size > 10 * 1024 * 1024);
+        if (tooLarge !== -1) {
+            setError(`Image ${tooLarge + 1} is too large. Maximum file size is 10MB.`);
+            return;
+        }
+
+        setPhase("preparing");
         setProgress(0);
 
         try {
-            let combinedText = "";
-
-            // Process each image
+            const prepared: OcrImage[] = [];
             for (let i = 0; i < files.length; i++) {
-                const file = files[i];
+                const url = URL.createObjectURL(files[i]);
+                urlsRef.current.push(url);
+                const source = await loadImage(url);
+                const processed = await preprocessForOcr(source, DEFAULT_PREPROCESS_OPTIONS);
+                prepared.push({
+                    name: files[i].name,
+                    url,
+                    source,
+                    options: DEFAULT_PREPROCESS_OPTIONS,
+                    processed,
+                    isUpdating: false,
+                    result: null,
+                    corrections: {},
+                });
+                setProgress(Math.round(((i + 1) / files.length) * 100));
+            }
+            setImages(prepared);
+            setPhase("reviewing");
+        } catch (err) {
+            console.error("Image preparation error:", err);
+            const errorMessage = err instanceof Error ? err.message : "Unknown error";
+            setError(`Failed to read the image: ${errorMessage}.`);
+            reset();
+        }
+    };
 
-                // Validate file size (max 10MB before compression)
-                if (file.size > 10 * 1024 * 1024) {
-                    setError(`Image ${i + 1} is too large. Maximum file size is 10MB.`);
-                    setIsProcessing(false);
-                    return;
-                }
+    const updateOptions = async (index: number, options: PreprocessOptions) => {
+        const image = images[index];
+        updateImage(index, { options, isUpdating: true });
+        try {
+            const processed = await preprocessForOcr(image.source, options);
+            updateImage(index, { processed, isUpdating: false, result: null, corrections: {} });
+        } catch (err) {
+            console.error("Image preparation error:", err);
+            updateImage(index, { isUpdating: false });
+        }
+    };
 
-                // Compress image for faster OCR processing
-                const compressed = await compressImage(file);
-                console.log(`📦 Compressed: ${formatFileSize(compressed.originalSize)} → ${formatFileSize(compressed.compressedSize)} (${compressed.compressionRatio.toFixed(1)}% reduction)`);
-
-                // Process image with Tesseract with optimized settings
-                const result = await Tesseract.recognize(compressed.dataUrl, "eng", {
-                    logger: (m) => {
-                        // Update progress
-                        if (m.status === "recognizing text") {
-                            const fileProgress = (m.progress * 100) / files.length;
-                            const overallProgress = (i / files.length) * 100 + fileProgress;
-                            setProgress(Math.round(overallProgress));
-                        }
-                    },
-                });
+    const handleRead = async () => {
+        setError(null);
+        setPhase("reading");
+        setPageProgress(images.map(() => 0));
 
-                const extractedText = result.data.text.trim();
+        const controller = new AbortController();
+        abortRef.current = controller;
 
-                // Check if any meaningful text was extracted (more lenient check)
-                if (!extractedText || extractedText.length < 3) {
-                    setError(
-                        `Image ${i + 1} appears to contain no readable text. Please ensure the image is clear and contains text.`
-                    );
-                    setIsProcessing(false);
-                    return;
+        try {
+            // All images are read in parallel on the OCR worker pool, in the selected languages
+            const results = await recognizePages(
+                images.map((image) => image.processed.canvas),
+                settings,
+                {
+                    signal: controller.signal,
+                    onProgress: (page, recognized) => {
+                        setPageProgress((current) => {
+                            const next = current.slice();
+                            next[page] = recognized;
+                            return next;
+                        });
+                    },
                 }
+            );
 
-                // Add extracted text to combined text
-                if (combinedText) {
-                    combinedText += "\n\n";
-                }
-                combinedText += extractedText;
+            const usedLanguages = new Set(results.flatMap((result) => result.languages));
+            setImages((current) => current.map((image, i) => ({ ...image, result: results[i], corrections: {} })));
+            if (settings.autoDetect) {
+                setDetectedLanguages(Array.from(usedLanguages));
             }
-
-            // Final validation
-            if (!combinedText.trim()) {
-                setError("No text could be extracted from the image(s). Please try with clearer images.");
-                setIsProcessing(false);
+            setPhase("correcting");
+        } catch (err) {
+            if (controller.signal.aborted) {
+                setPhase("reviewing");
                 return;
             }
-
-            // Pass extracted text to parent component
-            onTextExtracted(combinedText);
-            setProgress(100);
-
-            // Clear error and reset file input after successful extraction
-            setError(null);
-            if (fileInputRef.current) {
-                fileInputRef.current.value = "";
-            }
-        } catch (err) {
             console.error("OCR Error:", err);
             const errorMessage = err instanceof Error ? err.message : "Unknown error";
             setError(`Failed to extract text: ${errorMessage}. Please ensure the image is clear and try again.`);
+            setPhase("reviewing");
         } finally {
-            setIsProcessing(false);
-            setProgress(0);
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+            }
         }
     };
 
+    const handleInsert = () => {
+        const texts = images
+            .map((image) => (image.result ? applyOcrCorrections(image.result, image.corrections) : ""))
+            .filter((text) => text.trim().length >= MIN_TEXT_LENGTH);
+
+        if (texts.length === 0) {
+            setError("No text could be extracted from the image(s). Please try with clearer images.");
+            return;
+        }
+
+        // Pass extracted text to parent component
+        onTextExtracted(texts.join("\n\n"));
+        setError(null);
+        reset();
+    };
+
+    const isBusy = phase === "preparing" || phase === "reading";
+    // While reading, overall progress is the average of the images' progress
+    const shownProgress = phase === "reading" && pageProgress.length > 0
+        ? Math.round((pageProgress.reduce((sum, value) => sum + value, 0) / pageProgress.length) * 100)
+        : progress;
+    const canChangeLanguage = phase === "idle" || phase === "reviewing";
+
     return (
         <div className="space-y-2">
             {/* Upload Button */}
-            <label
-                className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg border-2 border-dashed transition-all cursor-pointer ${isProcessing || disabled
-                    ? "border-slate-300 bg-slate-100 text-slate-400 cursor-not-allowed"
-                    : "border-sky-400 bg-sky-50 text-sky-700 hover:bg-sky-100 hover:border-sky-500"
-                    }`}
-            >
-                <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept="image/png,image/jpeg,image/jpg"
-                    multiple
-                    onChange={handleImageUpload}
-                    disabled={isProcessing || disabled}
-                    className="hidden"
-                />
-                <svg
-                    className="h-5 w-5"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
+            {(phase === "idle" || phase === "preparing") && (
+                <label
+                    className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg border-2 border-dashed transition-all cursor-pointer ${isBusy || disabled
+                        ? "border-slate-300 bg-slate-100 text-slate-400 cursor-not-allowed"
+                        : "border-sky-400 bg-sky-50 text-sky-700 hover:bg-sky-100 hover:border-sky-500"
+                        }`}
                 >
-                    <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="image/png,image/jpeg,image/jpg"
+                        multiple
+                        onChange={handleImageUpload}
+                        disabled={isBusy || disabled}
+                        className="hidden"
                     />
-                </svg>
-                <span className="text-sm font-medium">
-                    {isProcessing ? "Processing..." : "Upload Image"}
-                </span>
-            </label>
+                    <svg
+                        className="h-5 w-5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                    >
+                        <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                        />
+                    </svg>
+                    <span className="text-sm font-medium">
+                        {phase === "preparing" ? "Preparing..." : "Upload Image"}
+                    </span>
+                </label>
+            )}
+
+            {/* Language Picker */}
+            {canChangeLanguage && (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                    <span>
+                        Language: <span className="font-medium text-slate-800">{describeOcrLanguages(settings.languages)}</span>
+                        {settings.autoDetect && " (auto-detect)"}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={() => setShowLanguages((open) => !open)}
+                        className="font-medium text-sky-700 hover:text-sky-800"
+                    >
+                        {showLanguages ? "Done" : "Change"}
+                    </button>
+                </div>
+            )}
+            {canChangeLanguage && showLanguages && (
+                <div className="rounded-lg border border-slate-200 bg-white p-3 space-y-3">
+                    <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                        {OCR_LANGUAGES.map((language) => {
+                            const checked = settings.languages.includes(language.code);
+                            return (
+                                <label
+                                    key={language.code}
+                                    className={`flex items-center gap-2 text-sm ${!checked && settings.languages.length >= MAX_OCR_LANGUAGES
+                                        ? "text-slate-400"
+                                        : "text-slate-700"
+                                        }`}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={checked}
+                                        onChange={() => toggleLanguage(language.code)}
+                                        disabled={!checked && settings.languages.length >= MAX_OCR_LANGUAGES}
+                                        className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                                    />
+                                    <span dir={language.rtl ? "rtl" : undefined}>{language.label}</span>
+                                </label>
+                            );
+                        })}
+                    </div>
+                    <label className="flex items-start gap-2 text-sm text-slate-700">
+                        <input
+                            type="checkbox"
+                            checked={settings.autoDetect}
+                            onChange={(e) => saveOcrSettings({ ...settings, autoDetect: e.target.checked })}
+                            className="mt-0.5 h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                        />
+                        <span>
+                            Auto-detect script
+                            <span className="block text-xs text-slate-500">
+                                Checks each image for Latin, Devanagari, Bengali or Arabic script and reads it with the
+                                matching language from your selection.
+                            </span>
+                        </span>
+                    </label>
+                    <p className="text-xs text-slate-500">
+                        Pick up to {MAX_OCR_LANGUAGES} languages for mixed notes, e.g. English + Hindi. Each extra
+                        language makes OCR slower. Scanned PDF pages use the same languages.
+                    </p>
+                </div>
+            )}
+
+            {/* Before / after review */}
+            {phase === "reviewing" && (
+                <div className="rounded-lg border border-sky-200 bg-white p-4 space-y-4">
+                    {images.map((image, index) => (
+                        <div key={image.url} className="space-y-2">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <p className="text-sm font-medium text-slate-900 truncate">
+                                    Image {index + 1} • {image.name}
+                                </p>
+                                {image.processed.skewAngle !== 0 && (
+                                    <span className="text-xs text-slate-500">
+                                        Straightened by {Math.abs(image.processed.skewAngle).toFixed(1)}°
+                                    </span>
+                                )}
+                            </div>
+                            <div className="grid gap-3 sm:grid-cols-2">
+                                <div className="space-y-1">
+                                    <p className="text-xs font-medium text-slate-600">
+                                        Before • drag the corners to the edges of the page
+                                    </p>
+                                    <CornerPicker
+                                        imageUrl={image.url}
+                                        width={image.source.naturalWidth}
+                                        height={image.source.naturalHeight}
+                                        corners={image.options.corners}
+                                        onChange={(corners) => updateOptions(index, { ...image.options, corners })}
+                                        disabled={image.isUpdating}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <p className="text-xs font-medium text-slate-600">After • what OCR will read</p>
+                                    <div className="relative">
+                                        <Image
+                                            src={image.processed.dataUrl}
+                                            alt={`Cleaned-up image ${index + 1}`}
+                                            width={image.processed.canvas.width}
+                                            height={image.processed.canvas.height}
+                                            unoptimized
+                                            className="block h-auto w-full rounded border border-slate-200"
+                                        />
+                                        {image.isUpdating && (
+                                            <div className="absolute inset-0 flex items-center justify-center bg-white/70 text-sm text-slate-600">
+                                                Updating...
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                                {CLEANUP_OPTIONS.map((option) => (
+                                    <label key={option.key} className="flex items-center gap-2 text-sm text-slate-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={image.options[option.key]}
+                                            onChange={(e) =>
+                                                updateOptions(index, { ...image.options, [option.key]: e.target.checked })
+                                            }
+                                            disabled={image.isUpdating}
+                                            className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                                        />
+                                        {option.label}
+                                    </label>
+                                ))}
+                                {!isFullQuad(image.options.corners) && (
+                                    <button
+                                        type="button"
+                                        onClick={() => updateOptions(index, { ...image.options, corners: FULL_QUAD })}
+                                        disabled={image.isUpdating}
+                                        className="text-xs font-medium text-sky-700 hover:text-sky-800 disabled:opacity-50"
+                                    >
+                                        Reset corners
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+
+                    <div className="flex justify-end gap-2">
+                        <button
+                            type="button"
+                            onClick={reset}
+                            className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleRead}
+                            disabled={disabled || images.some((image) => image.isUpdating)}
+                            className="rounded-md bg-sky-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-sky-700 disabled:opacity-50"
+                        >
+                            Read Text
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Recognised text with low-confidence words to correct */}
+            {phase === "correcting" && (
+                <div className="rounded-lg border border-sky-200 bg-white p-4 space-y-4">
+                    {images.map((image, index) => {
+                        const result = image.result;
+                        if (!result) return null;
+                        const lowCount = result.lines.flat().filter((word) => word.confidence < LOW_CONFIDENCE).length;
+                        return (
+                            <div key={image.url} className="space-y-2">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <p className="text-sm font-medium text-slate-900">Image {index + 1}</p>
+                                    <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${confidenceClass(result.confidence)}`}>
+                                        {result.confidence}% confidence
+                                    </span>
+                                    {lowCount > 0 && (
+                                        <span className="text-xs text-slate-500">
+                                            {lowCount} word{lowCount !== 1 ? "s" : ""} to check
+                                        </span>
+                                    )}
+                                </div>
+                                {result.text.length < MIN_TEXT_LENGTH ? (
+                                    <p className="text-sm text-slate-500">
+                                        No readable text found. This image will be skipped.
+                                    </p>
+                                ) : result.lines.length === 0 ? (
+                                    <p dir="auto" className="whitespace-pre-wrap text-sm text-slate-800">{result.text}</p>
+                                ) : (
+                                    <div dir="auto" className="max-h-72 overflow-y-auto rounded-md border border-slate-200 p-3 text-sm leading-7 text-slate-800">
+                                        {result.lines.map((words, lineIndex) =>
+                                            words.length === 0 ? (
+                                                <div key={lineIndex} className="h-3" />
+                                            ) : (
+                                                <div key={lineIndex} dir="auto">
+                                                    {words.map((word, wordIndex) => {
+                                                        const key = `${lineIndex}:${wordIndex}`;
+                                                        if (word.confidence >= LOW_CONFIDENCE) {
+                                                            return <span key={key}>{word.text} </span>;
+                                                        }
+                                                        const value = image.corrections[key] ?? word.text;
+                                                        return (
+                                                            <span key={key}>
+                                                                <input
+                                                                    type="text"
+                                                                    value={value}
+                                                                    onChange={(e) =>
+                                                                        updateImage(index, {
+                                                                            corrections: { ...image.corrections, [key]: e.target.value },
+                                                                        })
+                                                                    }
+                                                                    size={Math.max(value.length, 2)}
+                                                                    dir="auto"
+                                                                    title={`${word.confidence}% confidence`}
+                                                                    aria-label={`Check word: ${word.text}`}
+                                                                    className="rounded bg-amber-100 px-1 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                                                                />{" "}
+                                                            </span>
+                                                        );
+                                                    })}
+                                                </div>
+                                            )
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <p className="text-xs text-slate-500">
+                            Highlighted words were read with less than {LOW_CONFIDENCE}% confidence. Fix any that are wrong.
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                type="button"
+                                onClick={() => setPhase("reviewing")}
+                                className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+                            >
+                                Back
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleInsert}
+                                disabled={disabled}
+                                className="rounded-md bg-sky-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-sky-700 disabled:opacity-50"
+                            >
+                                Insert Text
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
 
             {/* Processing Indicator */}
-            {isProcessing && (
+            {isBusy && (
                 <div className="space-y-2">
                     <div className="flex items-center gap-3">
                         <div className="flex-1 h-2 bg-slate-200 rounded-full overflow-hidden">
                             <div
                                 className="h-full bg-gradient-to-r from-sky-500 to-sky-600 transition-all duration-300"
-                                style={{ width: `${progress}%` }}
+                                style={{ width: `${shownProgress}%` }}
                             />
                         </div>
-                        <span className="text-xs font-medium text-slate-600">{progress}%</span>
+                        <span className="text-xs font-medium text-slate-600">{shownProgress}%</span>
                     </div>
                     <div className="flex items-center gap-2 text-sm text-slate-600">
                         <svg
@@ -179,13 +573,40 @@ export default function OCRUploader({ onTextExtracted, disabled = false }: OCRUp
                                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                             />
                         </svg>
-                        <span>Extracting text from image...</span>
+                        <span>{phase === "preparing" ? "Cleaning up image..." : "Extracting text from image..."}</span>
+                        {phase === "reading" && (
+                            <button
+                                type="button"
+                                onClick={() => abortRef.current?.abort()}
+                                className="ml-auto text-xs font-medium text-slate-600 hover:text-slate-800"
+                            >
+                                Cancel
+                            </button>
+                        )}
                     </div>
+                    {phase === "reading" && images.length > 1 && (
+                        <ul className="grid gap-1 sm:grid-cols-2">
+                            {images.map((image, index) => (
+                                <li key={image.url} className="flex items-center gap-2 text-xs text-slate-600">
+                                    <span className="w-16 shrink-0">Image {index + 1}</span>
+                                    <div className="flex-1 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                                        <div
+                                            className="h-full bg-sky-500 transition-all duration-300"
+                                            style={{ width: `${Math.round((pageProgress[index] ?? 0) * 100)}%` }}
+                                        />
+                                    </div>
+                                    <span className="w-9 text-right">
+                                        {(pageProgress[index] ?? 0) >= 1 ? "Done" : `${Math.round((pageProgress[index] ?? 0) * 100)}%`}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </div>
             )}
 
             {/* Error Display */}
-            {error && !isProcessing && (
+            {error && !isBusy && (
                 <div className="flex items-start gap-2 p-3 rounded-lg bg-rose-50 border border-rose-200">
                     <svg
                         className="h-5 w-5 text-rose-600 mt-0.5 flex-shrink-0"
@@ -205,9 +626,10 @@ export default function OCRUploader({ onTextExtracted, disabled = false }: OCRUp
             )}
 
             {/* Help Text */}
-            {!isProcessing && !error && (
+            {phase === "idle" && !error && (
                 <p className="text-xs text-slate-500">
                     Supported formats: PNG, JPG, JPEG • Multiple images supported
+                    {detectedLanguages && ` • Last upload read as ${describeOcrLanguages(detectedLanguages)}`}
                 </p>
             )}
         </div>
@@ -1,6 +1,8 @@
 "use client";
 
+import Link from "next/link";
 import { useState, useEffect } from "react";
+import type { PresetToolType } from "@/lib/presets";
 
 interface Preset {
     id: number;
@@ -11,7 +13,7 @@ interface Preset {
 }
 
 interface PresetManagerProps {
-    toolType: "mcq" | "flashcard" | "format" | "concept-booster";
+    toolType: PresetToolType;
     currentSettings: Record<string, any>;
     onLoadPreset: (settings: Record<string, any>) => void;
     disabled?: boolean;
@@ -28,6 +30,9 @@ export default function PresetManager({
     const [showSaveDialog, setShowSaveDialog] = useState(false);
     const [presetName, setPresetName] = useState("");
     const [error, setError] = useState<string | null>(null);
+    const [renamingId, setRenamingId] = useState<number | null>(null);
+    const [renameValue, setRenameValue] = useState("");
+    const [signedOut, setSignedOut] = useState(false);
 
     useEffect(() => {
         fetchPresets();
@@ -36,6 +41,7 @@ export default function PresetManager({
     const fetchPresets = async () => {
         try {
             const res = await fetch(`/api/presets?toolType=${toolType}`);
+            setSignedOut(res.status === 401);
             if (res.ok) {
                 const data = await res.json();
                 setPresets(data.presets || []);
@@ -89,6 +95,50 @@ export default function PresetManager({
         }
     };
 
+    const updatePreset = async (presetId: number, changes: { name?: string; settings?: PresetManagerProps["currentSettings"] }) => {
+        setError(null);
+
+        try {
+            const res = await fetch(`/api/presets?id=${presetId}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(changes),
+            });
+
+            if (res.ok) {
+                await fetchPresets();
+                return true;
+            }
+
+            const data = await res.json();
+            setError(data.error || "Failed to update preset");
+        } catch (err) {
+            console.error("Error updating preset:", err);
+            setError("Failed to update preset");
+        }
+        return false;
+    };
+
+    const handleRenamePreset = async (presetId: number) => {
+        if (!renameValue.trim()) {
+            setError("Please enter a preset name");
+            return;
+        }
+
+        if (await updatePreset(presetId, { name: renameValue.trim() })) {
+            setRenamingId(null);
+            setRenameValue("");
+        }
+    };
+
+    const handleOverwritePreset = async (preset: Preset) => {
+        if (!confirm(`Replace the settings saved in "${preset.name}" with your current settings?`)) {
+            return;
+        }
+
+        await updatePreset(preset.id, { settings: currentSettings });
+    };
+
     const handleDeletePreset = async (presetId: number) => {
         if (!confirm("Are you sure you want to delete this preset?")) {
             return;
@@ -107,6 +157,19 @@ export default function PresetManager({
         }
     };
 
+    if (signedOut) {
+        return (
+            <div className="mb-6">
+                <p className="text-sm text-slate-600">
+                    <Link href="/signin" className="font-medium text-sky-600 hover:text-sky-700">
+                        Sign in
+                    </Link>{" "}
+                    to save your settings as presets.
+                </p>
+            </div>
+        );
+    }
+
     if (presets.length === 0 && !showSaveDialog) {
         return (
             <div className="mb-6">
@@ -221,35 +284,93 @@ export default function PresetManager({
                 </div>
             )}
 
+            {error && !showSaveDialog && (
+                <p className="mb-3 text-xs text-rose-600">{error}</p>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
                 {presets.map((preset) => (
                     <div
                         key={preset.id}
                         className="group p-3 bg-white border border-slate-200 rounded-lg shadow-sm hover:shadow-md transition"
                     >
-                        <div className="flex items-start justify-between mb-2">
-                            <h4 className="text-sm font-medium text-slate-900 truncate flex-1">
-                                {preset.name}
-                            </h4>
+                        {renamingId === preset.id ? (
+                            <div className="flex gap-1 mb-2">
+                                <input
+                                    type="text"
+                                    value={renameValue}
+                                    onChange={(e) => setRenameValue(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") {
+                                            e.preventDefault();
+                                            handleRenamePreset(preset.id);
+                                        } else if (e.key === "Escape") {
+                                            setRenamingId(null);
+                                        }
+                                    }}
+                                    autoFocus
+                                    className="flex-1 min-w-0 rounded-md border border-slate-300 px-2 py-1 text-sm focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/20"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => handleRenamePreset(preset.id)}
+                                    className="px-2 py-1 text-xs font-medium text-white bg-sky-600 rounded-md hover:bg-sky-700"
+                                >
+                                    Save
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="flex items-start justify-between mb-2">
+                                <h4 className="text-sm font-medium text-slate-900 truncate flex-1">
+                                    {preset.name}
+                                </h4>
+                                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition">
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            setRenamingId(preset.id);
+                                            setRenameValue(preset.name);
+                                            setError(null);
+                                        }}
+                                        className="text-slate-400 hover:text-sky-600"
+                                        title="Rename preset"
+                                    >
+                                        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                                        </svg>
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleDeletePreset(preset.id)}
+                                        className="text-slate-400 hover:text-rose-600"
+                                        title="Delete preset"
+                                    >
+                                        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                        </svg>
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                        <div className="flex gap-2">
                             <button
                                 type="button"
-                                onClick={() => handleDeletePreset(preset.id)}
-                                className="opacity-0 group-hover:opacity-100 transition text-slate-400 hover:text-rose-600"
-                                title="Delete preset"
+                                onClick={() => handleLoadPreset(preset)}
+                                disabled={disabled}
+                                className="flex-1 px-3 py-1.5 text-xs font-medium text-sky-700 bg-sky-50 border border-sky-200 rounded-md hover:bg-sky-100 transition disabled:opacity-50 disabled:cursor-not-allowed"
                             >
-                                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                </svg>
+                                Load Settings
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => handleOverwritePreset(preset)}
+                                disabled={disabled}
+                                className="px-3 py-1.5 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Replace this preset with the current settings"
+                            >
+                                Update
                             </button>
                         </div>
-                        <button
-                            type="button"
-                            onClick={() => handleLoadPreset(preset)}
-                            disabled={disabled}
-                            className="w-full px-3 py-1.5 text-xs font-medium text-sky-700 bg-sky-50 border border-sky-200 rounded-md hover:bg-sky-100 transition disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                            Load Settings
-                        </button>
                     </div>
                 ))}
             </div>
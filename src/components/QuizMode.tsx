@@ -0,0 +1,416 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { MCQ } from "@/components/MCQList";
+import MathText from "@/components/MathText";
+import QuizResults from "@/components/QuizResults";
+import {
+  DEFAULT_QUIZ_SETTINGS,
+  QUIZ_TIME_LIMITS,
+  buildQuiz,
+  formatDuration,
+  scoreAnswers,
+  type QuizAnswer,
+  type QuizAttempt,
+  type QuizQuestion,
+  type QuizSettings,
+} from "@/lib/quiz";
+
+interface QuizModeProps {
+  mcqs: MCQ[];
+  title?: string;
+  onExit: () => void;
+}
+
+type Phase = "setup" | "taking" | "results";
+type SaveState = "saving" | "saved" | "signed-out" | "error";
+
+// Save a finished attempt to history (signed-in users only)
+async function saveAttempt(attempt: QuizAttempt): Promise<SaveState> {
+  try {
+    const res = await fetch("/api/quiz-attempts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        title: attempt.title,
+        settings: attempt.settings,
+        answers: attempt.answers,
+        durationSeconds: attempt.durationSeconds,
+        timedOut: attempt.timedOut,
+      }),
+    });
+    if (res.status === 401) return "signed-out";
+    return res.ok ? "saved" : "error";
+  } catch (err) {
+    console.error("Failed to save quiz attempt:", err);
+    return "error";
+  }
+}
+
+export default function QuizMode({ mcqs, title, onExit }: QuizModeProps) {
+  const [phase, setPhase] = useState<Phase>("setup");
+  const [settings, setSettings] = useState<QuizSettings>(DEFAULT_QUIZ_SETTINGS);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [current, setCurrent] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>("saving");
+
+  // Read by the timer, which must not restart on every answer
+  const answersRef = useRef<Record<number, string>>({});
+  const startedAtRef = useRef(0);
+
+  const timeLimitSeconds = settings.timeLimitMinutes ? settings.timeLimitMinutes * 60 : null;
+
+  const finish = useCallback(
+    (timedOut: boolean) => {
+      const given = answersRef.current;
+      const answered: QuizAnswer[] = questions.map((question, index) => ({
+        ...question,
+        selected: given[index] ?? null,
+      }));
+      const duration = Math.round((Date.now() - startedAtRef.current) / 1000);
+      const result: QuizAttempt = {
+        title,
+        settings,
+        answers: answered,
+        score: scoreAnswers(answered),
+        total: answered.length,
+        durationSeconds: timeLimitSeconds ? Math.min(duration, timeLimitSeconds) : duration,
+        timedOut,
+        completedAt: new Date().toISOString(),
+      };
+
+      setAttempt(result);
+      setPhase("results");
+      setSaveState("saving");
+      window.scrollTo({ top: 0, behavior: "smooth" });
+      saveAttempt(result).then(setSaveState);
+    },
+    [questions, settings, timeLimitSeconds, title],
+  );
+
+  // Timer: counts up, and submits automatically when the time limit is reached
+  useEffect(() => {
+    if (phase !== "taking") return;
+
+    const timer = setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      setElapsed(seconds);
+      if (timeLimitSeconds && seconds >= timeLimitSeconds) {
+        clearInterval(timer);
+        finish(true);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [phase, timeLimitSeconds, finish]);
+
+  const handleStart = () => {
+    answersRef.current = {};
+    startedAtRef.current = Date.now();
+    setQuestions(buildQuiz(mcqs, settings));
+    setAnswers({});
+    setCurrent(0);
+    setElapsed(0);
+    setAttempt(null);
+    setPhase("taking");
+  };
+
+  const handleSelect = (index: number, letter: string) => {
+    const next = { ...answersRef.current, [index]: letter };
+    answersRef.current = next;
+    setAnswers(next);
+  };
+
+  const handleSubmit = () => {
+    const unanswered = questions.length - Object.keys(answersRef.current).length;
+    if (
+      unanswered > 0 &&
+      !confirm(`You have ${unanswered} unanswered question${unanswered !== 1 ? "s" : ""}. Submit anyway?`)
+    ) {
+      return;
+    }
+    finish(false);
+  };
+
+  // ==========================================================================
+  // Setup
+  // ==========================================================================
+  if (phase === "setup") {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Take the quiz</h3>
+          <p className="text-sm text-slate-600">
+            {mcqs.length} question{mcqs.length !== 1 ? "s" : ""}
+            {title ? ` from "${title}"` : ""}. Answers and explanations are shown when you finish.
+          </p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="quiz-layout" className="block text-sm font-medium text-slate-700 mb-1">
+              Layout
+            </label>
+            <select
+              id="quiz-layout"
+              value={settings.layout}
+              onChange={(e) => setSettings({ ...settings, layout: e.target.value as QuizSettings["layout"] })}
+              className="w-full rounded-md border border-slate-300 px-4 py-2.5 text-sm text-slate-900 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+            >
+              <option value="one-by-one">One question at a time</option>
+              <option value="single-page">All questions on one page</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="quiz-timer" className="block text-sm font-medium text-slate-700 mb-1">
+              Timer
+            </label>
+            <select
+              id="quiz-timer"
+              value={settings.timeLimitMinutes ?? ""}
+              onChange={(e) =>
+                setSettings({
+                  ...settings,
+                  timeLimitMinutes: e.target.value ? parseInt(e.target.value) : null,
+                })
+              }
+              className="w-full rounded-md border border-slate-300 px-4 py-2.5 text-sm text-slate-900 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+            >
+              <option value="">No time limit</option>
+              {QUIZ_TIME_LIMITS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} minutes
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={settings.shuffleQuestions}
+              onChange={(e) => setSettings({ ...settings, shuffleQuestions: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-300 text-purple-600 focus:ring-purple-500"
+            />
+            Shuffle question order
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={settings.shuffleOptions}
+              onChange={(e) => setSettings({ ...settings, shuffleOptions: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-300 text-purple-600 focus:ring-purple-500"
+            />
+            Shuffle answer options
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={handleStart}
+            className="rounded-lg bg-gradient-to-r from-purple-600 to-purple-700 px-6 py-3 text-sm font-semibold text-white shadow-lg transition hover:opacity-90"
+          >
+            Start Quiz
+          </button>
+          <button
+            onClick={onExit}
+            className="rounded-lg border border-slate-300 bg-white px-6 py-3 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+          >
+            Back to Questions
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // ==========================================================================
+  // Results
+  // ==========================================================================
+  if (phase === "results" && attempt) {
+    return (
+      <QuizResults
+        attempt={attempt}
+        actions={
+          <div className="space-y-3">
+            <p className="text-xs text-slate-500" aria-live="polite">
+              {saveState === "saving" && "Saving attempt..."}
+              {saveState === "saved" && (
+                <>
+                  Saved - review it any time in{" "}
+                  <Link href="/history" className="font-medium text-purple-600 hover:text-purple-700">
+                    History
+                  </Link>
+                  .
+                </>
+              )}
+              {saveState === "signed-out" && (
+                <>
+                  <Link href="/signin" className="font-medium text-purple-600 hover:text-purple-700">
+                    Sign in
+                  </Link>{" "}
+                  to save your attempts for later review.
+                </>
+              )}
+              {saveState === "error" && "This attempt could not be saved."}
+            </p>
+            <div className="flex flex-wrap justify-center gap-3">
+              <button
+                onClick={handleStart}
+                className="rounded-lg bg-gradient-to-r from-purple-600 to-purple-700 px-5 py-2.5 text-sm font-semibold text-white shadow transition hover:opacity-90"
+              >
+                Retake Quiz
+              </button>
+              <button
+                onClick={() => setPhase("setup")}
+                className="rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+              >
+                Change Settings
+              </button>
+              <button
+                onClick={onExit}
+                className="rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+              >
+                Back to Questions
+              </button>
+            </div>
+          </div>
+        }
+      />
+    );
+  }
+
+  // ==========================================================================
+  // Taking the quiz
+  // ==========================================================================
+  const answeredCount = Object.keys(answers).length;
+  const remaining = timeLimitSeconds ? Math.max(0, timeLimitSeconds - elapsed) : null;
+
+  const renderQuestion = (question: QuizQuestion, index: number) => (
+    <fieldset key={`${question.id}-${index}`} className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm">
+      <legend className="sr-only">Question {index + 1}</legend>
+      <h4 className="mb-4 text-base font-semibold text-slate-900">
+        {index + 1}. <MathText text={question.question} />
+      </h4>
+      <div className="space-y-2">
+        {question.options.map((option, optIndex) => {
+          const letter = String.fromCharCode(65 + optIndex);
+          const isSelected = answers[index] === letter;
+          return (
+            <label
+              key={letter}
+              className={`flex cursor-pointer items-start gap-3 rounded-md border px-4 py-2.5 text-sm transition ${
+                isSelected
+                  ? "border-purple-500 bg-purple-50 text-purple-900"
+                  : "border-slate-200 bg-slate-50 text-slate-700 hover:border-purple-300"
+              }`}
+            >
+              <input
+                type="radio"
+                name={`quiz-question-${index}`}
+                value={letter}
+                checked={isSelected}
+                onChange={() => handleSelect(index, letter)}
+                className="mt-0.5 h-4 w-4 text-purple-600 focus:ring-purple-500"
+              />
+              <span>
+                <span className="font-medium">{letter}.</span> <MathText text={option} />
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Progress bar */}
+      <div className="flex flex-wrap items-center justify-between gap-4 rounded-lg border border-slate-200 bg-white p-4 shadow-sm">
+        <p className="text-sm font-medium text-slate-700">
+          {answeredCount} of {questions.length} answered
+        </p>
+        <p
+          className={`text-sm font-semibold tabular-nums ${
+            remaining !== null && remaining <= 60 ? "text-rose-600" : "text-slate-700"
+          }`}
+          aria-live={remaining !== null && remaining <= 60 ? "polite" : "off"}
+        >
+          {remaining !== null ? `Time left ${formatDuration(remaining)}` : `Time ${formatDuration(elapsed)}`}
+        </p>
+      </div>
+
+      {settings.layout === "single-page" ? (
+        <div className="space-y-4">{questions.map(renderQuestion)}</div>
+      ) : (
+        <>
+          {questions[current] && renderQuestion(questions[current], current)}
+
+          {/* Question navigator */}
+          <div className="flex flex-wrap gap-2" aria-label="Jump to question">
+            {questions.map((question, index) => (
+              <button
+                key={`${question.id}-${index}`}
+                onClick={() => setCurrent(index)}
+                aria-current={index === current ? "step" : undefined}
+                className={`h-8 w-8 rounded-md text-xs font-semibold transition ${
+                  index === current
+                    ? "bg-purple-600 text-white"
+                    : answers[index]
+                      ? "bg-purple-100 text-purple-800"
+                      : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+                }`}
+              >
+                {index + 1}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button
+          onClick={onExit}
+          className="rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50"
+        >
+          Quit
+        </button>
+        <div className="flex gap-3">
+          {settings.layout === "one-by-one" && (
+            <>
+              <button
+                onClick={() => setCurrent((index) => Math.max(0, index - 1))}
+                disabled={current === 0}
+                className="rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              {current < questions.length - 1 && (
+                <button
+                  onClick={() => setCurrent((index) => Math.min(questions.length - 1, index + 1))}
+                  className="rounded-lg border border-purple-300 bg-purple-50 px-5 py-2.5 text-sm font-medium text-purple-700 shadow-sm transition hover:bg-purple-100"
+                >
+                  Next
+                </button>
+              )}
+            </>
+          )}
+          {(settings.layout === "single-page" || current === questions.length - 1) && (
+            <button
+              onClick={handleSubmit}
+              className="rounded-lg bg-gradient-to-r from-purple-600 to-purple-700 px-5 py-2.5 text-sm font-semibold text-white shadow transition hover:opacity-90"
+            >
+              Submit Quiz
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
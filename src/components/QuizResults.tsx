@@ -0,0 +1,111 @@
+"use client";
+
+import MathText from "@/components/MathText";
+import { formatDuration, type QuizAttempt } from "@/lib/quiz";
+
+interface QuizResultsProps {
+  attempt: QuizAttempt;
+  // Shown above the per-question review, e.g. save status and buttons
+  actions?: React.ReactNode;
+}
+
+function scoreColor(percent: number): string {
+  if (percent >= 80) return "text-green-600";
+  if (percent >= 50) return "text-amber-600";
+  return "text-rose-600";
+}
+
+export default function QuizResults({ attempt, actions }: QuizResultsProps) {
+  const percent = attempt.total > 0 ? Math.round((attempt.score / attempt.total) * 100) : 0;
+  const unanswered = attempt.answers.filter((answer) => answer.selected === null).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Score */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm text-center">
+        {attempt.title && (
+          <p className="text-sm font-medium text-slate-500 mb-1">{attempt.title}</p>
+        )}
+        <p className={`text-5xl font-bold ${scoreColor(percent)}`}>{percent}%</p>
+        <p className="mt-2 text-base font-semibold text-slate-900">
+          {attempt.score} of {attempt.total} correct
+        </p>
+        <p className="mt-1 text-sm text-slate-500">
+          Time: {formatDuration(attempt.durationSeconds)}
+          {unanswered > 0 && ` • ${unanswered} unanswered`}
+        </p>
+        {attempt.timedOut && (
+          <p className="mt-3 inline-block rounded-full bg-amber-50 border border-amber-200 px-3 py-1 text-xs font-medium text-amber-800">
+            Time ran out - unanswered questions were marked wrong
+          </p>
+        )}
+        {actions && <div className="mt-5">{actions}</div>}
+      </div>
+
+      {/* Per-question review */}
+      <div className="space-y-4">
+        {attempt.answers.map((answer, index) => {
+          const isCorrect = answer.selected === answer.correct;
+          return (
+            <div
+              key={`${answer.id}-${index}`}
+              className={`rounded-lg border bg-white p-6 shadow-sm ${
+                isCorrect ? "border-green-200" : "border-rose-200"
+              }`}
+            >
+              <div className="mb-4 flex items-start justify-between gap-4">
+                <h4 className="flex-1 text-base font-semibold text-slate-900">
+                  {index + 1}. <MathText text={answer.question} />
+                </h4>
+                <span
+                  className={`flex-shrink-0 rounded-full px-3 py-1 text-xs font-semibold ${
+                    isCorrect
+                      ? "bg-green-50 text-green-700"
+                      : answer.selected === null
+                        ? "bg-slate-100 text-slate-600"
+                        : "bg-rose-50 text-rose-700"
+                  }`}
+                >
+                  {isCorrect ? "Correct" : answer.selected === null ? "Unanswered" : "Incorrect"}
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                {answer.options.map((option, optIndex) => {
+                  const letter = String.fromCharCode(65 + optIndex);
+                  const isAnswer = letter === answer.correct;
+                  const isPicked = letter === answer.selected;
+                  return (
+                    <div
+                      key={letter}
+                      className={`flex items-start gap-3 rounded-md border p-3 ${
+                        isAnswer
+                          ? "border-green-300 bg-green-50"
+                          : isPicked
+                            ? "border-rose-300 bg-rose-50"
+                            : "border-slate-200 bg-slate-50"
+                      }`}
+                    >
+                      <span className="flex-shrink-0 font-semibold text-slate-700">{letter}.</span>
+                      <span className="flex-1 text-slate-700"><MathText text={option} /></span>
+                      {isPicked && (
+                        <span className="flex-shrink-0 text-xs font-medium text-slate-500">Your answer</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {answer.explanation && (
+                <div className="mt-4 rounded-md bg-slate-50 p-4">
+                  <p className="text-sm font-medium text-slate-900 mb-1">Explanation:</p>
+                  <p className="text-sm text-slate-600"><MathText text={answer.explanation} /></p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Tracks how long the user has to wait after a 429 response.
+ *
+ * Call `throttle(res)` with any failed response: it returns true (and starts
+ * the countdown from the Retry-After header) when the request was rate limited.
+ */
+export function useRateLimitCountdown() {
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (retryAt === null) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) {
+        setRetryAt(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const throttle = useCallback((res: Response): boolean => {
+    if (res.status !== 429) return false;
+
+    const seconds = parseInt(res.headers.get("Retry-After") || "") || 60;
+    const current = Date.now();
+    setNow(current);
+    setRetryAt(current + seconds * 1000);
+    return true;
+  }, []);
+
+  const secondsLeft = retryAt === null ? 0 : Math.max(0, Math.ceil((retryAt - now) / 1000));
+
+  return { secondsLeft, throttle };
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+export default function RateLimitNotice({
+  secondsLeft,
+  className = "mt-6",
+}: {
+  secondsLeft: number;
+  className?: string;
+}) {
+  if (secondsLeft <= 0) return null;
+
+  return (
+    <div
+      className={`${className} rounded-xl border-2 border-amber-200 bg-amber-50/50 p-4`}
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-center gap-2">
+        <svg
+          className="h-5 w-5 text-amber-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+        <p className="text-sm font-medium text-amber-800">
+          You&apos;re sending requests too quickly. You can try again in{" "}
+          <span className="tabular-nums">{formatWait(secondsLeft)}</span>.
+        </p>
+      </div>
+    </div>
+  );
+}
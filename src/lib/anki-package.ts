@@ -0,0 +1,247 @@
+/**
+ * Anki package (.apkg) builder
+ *
+ * An .apkg is a zip holding `collection.anki2` (a SQLite database in Anki's
+ * schema 11 layout) and a `media` manifest. The collection is written with
+ * sql.js and contains one "BrainBolt Basic" note type (Front/Back) and one
+ * deck. Each card's type is added as a tag.
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ */
+
+import { createHash } from "crypto";
+import initSqlJs from "sql.js";
+import { zipSync, strToU8 } from "fflate";
+import type { Flashcard } from "@/components/FlashcardDisplay";
+import { cardTags } from "@/lib/flashcard-export";
+
+// Fixed so that repeated imports reuse the same note type instead of adding copies
+const MODEL_ID = 1733650000000;
+const MODEL_NAME = "BrainBolt Basic";
+const FIELD_SEPARATOR = "\x1f";
+
+const MODEL_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}`;
+
+const SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// ============================================================================
+// Collection JSON
+// ============================================================================
+
+function buildModel(deckId: number, modSeconds: number) {
+  return {
+    [MODEL_ID]: {
+      id: MODEL_ID,
+      name: MODEL_NAME,
+      type: 0,
+      mod: modSeconds,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tags: [],
+      vers: [],
+      flds: ["Front", "Back"].map((name, ord) => ({
+        name,
+        ord,
+        sticky: false,
+        rtl: false,
+        font: "Arial",
+        size: 20,
+        media: [],
+      })),
+      tmpls: [
+        {
+          name: "Card 1",
+          ord: 0,
+          qfmt: "{{Front}}",
+          afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+          did: null,
+          bqfmt: "",
+          bafmt: "",
+        },
+      ],
+      css: MODEL_CSS,
+      latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+      latexPost: "\\end{document}",
+      req: [[0, "any", [0]]],
+    },
+  };
+}
+
+function buildDeck(id: number, name: string, modSeconds: number) {
+  return {
+    id,
+    name,
+    desc: "Exported from BrainBolt",
+    mod: modSeconds,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+    rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+  },
+};
+
+const COLLECTION_CONFIG = {
+  nextPos: 1,
+  estTimes: true,
+  activeDecks: [1],
+  sortType: "noteFld",
+  timeLim: 0,
+  sortBackwards: false,
+  addToCur: true,
+  curDeck: 1,
+  newSpread: 0,
+  dueCounts: true,
+  curModel: MODEL_ID,
+  collapseTime: 1200,
+};
+
+// ============================================================================
+// Notes
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+function sha1(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the stripped sort field
+function fieldChecksum(text: string): number {
+  return parseInt(sha1(text).slice(0, 8), 16);
+}
+
+// Stable per card content, so re-importing the same set updates notes in place
+function noteGuid(card: Flashcard): string {
+  return createHash("sha1").update(`brainbolt:${card.front}:${card.back}`).digest("base64").slice(0, 10);
+}
+
+/**
+ * Build an .apkg file containing the flashcards as a single deck
+ */
+export async function buildAnkiPackage(flashcards: Flashcard[], deckName: string): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    const nowMs = Date.now();
+    const nowSeconds = Math.floor(nowMs / 1000);
+    const deckId = nowMs;
+
+    db.exec(SCHEMA);
+    db.run(
+      "INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')",
+      [
+        nowSeconds,
+        nowMs,
+        nowMs,
+        JSON.stringify(COLLECTION_CONFIG),
+        JSON.stringify(buildModel(deckId, nowSeconds)),
+        JSON.stringify({
+          1: buildDeck(1, "Default", 0),
+          [deckId]: buildDeck(deckId, deckName, nowSeconds),
+        }),
+        JSON.stringify(DECK_CONFIG),
+      ],
+    );
+
+    const insertNote = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')");
+    const insertCard = db.prepare(
+      "INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')",
+    );
+
+    flashcards.forEach((card, index) => {
+      // Note and card ids are millisecond timestamps in Anki; offset to keep them unique
+      const noteId = nowMs + index;
+      insertNote.run([
+        noteId,
+        noteGuid(card),
+        MODEL_ID,
+        nowSeconds,
+        ` ${cardTags(card).join(" ")} `,
+        [escapeHtml(card.front), escapeHtml(card.back)].join(FIELD_SEPARATOR),
+        card.front,
+        fieldChecksum(card.front),
+      ]);
+      // New cards are shown in `due` order
+      insertCard.run([noteId, noteId, deckId, nowSeconds, index + 1]);
+    });
+
+    insertNote.free();
+    insertCard.free();
+
+    return zipSync({
+      "collection.anki2": db.export(),
+      media: strToU8("{}"),
+    });
+  } finally {
+    db.close();
+  }
+}
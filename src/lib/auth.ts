@@ -0,0 +1,162 @@
+/**
+ * Email/password authentication and cookie sessions
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ * - Passwords are hashed with bcrypt before they are stored.
+ * - The session cookie holds a random token; only its SHA-256 hash is stored
+ *   in the Session table, so a leaked database cannot be used to sign in.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+// SECURITY: Ensure this code only runs server-side
+if (typeof window !== "undefined") {
+  throw new Error("Authentication helpers cannot be used from client-side code.");
+}
+
+export const SESSION_COOKIE_NAME = "brainbolt_session";
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const BCRYPT_ROUNDS = 12;
+// bcrypt hash of a random password nobody knows, at BCRYPT_ROUNDS
+const DUMMY_PASSWORD_HASH = "$2b$12$LY1UUd48A00KUspCMD/bVOXEpGiEcJ/tFh.kWVlf4IzP8Sa./KhX2";
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+export const MAX_NAME_LENGTH = 60;
+const MAX_EMAIL_LENGTH = 254;
+
+export interface SessionUser {
+  id: string;
+  email: string | null;
+  name: string | null;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function validateCredentials(email: unknown, password: unknown): {
+  valid: boolean;
+  error?: string;
+} {
+  if (typeof email !== "string" || !email.trim()) {
+    return { valid: false, error: "Email is required." };
+  }
+
+  const normalized = normalizeEmail(email);
+  if (normalized.length > MAX_EMAIL_LENGTH || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+    return { valid: false, error: "Please enter a valid email address." };
+  }
+
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return { valid: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` };
+  }
+
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return { valid: false, error: `Password must be at most ${MAX_PASSWORD_LENGTH} characters.` };
+  }
+
+  return { valid: true };
+}
+
+// ============================================================================
+// Passwords
+// ============================================================================
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Check a password against a stored hash. Accounts without a password
+ * (or unknown emails) are compared against a dummy hash, so a failed
+ * sign-in takes as long whether or not the email is registered.
+ */
+export async function verifyPassword(password: string, hash: string | null | undefined): Promise<boolean> {
+  const matches = await bcrypt.compare(password, hash || DUMMY_PASSWORD_HASH);
+  return Boolean(hash) && matches;
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create a session for a user and attach the cookie to the response
+ */
+export async function startSession(userId: string, res: NextResponse): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const expires = new Date(Date.now() + SESSION_MAX_AGE_MS);
+
+  await prisma.session.create({
+    data: {
+      sessionToken: hashToken(token),
+      userId,
+      expires,
+    },
+  });
+
+  res.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    expires,
+  });
+}
+
+/**
+ * Delete the request's session (if any) and clear the cookie on the response
+ */
+export async function endSession(req: NextRequest, res: NextResponse): Promise<void> {
+  const token = req.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (token) {
+    await prisma.session.deleteMany({
+      where: { sessionToken: hashToken(token) },
+    });
+  }
+
+  res.cookies.set(SESSION_COOKIE_NAME, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
+
+/**
+ * Resolve the signed-in user from the session cookie
+ *
+ * @returns The user, or null when there is no valid session
+ */
+export async function getSessionUser(req: NextRequest): Promise<SessionUser | null> {
+  const token = req.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { sessionToken: hashToken(token) },
+    include: { user: { select: { id: true, email: true, name: true } } },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  if (session.expires.getTime() < Date.now()) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return null;
+  }
+
+  return session.user;
+}
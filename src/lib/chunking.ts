@@ -0,0 +1,244 @@
+/**
+ * Map-reduce helpers for source material longer than one model call
+ *
+ * Long text is split into chunks at headings, page/slide markers and
+ * paragraphs, each chunk is generated separately with its share of the
+ * requested count, and the merged results are de-duplicated. Used by the
+ * MCQ, flashcard and format routes; the progress events they stream are
+ * shown by ChunkProgressList.
+ */
+
+export type ChunkStatus = "generating" | "done" | "skipped";
+
+export interface ChunkProgress {
+  // 1-based chunk number
+  chunk: number;
+  total: number;
+  status: ChunkStatus;
+  // Items produced by this chunk (0 while generating or when skipped)
+  items: number;
+}
+
+interface Block {
+  text: string;
+  // Block opens a new section (heading or page/slide marker)
+  section: boolean;
+}
+
+const SECTION_START = /^(#{1,6}\s|--- (Page|Slide) \d+ ---$)/;
+
+/**
+ * Split a block that is longer than `maxChars` at sentence ends, falling back
+ * to the last space before the limit for run-on text.
+ */
+function splitLongBlock(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    let rest = sentence;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(" ", maxChars);
+      const end = cut > maxChars / 2 ? cut : maxChars;
+      if (current) {
+        pieces.push(current);
+        current = "";
+      }
+      pieces.push(rest.slice(0, end).trim());
+      rest = rest.slice(end).trim();
+    }
+    if (!rest) continue;
+
+    if (current && current.length + 1 + rest.length > maxChars) {
+      pieces.push(current);
+      current = rest;
+    } else {
+      current = current ? `${current} ${rest}` : rest;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+function toBlocks(text: string, maxChars: number): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    const joined = paragraph.join("\n").trim();
+    paragraph = [];
+    if (!joined) return;
+    const section = SECTION_START.test(joined);
+    splitLongBlock(joined, maxChars).forEach((piece, index) => {
+      blocks.push({ text: piece, section: section && index === 0 });
+    });
+  };
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      flush();
+    } else if (SECTION_START.test(line.trim())) {
+      // A heading starts a new block even without a blank line before it
+      flush();
+      paragraph.push(line);
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Split text into chunks of at most `maxChars` characters.
+ *
+ * Chunks are sized evenly (a 25,000 character chapter with a 12,000 limit
+ * becomes three chunks of ~8,300, not 12,000 + 12,000 + 1,000) and prefer to
+ * end where a new section starts. Text that fits returns a single chunk.
+ */
+export function splitIntoChunks(text: string, maxChars: number): string[] {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) {
+    return trimmed ? [trimmed] : [];
+  }
+
+  const target = Math.ceil(trimmed.length / Math.ceil(trimmed.length / maxChars));
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const block of toBlocks(trimmed, maxChars)) {
+    const wouldExceed = current.length + 2 + block.text.length > maxChars;
+    const sectionBreak = block.section && current.length >= target * 0.6;
+    if (current && (wouldExceed || sectionBreak || current.length >= target)) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${block.text}` : block.text;
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Share `total` between chunks in proportion to their length (largest
+ * remainder method, so the shares always add up to `total`). A chunk can get
+ * 0 when there are more chunks than items requested.
+ */
+export function distributeCount(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  if (sum === 0 || weights.length === 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (weight / sum) * total);
+  const counts = exact.map(Math.floor);
+  let remaining = total - counts.reduce((acc, count) => acc + count, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    counts[index] += 1;
+    remaining -= 1;
+  }
+
+  return counts;
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "does", "do", "for", "from", "how", "in", "is",
+  "it", "its", "of", "on", "or", "that", "the", "this", "to", "was", "were", "what", "which",
+  "who", "why", "with",
+]);
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter((word) => word && !STOP_WORDS.has(word)),
+  );
+}
+
+/**
+ * Jaccard similarity of the content words of two strings (0-1)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  if (wordsA.size === 0 && wordsB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared += 1;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Drop items whose key is a near-duplicate of an earlier item's key.
+ * The first occurrence wins, so earlier chunks keep their questions.
+ */
+export function removeNearDuplicates<T>(
+  items: T[],
+  key: (item: T) => string,
+  threshold = 0.8,
+): T[] {
+  const kept: T[] = [];
+  const keptKeys: string[] = [];
+
+  for (const item of items) {
+    const itemKey = key(item);
+    if (keptKeys.some((existing) => textSimilarity(existing, itemKey) >= threshold)) {
+      continue;
+    }
+    kept.push(item);
+    keptKeys.push(itemKey);
+  }
+
+  return kept;
+}
+
+/**
+ * Run `generate` for each chunk in order, reporting progress as it goes.
+ * `generate` returns null to skip a chunk (e.g. the model found nothing to
+ * ask about in a table of contents); the result keeps one entry per chunk.
+ */
+export async function generateInChunks<T>(
+  chunks: string[],
+  generate: (chunk: string, index: number) => Promise<T[] | null>,
+  onProgress?: (progress: ChunkProgress) => void,
+): Promise<(T[] | null)[]> {
+  const results: (T[] | null)[] = [];
+
+  for (let index = 0; index < chunks.length; index++) {
+    onProgress?.({ chunk: index + 1, total: chunks.length, status: "generating", items: 0 });
+    const items = await generate(chunks[index], index);
+    results.push(items);
+    onProgress?.({
+      chunk: index + 1,
+      total: chunks.length,
+      status: items ? "done" : "skipped",
+      items: items?.length ?? 0,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Fold a progress event into the per-chunk list kept by the client.
+ * Chunks that have not started yet stay empty.
+ */
+export function applyChunkProgress(list: ChunkProgress[], progress: ChunkProgress): ChunkProgress[] {
+  const next = list.slice();
+  next[progress.chunk - 1] = progress;
+  return next;
+}
@@ -0,0 +1,202 @@
+/**
+ * Server-side persistence for Concept Booster sessions
+ *
+ * Sessions started while signed out have no owner and are reached by id
+ * only; the first signed-in visitor to continue one claims it.
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  CONTINUE_LEARNING_LIMIT,
+  type ConceptSessionDetail,
+  type ConceptSessionStep,
+  type ConceptSessionSummary,
+  type QuestionAnswer,
+} from "@/lib/concept-sessions";
+import type { ConceptBoosterStep } from "@/lib/structured-output";
+
+// Signed-out sessions untouched for this long are removed
+const ANONYMOUS_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface ConceptSessionRow {
+  id: string;
+  userId: string | null;
+  pathId: string | null;
+  nodeId: string | null;
+  topic: string;
+  learningLevel: string;
+  model: string;
+  currentStep: string;
+  diagnosticAnswers: string | null;
+  steps: string;
+  stepCount: number;
+  updatedAt: Date;
+}
+
+type ConceptSessionSummaryRow = Pick<
+  ConceptSessionRow,
+  "id" | "topic" | "learningLevel" | "currentStep" | "stepCount" | "updatedAt"
+>;
+
+function parseJson<T>(text: string | null, fallback: T): T {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function toSummary(row: ConceptSessionSummaryRow): ConceptSessionSummary {
+  return {
+    id: row.id,
+    topic: row.topic,
+    learningLevel: row.learningLevel,
+    currentStep: row.currentStep as ConceptBoosterStep,
+    stepCount: row.stepCount,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toDetail(row: ConceptSessionRow): ConceptSessionDetail {
+  const diagnosticAnswers = parseJson<QuestionAnswer[] | null>(row.diagnosticAnswers, null);
+  const steps = parseJson<ConceptSessionStep[]>(row.steps, []);
+
+  return {
+    ...toSummary(row),
+    model: row.model,
+    pathId: row.pathId,
+    nodeId: row.nodeId,
+    diagnosticAnswers: Array.isArray(diagnosticAnswers) ? diagnosticAnswers : null,
+    steps: Array.isArray(steps) ? steps : [],
+  };
+}
+
+/**
+ * Start a session with its first generated step. Sessions for a learning
+ * path node pass the path and node ids.
+ */
+export async function createConceptSession(
+  userId: string | null,
+  settings: { topic: string; learningLevel: string; model: string; pathId?: string; nodeId?: string },
+  first: ConceptSessionStep,
+): Promise<ConceptSessionDetail> {
+  // Housekeeping: nobody can list stale signed-out sessions any more
+  await prisma.conceptSession.deleteMany({
+    where: { userId: null, updatedAt: { lt: new Date(Date.now() - ANONYMOUS_SESSION_TTL_MS) } },
+  });
+
+  const row: ConceptSessionRow = await prisma.conceptSession.create({
+    data: {
+      userId,
+      pathId: settings.pathId,
+      nodeId: settings.nodeId,
+      topic: settings.topic,
+      learningLevel: settings.learningLevel,
+      model: settings.model,
+      currentStep: first.step,
+      steps: JSON.stringify([first]),
+      stepCount: 1,
+    },
+  });
+
+  return toDetail(row);
+}
+
+/**
+ * Load a session the caller may use, or null when it does not exist or
+ * belongs to another account
+ */
+export async function getConceptSession(
+  id: string,
+  userId: string | null,
+): Promise<ConceptSessionDetail | null> {
+  let row: ConceptSessionRow | null = await prisma.conceptSession.findUnique({ where: { id } });
+  if (!row || (row.userId && row.userId !== userId)) {
+    return null;
+  }
+
+  if (!row.userId && userId) {
+    row = await prisma.conceptSession.update({ where: { id }, data: { userId } });
+  }
+
+  return row ? toDetail(row) : null;
+}
+
+/**
+ * Append a generated step to a session, recording the diagnostic answers
+ * or the latest mastery score when the step produced them.
+ *
+ * @returns The updated session, or null when another request added a step
+ *   first (the caller's copy is stale)
+ */
+export async function appendConceptStep(
+  session: ConceptSessionDetail,
+  step: ConceptSessionStep,
+  updates: { diagnosticAnswers?: QuestionAnswer[]; mastery?: number } = {},
+): Promise<ConceptSessionDetail | null> {
+  const { diagnosticAnswers, mastery } = updates;
+  const steps = [...session.steps, step];
+
+  const result = await prisma.conceptSession.updateMany({
+    where: { id: session.id, stepCount: session.stepCount },
+    data: {
+      currentStep: step.step,
+      steps: JSON.stringify(steps),
+      stepCount: steps.length,
+      ...(diagnosticAnswers ? { diagnosticAnswers: JSON.stringify(diagnosticAnswers) } : {}),
+      ...(mastery !== undefined ? { mastery } : {}),
+    },
+  });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  return {
+    ...session,
+    currentStep: step.step,
+    stepCount: steps.length,
+    updatedAt: new Date().toISOString(),
+    diagnosticAnswers: diagnosticAnswers ?? session.diagnosticAnswers,
+    steps,
+  };
+}
+
+/**
+ * Most recently used sessions: the signed-in user's own plus any signed-out
+ * sessions this browser remembers
+ */
+export async function listConceptSessions(
+  userId: string | null,
+  ids: string[],
+): Promise<ConceptSessionSummary[]> {
+  const owners = [
+    ...(userId ? [{ userId }] : []),
+    ...(ids.length > 0 ? [{ id: { in: ids }, userId: null }] : []),
+  ];
+  if (owners.length === 0) {
+    return [];
+  }
+
+  const rows: ConceptSessionSummaryRow[] = await prisma.conceptSession.findMany({
+    where: { OR: owners },
+    orderBy: { updatedAt: "desc" },
+    take: CONTINUE_LEARNING_LIMIT,
+    select: { id: true, topic: true, learningLevel: true, currentStep: true, stepCount: true, updatedAt: true },
+  });
+
+  return rows.map(toSummary);
+}
+
+/**
+ * @returns Whether a session the caller may use was deleted
+ */
+export async function deleteConceptSession(id: string, userId: string | null): Promise<boolean> {
+  const result = await prisma.conceptSession.deleteMany({
+    where: { id, OR: [{ userId: null }, ...(userId ? [{ userId }] : [])] },
+  });
+  return result.count > 0;
+}
@@ -0,0 +1,145 @@
+/**
+ * Concept Booster session shared definitions
+ *
+ * A session keeps the topic, level, diagnostic answers and the output of
+ * every step on the server, so the client only sends the learner's new input.
+ *
+ * Safe to import from both API routes and client components.
+ */
+
+import type {
+  ConceptBoosterResponse,
+  ConceptBoosterStep,
+  GradedAnswer,
+  GradingVerdict,
+} from "@/lib/structured-output";
+
+export interface QuestionAnswer {
+  question: string;
+  answer: string;
+}
+
+// What the learner sent to produce a step
+export interface ConceptStepInput {
+  answers?: QuestionAnswer[];
+  doubt?: string;
+  response?: string;
+}
+
+export interface ConceptSessionStep {
+  step: ConceptBoosterStep;
+  input?: ConceptStepInput;
+  content: ConceptBoosterResponse["content"];
+  createdAt: string;
+}
+
+export interface ConceptSessionSummary {
+  id: string;
+  topic: string;
+  learningLevel: string;
+  currentStep: ConceptBoosterStep;
+  stepCount: number;
+  updatedAt: string;
+}
+
+export interface ConceptSessionDetail extends ConceptSessionSummary {
+  model: string;
+  // Set when the session covers one sub-topic of a learning path
+  pathId: string | null;
+  nodeId: string | null;
+  // null until the diagnostic is answered; empty when it was skipped
+  diagnosticAnswers: QuestionAnswer[] | null;
+  steps: ConceptSessionStep[];
+}
+
+export const LEARNING_LEVELS = [
+  "Class 6–8",
+  "Class 9–10",
+  "Class 11–12 (FSc/Intermediate)",
+  "University Level",
+  "Beginner Adult",
+  "Advanced Learner",
+  "Other",
+];
+
+export const CONCEPT_STEP_LABELS: Record<ConceptBoosterStep, string> = {
+  diagnostic: "Diagnostic",
+  explanation: "Explanation",
+  ask_doubts: "Doubts",
+  check_understanding: "Understanding check",
+  grading: "Grading",
+  review: "Review",
+  practice: "Practice",
+  feedback: "Feedback",
+};
+
+// Below this mastery score the learner reviews the missed concepts before practice
+export const MASTERY_THRESHOLD = 70;
+
+const VERDICT_SCORES: Record<GradingVerdict, number> = {
+  correct: 1,
+  partial: 0.5,
+  incorrect: 0,
+};
+
+/**
+ * Share of the understanding check answered correctly, from 0 to 100.
+ * Partial answers count half.
+ */
+export function masteryScore(results: GradedAnswer[]): number {
+  if (results.length === 0) return 0;
+
+  const total = results.reduce((sum, result) => sum + VERDICT_SCORES[result.verdict], 0);
+  return Math.round((total / results.length) * 100);
+}
+
+// A session stops accepting steps once it holds this many
+export const MAX_SESSION_STEPS = 60;
+
+// Sessions shown on the "continue learning" panel
+export const CONTINUE_LEARNING_LIMIT = 10;
+
+// Session and learning path ids are cuids
+export function isConceptSessionId(value: unknown): value is string {
+  return typeof value === "string" && /^c[a-z0-9]{20,32}$/.test(value);
+}
+
+// ============================================================================
+// Recently used ids (client-side only)
+// ============================================================================
+
+// Signed-out visitors' sessions and paths belong to no account, so this
+// browser keeps their ids to list them again
+export function createRecentIds(storageKey: string) {
+  function load(): string[] {
+    if (typeof window === "undefined") return [];
+
+    try {
+      const parsed: unknown = JSON.parse(localStorage.getItem(storageKey) || "[]");
+      return Array.isArray(parsed) ? parsed.filter(isConceptSessionId) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  function write(ids: string[]): void {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(ids.slice(0, CONTINUE_LEARNING_LIMIT)));
+    } catch (error) {
+      console.error("Error saving recent ids:", error);
+    }
+  }
+
+  return {
+    load,
+    // Move an id to the front of the list
+    remember: (id: string) => write([id, ...load().filter((existing) => existing !== id)]),
+    forget: (id: string) => write(load().filter((existing) => existing !== id)),
+  };
+}
+
+const recentSessions = createRecentIds("brainbolt_concept_sessions");
+
+export const loadRecentSessionIds = recentSessions.load;
+export const rememberSession = recentSessions.remember;
+export const forgetSession = recentSessions.forget;
@@ -0,0 +1,27 @@
+/**
+ * Resolves the user that owns presets and other saved data for a request.
+ *
+ * Saved data is scoped to the signed-in account. Signed-out visitors can
+ * still use every tool, but nothing is persisted for them.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+
+/**
+ * @returns The signed-in user's id, or null for signed-out visitors
+ */
+export async function getCurrentUserId(req: NextRequest): Promise<string | null> {
+  const user = await getSessionUser(req);
+  return user?.id ?? null;
+}
+
+/**
+ * Standard response for routes that require a signed-in user
+ */
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: "Please sign in to use this feature.", code: "UNAUTHORIZED" },
+    { status: 401 },
+  );
+}
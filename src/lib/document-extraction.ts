@@ -0,0 +1,404 @@
+/**
+ * Client-side text extraction from uploaded study documents
+ *
+ * - PDF: text layer via pdf.js, one unit per page. Pages without a text
+ *   layer (scans) are flagged and OCR'd with Tesseract only if selected,
+ *   cleaned up and read in the languages chosen in OCRUploader.
+ * - DOCX: paragraphs from word/document.xml, split into sections at
+ *   top-level headings. Headings are kept as markdown "#" lines.
+ * - PPTX: one unit per slide in presentation order, slide title as a heading
+ *
+ * The student picks which units to include; buildDocumentText joins them
+ * with page/slide markers so the model can see the boundaries.
+ */
+
+import { unzipSync, strFromU8 } from "fflate";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { preprocessForOcr } from "@/lib/image-preprocessing";
+import { loadOcrSettings, recognizeText } from "@/lib/ocr";
+
+export type DocumentKind = "pdf" | "docx" | "pptx";
+
+export interface DocumentUnit {
+  // 1-based page/slide/section number
+  number: number;
+  label: string;
+  text: string;
+  // Scanned PDF page: text is filled in by OCR when the page is used
+  needsOcr: boolean;
+}
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  fileName: string;
+  units: DocumentUnit[];
+  // Release the parsed file (pdf.js keeps the document in its worker)
+  close: () => void;
+  // Render and OCR one unit; only set for PDFs
+  recognize?: (unit: DocumentUnit, onProgress: (progress: number) => void) => Promise<string>;
+}
+
+export const MAX_DOCUMENT_SIZE = 25 * 1024 * 1024;
+export const MAX_DOCUMENT_UNITS = 300;
+export const DOCUMENT_ACCEPT =
+  ".pdf,.docx,.pptx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.openxmlformats-officedocument.presentationml.presentation";
+
+// Fewer visible characters than this and a PDF page is treated as scanned
+const MIN_PAGE_TEXT = 20;
+// Lines this much larger than the page's body text are treated as headings
+const HEADING_SIZE_RATIO = 1.3;
+const OCR_RENDER_SCALE = 2;
+
+const NS = {
+  w: "http://schemas.openxmlformats.org/wordprocessingml/2006/main",
+  a: "http://schemas.openxmlformats.org/drawingml/2006/main",
+  p: "http://schemas.openxmlformats.org/presentationml/2006/main",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+  rels: "http://schemas.openxmlformats.org/package/2006/relationships",
+};
+
+export function getDocumentKind(file: File): DocumentKind | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".pdf") || file.type === "application/pdf") return "pdf";
+  if (name.endsWith(".docx")) return "docx";
+  if (name.endsWith(".pptx")) return "pptx";
+  return null;
+}
+
+/**
+ * Extract the selectable units of a document
+ */
+export async function extractDocument(
+  file: File,
+  onProgress: (done: number, total: number) => void = () => {},
+): Promise<ExtractedDocument> {
+  const kind = getDocumentKind(file);
+  if (!kind) {
+    throw new Error("Unsupported file type. Upload a PDF, DOCX or PPTX file.");
+  }
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    throw new Error(`File is too large. Maximum size is ${MAX_DOCUMENT_SIZE / (1024 * 1024)}MB.`);
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const base = { kind, fileName: file.name };
+
+  if (kind === "pdf") {
+    return { ...base, ...(await extractPdf(data, onProgress)) };
+  }
+
+  const units = kind === "docx" ? extractDocx(data) : extractPptx(data);
+  if (units.length === 0) {
+    throw new Error("No text was found in this file.");
+  }
+  return { ...base, units: units.slice(0, MAX_DOCUMENT_UNITS), close: () => {} };
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+interface PdfLine {
+  text: string;
+  height: number;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+async function extractPdf(
+  data: Uint8Array,
+  onProgress: (done: number, total: number) => void,
+): Promise<Pick<ExtractedDocument, "units" | "close" | "recognize">> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+
+  const pdf: PDFDocumentProxy = await pdfjs.getDocument({ data }).promise;
+  const pageCount = Math.min(pdf.numPages, MAX_DOCUMENT_UNITS);
+  const units: DocumentUnit[] = [];
+
+  for (let number = 1; number <= pageCount; number++) {
+    const page = await pdf.getPage(number);
+    const content = await page.getTextContent();
+
+    // Group text runs into lines, remembering each line's tallest run
+    const lines: PdfLine[] = [];
+    let current: PdfLine = { text: "", height: 0 };
+    for (const item of content.items) {
+      if (!("str" in item)) continue;
+      current.text += item.str;
+      current.height = Math.max(current.height, item.height);
+      if (item.hasEOL) {
+        lines.push(current);
+        current = { text: "", height: 0 };
+      }
+    }
+    lines.push(current);
+
+    const textLines = lines.filter((line) => line.text.trim());
+    const bodyHeight = median(textLines.map((line) => line.height));
+    const text = textLines
+      .map((line) => {
+        const trimmed = line.text.trim();
+        const isHeading =
+          bodyHeight > 0 && line.height >= bodyHeight * HEADING_SIZE_RATIO && trimmed.length <= 120;
+        return isHeading ? `## ${trimmed}` : trimmed;
+      })
+      .join("\n");
+
+    units.push({
+      number,
+      label: `Page ${number}`,
+      text,
+      needsOcr: text.replace(/\s/g, "").length < MIN_PAGE_TEXT,
+    });
+    page.cleanup();
+    onProgress(number, pageCount);
+  }
+
+  const recognize = async (unit: DocumentUnit, onOcrProgress: (progress: number) => void) => {
+    const page = await pdf.getPage(unit.number);
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = document.createElement("canvas");
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvas, viewport }).promise;
+    page.cleanup();
+
+    // Same clean-up and languages as the image uploader (no crop: the page is the whole render)
+    const { canvas: cleaned } = await preprocessForOcr(canvas);
+    const { text } = await recognizeText(cleaned, loadOcrSettings(), onOcrProgress);
+    return text;
+  };
+
+  return { units, recognize, close: () => void pdf.destroy() };
+}
+
+// ============================================================================
+// Office Open XML helpers
+// ============================================================================
+
+function unzipEntries(data: Uint8Array, filter: (name: string) => boolean): Record<string, string> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data, { filter: (file) => filter(file.name) });
+  } catch {
+    throw new Error("The file could not be opened. It may be damaged or password protected.");
+  }
+  return Object.fromEntries(Object.entries(entries).map(([name, bytes]) => [name, strFromU8(bytes)]));
+}
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, "application/xml");
+}
+
+function childrenNS(parent: Element | Document, ns: string, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS(ns, name));
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+// Map style ids to heading levels ("heading 1" -> 1, "Title" -> 1)
+function docxHeadingStyles(stylesXml: string | undefined): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  for (const style of childrenNS(parseXml(stylesXml), NS.w, "style")) {
+    const id = style.getAttributeNS(NS.w, "styleId");
+    const name = childrenNS(style, NS.w, "name")[0]?.getAttributeNS(NS.w, "val") ?? "";
+    const match = /^heading\s*(\d)$/i.exec(name);
+    if (id && match) levels.set(id, parseInt(match[1]));
+    else if (id && /^title$/i.test(name)) levels.set(id, 1);
+  }
+  return levels;
+}
+
+function docxParagraphText(paragraph: Element): string {
+  let text = "";
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      if (child.namespaceURI === NS.w && child.localName === "t") text += child.textContent ?? "";
+      else if (child.namespaceURI === NS.w && child.localName === "tab") text += "\t";
+      else if (child.namespaceURI === NS.w && (child.localName === "br" || child.localName === "cr")) text += "\n";
+      // Text boxes hold their own paragraphs, which are visited separately
+      else if (child.localName !== "txbxContent") walk(child);
+    }
+  };
+  walk(paragraph);
+  return text;
+}
+
+function extractDocx(data: Uint8Array): DocumentUnit[] {
+  const files = unzipEntries(data, (name) => name === "word/document.xml" || name === "word/styles.xml");
+  if (!files["word/document.xml"]) {
+    throw new Error("This does not look like a Word document.");
+  }
+
+  const headingStyles = docxHeadingStyles(files["word/styles.xml"]);
+  const sections: { label: string; lines: string[] }[] = [];
+  let current = { label: "Beginning", lines: [] as string[] };
+
+  for (const paragraph of childrenNS(parseXml(files["word/document.xml"]), NS.w, "p")) {
+    const text = docxParagraphText(paragraph).trim();
+    if (!text) continue;
+
+    const styleId = childrenNS(paragraph, NS.w, "pStyle")[0]?.getAttributeNS(NS.w, "val") ?? "";
+    const level = headingStyles.get(styleId) ?? parseInt(/^Heading(\d)$/i.exec(styleId)?.[1] ?? "0");
+    const isListItem = childrenNS(paragraph, NS.w, "numPr").length > 0;
+
+    // Top-level headings start a new selectable section
+    if (level > 0 && level <= 2 && current.lines.length > 0) {
+      sections.push(current);
+      current = { label: text, lines: [] };
+    } else if (level > 0 && level <= 2) {
+      current.label = text;
+    }
+
+    current.lines.push(level > 0 ? `${"#".repeat(Math.min(level, 6))} ${text}` : isListItem ? `- ${text}` : text);
+  }
+  if (current.lines.length > 0) sections.push(current);
+
+  return sections.map((section, index) => ({
+    number: index + 1,
+    label: section.label.slice(0, 80),
+    text: section.lines.join("\n"),
+    needsOcr: false,
+  }));
+}
+
+// ============================================================================
+// PPTX
+// ============================================================================
+
+// Slide paths in presentation order (falls back to file-name order)
+function pptxSlideOrder(files: Record<string, string>): string[] {
+  const slidePaths = Object.keys(files)
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, "")) - parseInt(b.replace(/\D/g, "")));
+
+  const presentation = files["ppt/presentation.xml"];
+  const rels = files["ppt/_rels/presentation.xml.rels"];
+  if (!presentation || !rels) return slidePaths;
+
+  const targets = new Map<string, string>();
+  for (const rel of childrenNS(parseXml(rels), NS.rels, "Relationship")) {
+    targets.set(rel.getAttribute("Id") ?? "", `ppt/${(rel.getAttribute("Target") ?? "").replace(/^\/?(ppt\/)?/, "")}`);
+  }
+
+  const ordered = childrenNS(parseXml(presentation), NS.p, "sldId")
+    .map((slide) => targets.get(slide.getAttributeNS(NS.r, "id") ?? ""))
+    .filter((path): path is string => !!path && path in files);
+
+  return ordered.length > 0 ? ordered : slidePaths;
+}
+
+function isTitleShape(shape: Element): boolean {
+  return childrenNS(shape, NS.p, "ph").some((ph) => {
+    const type = ph.getAttribute("type");
+    return type === "title" || type === "ctrTitle";
+  });
+}
+
+function extractPptx(data: Uint8Array): DocumentUnit[] {
+  const files = unzipEntries(
+    data,
+    (name) =>
+      /^ppt\/slides\/slide\d+\.xml$/.test(name) ||
+      name === "ppt/presentation.xml" ||
+      name === "ppt/_rels/presentation.xml.rels",
+  );
+
+  const slides = pptxSlideOrder(files);
+  if (slides.length === 0) {
+    throw new Error("This does not look like a PowerPoint presentation.");
+  }
+
+  return slides.map((path, index) => {
+    const slide = parseXml(files[path]);
+    const titles: string[] = [];
+    const body: string[] = [];
+
+    for (const paragraph of childrenNS(slide, NS.a, "p")) {
+      const text = childrenNS(paragraph, NS.a, "t")
+        .map((run) => run.textContent ?? "")
+        .join("")
+        .trim();
+      if (!text) continue;
+
+      // Find the shape this paragraph belongs to
+      let shape: Element | null = paragraph.parentElement;
+      while (shape && !(shape.namespaceURI === NS.p && shape.localName === "sp")) {
+        shape = shape.parentElement;
+      }
+
+      if (shape && isTitleShape(shape)) {
+        titles.push(text);
+      } else {
+        const level = parseInt(childrenNS(paragraph, NS.a, "pPr")[0]?.getAttribute("lvl") ?? "0");
+        body.push(`${"  ".repeat(level)}- ${text}`);
+      }
+    }
+
+    const title = titles.join(" ");
+    return {
+      number: index + 1,
+      label: title ? `Slide ${index + 1}: ${title.slice(0, 60)}` : `Slide ${index + 1}`,
+      text: [title ? `## ${title}` : "", ...body].filter(Boolean).join("\n"),
+      needsOcr: false,
+    };
+  });
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Parse a selection like "1-3, 5, 8-" into unit numbers (1-based, inclusive)
+ */
+export function parseUnitRange(input: string, max: number): Set<number> | null {
+  const selected = new Set<number>();
+  for (const part of input.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const match = /^(\d*)\s*(?:-\s*(\d*))?$/.exec(part);
+    if (!match || (!match[1] && !match[2])) return null;
+
+    const start = match[1] ? parseInt(match[1]) : 1;
+    const end = part.includes("-") ? (match[2] ? parseInt(match[2]) : max) : start;
+    if (start < 1 || end < start) return null;
+
+    for (let n = start; n <= Math.min(end, max); n++) selected.add(n);
+  }
+  return selected;
+}
+
+/**
+ * Join the selected units into one input text, OCR'ing scanned pages first
+ */
+export async function buildDocumentText(
+  doc: ExtractedDocument,
+  selected: Set<number>,
+  onProgress: (done: number, total: number) => void = () => {},
+): Promise<string> {
+  const units = doc.units.filter((unit) => selected.has(unit.number));
+  const parts: string[] = [];
+
+  for (let i = 0; i < units.length; i++) {
+    const unit = units[i];
+    let text = unit.text;
+    if (unit.needsOcr && doc.recognize) {
+      text = await doc.recognize(unit, (progress) => onProgress(i + progress, units.length));
+    }
+    onProgress(i + 1, units.length);
+    if (!text.trim()) continue;
+
+    // Sections already start with their heading; pages and slides get a marker
+    parts.push(doc.kind === "docx" ? text : `--- ${doc.kind === "pdf" ? "Page" : "Slide"} ${unit.number} ---\n${text}`);
+  }
+
+  return parts.join("\n\n");
+}
@@ -0,0 +1,22 @@
+/**
+ * Browser file download helpers (client-side only)
+ */
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function downloadText(text: string, filename: string, type: string = "text/plain"): void {
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), filename);
+}
+
+export function downloadBytes(bytes: Uint8Array, filename: string, type: string): void {
+  downloadBlob(new Blob([bytes as BlobPart], { type }), filename);
+}
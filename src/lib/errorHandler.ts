@@ -3,6 +3,8 @@
  * Ensures safe error logging and user-friendly error messages
  */
 
+import { LLMProviderError } from "@/lib/llm-types";
+
 export interface SafeError {
   message: string;
   statusCode: number;
@@ -60,6 +62,20 @@ export function logError(
  * Converts unknown errors to safe error objects
  */
 export function toSafeError(error: unknown, defaultMessage = "An error occurred"): SafeError {
+  // Every model in the fallback chain was rate limited or unavailable
+  if (
+    error instanceof LLMProviderError &&
+    error.status !== undefined &&
+    (error.status === 429 || error.status >= 500)
+  ) {
+    return {
+      message: "The AI service is busy right now. Please try again in a minute.",
+      statusCode: 503,
+      code: error.status === 429 ? "AI_RATE_LIMITED" : "AI_UNAVAILABLE",
+      details: error.message,
+    };
+  }
+
   if (error instanceof Error) {
     // Don't expose internal error messages in production
     const message =
@@ -0,0 +1,84 @@
+/**
+ * Printable exam papers built from a generated MCQ set
+ *
+ * Each version (set A, B, C, ...) has its own question/option order and its
+ * own answer key. Set A keeps the original order so it can double as the
+ * teacher's master copy; later sets are shuffled as configured. The PDFs are
+ * drawn by the exam functions in pdf-generator.ts.
+ */
+
+import type { MCQ } from "@/components/MCQList";
+import { buildQuiz, type QuizQuestion } from "@/lib/quiz";
+
+export const MAX_EXAM_VERSIONS = 4;
+export const EXAM_VERSION_LABELS = ["A", "B", "C", "D"] as const;
+
+export interface ExamPaperSettings {
+  school: string;
+  subject: string;
+  title: string;
+  durationMinutes: number | null;
+  // Marks for the whole paper; defaults to one per question when null
+  totalMarks: number | null;
+  instructions: string;
+  versions: number;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  includeOmrSheet: boolean;
+}
+
+export const DEFAULT_EXAM_SETTINGS: ExamPaperSettings = {
+  school: "",
+  subject: "",
+  title: "",
+  durationMinutes: 30,
+  totalMarks: null,
+  instructions: "Answer all questions. Each question has exactly one correct answer.",
+  versions: 2,
+  shuffleQuestions: true,
+  shuffleOptions: true,
+  includeOmrSheet: false,
+};
+
+export interface ExamVersion {
+  label: string;
+  questions: QuizQuestion[];
+}
+
+/**
+ * Build the configured number of versions
+ */
+export function buildExamVersions(
+  mcqs: MCQ[],
+  settings: ExamPaperSettings,
+  random: () => number = Math.random,
+): ExamVersion[] {
+  const count = Math.min(Math.max(1, settings.versions), MAX_EXAM_VERSIONS);
+
+  return EXAM_VERSION_LABELS.slice(0, count).map((label, index) => ({
+    label,
+    questions: buildQuiz(
+      mcqs,
+      index === 0
+        ? { ...settings, layout: "single-page", timeLimitMinutes: null, shuffleQuestions: false, shuffleOptions: false }
+        : { ...settings, layout: "single-page", timeLimitMinutes: null },
+      random,
+    ),
+  }));
+}
+
+export function examTotalMarks(settings: ExamPaperSettings, questionCount: number): number {
+  return settings.totalMarks ?? questionCount;
+}
+
+/**
+ * Base filename for a version's PDFs, e.g. "physics-set-a"
+ */
+export function examFileName(settings: ExamPaperSettings, version: ExamVersion): string {
+  const base = (settings.subject || settings.title || "brainbolt-exam")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  return `${base || "brainbolt-exam"}-set-${version.label.toLowerCase()}`;
+}
@@ -0,0 +1,111 @@
+/**
+ * Flashcard export formats for other study apps
+ *
+ * - Anki TSV: tab-separated Front/Back/Tags with Anki's import header lines
+ * - Quizlet CSV: term,definition rows for Quizlet's "Import" box
+ * - Anki package (.apkg): built server-side by /api/flashcards/export
+ *
+ * Safe to import from both API routes and client components.
+ */
+
+import type { Flashcard } from "@/components/FlashcardDisplay";
+
+export const MAX_EXPORT_CARDS = 500;
+// Cards are 1-3 sentences; this leaves room for formulas
+const MAX_FIELD_LENGTH = 1000;
+const MAX_TITLE_LENGTH = 200;
+// JSON keys, id, type and punctuation of one card
+const CARD_OVERHEAD_BYTES = 100;
+
+// Largest valid export body: every field at its limit, each character
+// taking up to 3 bytes in UTF-8 (about 3 MB)
+export const MAX_EXPORT_REQUEST_SIZE =
+  MAX_EXPORT_CARDS * (2 * MAX_FIELD_LENGTH * 3 + CARD_OVERHEAD_BYTES) + MAX_TITLE_LENGTH * 3 + CARD_OVERHEAD_BYTES;
+
+const CARD_TYPES: Flashcard["type"][] = ["concept", "application", "trick"];
+
+/**
+ * Anki tags for a card: the app tag plus the card type, so a deck can be
+ * filtered by concept/application/trick after import
+ */
+export function cardTags(card: Flashcard): string[] {
+  return ["brainbolt", card.type];
+}
+
+// ============================================================================
+// Text formats
+// ============================================================================
+
+// Tabs and newlines would break a TSV row; Anki renders fields as HTML
+function toAnkiField(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\t/g, " ")
+    .replace(/\r?\n/g, "<br>");
+}
+
+export function flashcardsToAnkiTsv(flashcards: Flashcard[]): string {
+  const header = ["#separator:tab", "#html:true", "#columns:Front\tBack\tTags", "#tags column:3"];
+  const rows = flashcards.map((card) =>
+    [toAnkiField(card.front), toAnkiField(card.back), cardTags(card).join(" ")].join("\t"),
+  );
+  return [...header, ...rows].join("\n") + "\n";
+}
+
+function toCsvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function flashcardsToQuizletCsv(flashcards: Flashcard[]): string {
+  return flashcards.map((card) => `${toCsvField(card.front)},${toCsvField(card.back)}`).join("\n") + "\n";
+}
+
+// ============================================================================
+// Validation (used by /api/flashcards/export)
+// ============================================================================
+
+function isField(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value.length <= MAX_FIELD_LENGTH;
+}
+
+export function validateFlashcardExport(value: unknown): {
+  valid: boolean;
+  error?: string;
+  title?: string;
+  flashcards?: Flashcard[];
+} {
+  if (typeof value !== "object" || value === null) {
+    return { valid: false, error: "Request body must be an object." };
+  }
+  const input = value as Record<string, unknown>;
+
+  if (!Array.isArray(input.flashcards) || input.flashcards.length === 0 || input.flashcards.length > MAX_EXPORT_CARDS) {
+    return { valid: false, error: `Export must contain between 1 and ${MAX_EXPORT_CARDS} flashcards.` };
+  }
+
+  const flashcards: Flashcard[] = [];
+  for (const item of input.flashcards) {
+    const card = (typeof item === "object" && item !== null ? item : {}) as Record<string, unknown>;
+    if (
+      typeof card.id !== "number" ||
+      !CARD_TYPES.includes(card.type as Flashcard["type"]) ||
+      !isField(card.front) ||
+      !isField(card.back)
+    ) {
+      return { valid: false, error: "Invalid flashcard in export." };
+    }
+    flashcards.push({ id: card.id, type: card.type as Flashcard["type"], front: card.front, back: card.back });
+  }
+
+  if (input.title !== undefined && (typeof input.title !== "string" || input.title.length > MAX_TITLE_LENGTH)) {
+    return { valid: false, error: "Invalid deck title." };
+  }
+
+  return {
+    valid: true,
+    title: (input.title as string | undefined)?.trim() || "BrainBolt Flashcards",
+    flashcards,
+  };
+}
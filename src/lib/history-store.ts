@@ -0,0 +1,46 @@
+/**
+ * Server-side persistence for generation history
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserId } from "@/lib/current-user";
+import { logError } from "@/lib/errorHandler";
+import type { HistoryFeature } from "@/lib/history";
+
+/**
+ * Record a successful generation run.
+ *
+ * Failures are logged and swallowed: a history write must never turn a
+ * successful generation into an error response.
+ */
+export async function recordHistory(
+  req: NextRequest,
+  feature: HistoryFeature,
+  inputText: string,
+  output: string | object,
+): Promise<void> {
+  try {
+    const userId = await getCurrentUserId(req);
+    if (!userId) {
+      // Signed-out visitors get results but no saved history
+      return;
+    }
+
+    await prisma.historyItem.create({
+      data: {
+        userId,
+        feature,
+        inputText,
+        outputText: typeof output === "string" ? output : JSON.stringify(output),
+      },
+    });
+  } catch (error) {
+    logError(error, {
+      operation: "recordHistory",
+      route: `/api/${feature}`,
+    });
+  }
+}
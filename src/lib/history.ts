@@ -0,0 +1,40 @@
+/**
+ * Generation history shared definitions
+ *
+ * Safe to import from both API routes and client components.
+ */
+
+// "quiz" entries are finished quiz attempts rather than generations
+export const HISTORY_FEATURES = ["format", "mcq", "flashcards", "concept-booster", "quiz"] as const;
+
+export type HistoryFeature = (typeof HISTORY_FEATURES)[number];
+
+export const HISTORY_FEATURE_LABELS: Record<HistoryFeature, string> = {
+  format: "Formatter",
+  mcq: "MCQs",
+  flashcards: "Flashcards",
+  "concept-booster": "Concept Booster",
+  quiz: "Quiz Attempts",
+};
+
+export const HISTORY_PAGE_SIZE = 20;
+export const HISTORY_PREVIEW_LENGTH = 200;
+
+export interface HistoryListItem {
+  id: number;
+  feature: HistoryFeature;
+  inputPreview: string;
+  timestamp: string;
+}
+
+export interface HistoryDetail {
+  id: number;
+  feature: HistoryFeature;
+  inputText: string;
+  outputText: string;
+  timestamp: string;
+}
+
+export function isHistoryFeature(value: unknown): value is HistoryFeature {
+  return typeof value === "string" && (HISTORY_FEATURES as readonly string[]).includes(value);
+}
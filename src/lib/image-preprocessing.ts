@@ -0,0 +1,414 @@
+/**
+ * Image clean-up before OCR
+ *
+ * Phone photos of notes are skewed, unevenly lit and shot at an angle, which
+ * Tesseract reads poorly. Each image is cropped to the page (perspective
+ * corrected from four corners the student can adjust), converted to
+ * grayscale, denoised, straightened and binarized with a threshold that
+ * adapts to local lighting. The pixel steps work on plain grayscale buffers;
+ * preprocessForOcr wraps them for canvas sources.
+ */
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  // One byte per pixel, 0 = black, 255 = white
+  data: Uint8ClampedArray;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Page corners as fractions of the image size: top-left, top-right,
+// bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export const FULL_QUAD: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+export interface PreprocessOptions {
+  corners: Quad;
+  // Median filter before thresholding and speckle removal after
+  denoise: boolean;
+  deskew: boolean;
+  // Black text on white background; off keeps the grayscale image
+  binarize: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  corners: FULL_QUAD,
+  denoise: true,
+  deskew: true,
+  binarize: true,
+};
+
+export interface PreprocessedImage {
+  canvas: HTMLCanvasElement;
+  dataUrl: string;
+  // Rotation applied to straighten the text, in degrees
+  skewAngle: number;
+}
+
+// Longest side images are worked on at. Photos are downscaled to this (not
+// the 1200px used for uploads) so small handwriting survives.
+const MAX_WORKING_SIZE = 2000;
+
+// Largest tilt deskew looks for, in degrees
+const MAX_SKEW = 15;
+
+// Below this the image is left as-is; rotating resamples every pixel
+const MIN_SKEW_CORRECTION = 0.2;
+
+export function isFullQuad(quad: Quad): boolean {
+  return quad.every(
+    (point, index) => Math.abs(point.x - FULL_QUAD[index].x) < 0.005 && Math.abs(point.y - FULL_QUAD[index].y) < 0.005,
+  );
+}
+
+/**
+ * Luma of RGBA pixels
+ */
+export function toGrayscale(rgba: Uint8ClampedArray, width: number, height: number): GrayImage {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    data[i] = 0.299 * rgba[p] + 0.587 * rgba[p + 1] + 0.114 * rgba[p + 2];
+  }
+  return { width, height, data };
+}
+
+// Bilinear sample; outside the image returns `background`, or the nearest
+// edge pixel when it is null
+function sample(image: GrayImage, x: number, y: number, background: number | null): number {
+  if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) {
+    if (background !== null) return background;
+    x = Math.min(Math.max(x, 0), image.width - 1);
+    y = Math.min(Math.max(y, 0), image.height - 1);
+  }
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, image.width - 1);
+  const y1 = Math.min(y0 + 1, image.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+  const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Crop the quadrilateral `quad` (fractions of the image size) out of `image`
+ * and stretch it to a rectangle, undoing the perspective of a photo taken at
+ * an angle.
+ */
+export function warpPerspective(image: GrayImage, quad: Quad): GrayImage {
+  const [tl, tr, br, bl] = quad.map((point) => ({
+    x: point.x * (image.width - 1),
+    y: point.y * (image.height - 1),
+  }));
+  const width = Math.round(Math.max(distance(tl, tr), distance(bl, br))) + 1;
+  const height = Math.round(Math.max(distance(tl, bl), distance(tr, br))) + 1;
+
+  // Projective map from the unit square onto the quad (Heckbert)
+  const dx1 = tr.x - br.x;
+  const dx2 = bl.x - br.x;
+  const dx3 = tl.x - tr.x + br.x - bl.x;
+  const dy1 = tr.y - br.y;
+  const dy2 = bl.y - br.y;
+  const dy3 = tl.y - tr.y + br.y - bl.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = det === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / det;
+  const h = det === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / det;
+  const a = tr.x - tl.x + g * tr.x;
+  const b = bl.x - tl.x + h * bl.x;
+  const d = tr.y - tl.y + g * tr.y;
+  const e = bl.y - tl.y + h * bl.y;
+
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const v = height === 1 ? 0 : y / (height - 1);
+    for (let x = 0; x < width; x++) {
+      const u = width === 1 ? 0 : x / (width - 1);
+      const w = g * u + h * v + 1;
+      data[y * width + x] = sample(image, (a * u + b * v + tl.x) / w, (d * u + e * v + tl.y) / w, 255);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * 3x3 median filter: removes salt-and-pepper noise and paper grain while
+ * keeping stroke edges sharp
+ */
+export function medianFilter(image: GrayImage): GrayImage {
+  const { width, height } = image;
+  const data = new Uint8ClampedArray(image.data);
+  const window = new Uint8Array(9);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const row = (y + dy) * width + x;
+        window[n++] = image.data[row - 1];
+        window[n++] = image.data[row];
+        window[n++] = image.data[row + 1];
+      }
+      window.sort();
+      data[y * width + x] = window[4];
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Bradley adaptive threshold: a pixel is black when it is `sensitivity`
+ * darker than the mean of the window around it, so shadows and uneven light
+ * across a photo do not turn whole regions black or white.
+ */
+export function adaptiveThreshold(image: GrayImage, sensitivity = 0.15): GrayImage {
+  const { width, height } = image;
+  const half = Math.max(7, Math.round(Math.max(width, height) / 40));
+
+  // Integral image with a zero row and column in front
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += image.data[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      const area = (x1 - x0) * (y1 - y0);
+      data[y * width + x] = image.data[y * width + x] * area <= sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Angle (degrees) to rotate a binarized image by so its text lines run
+ * horizontally. Tries each angle and keeps the one whose row profile of
+ * black pixels is most peaked, i.e. where lines and gaps separate best.
+ */
+export function estimateSkewAngle(binary: GrayImage, maxAngle = MAX_SKEW): number {
+  const { width, height } = binary;
+  // Sample every `step` pixels so large photos stay fast
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / 1000));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (binary.data[y * width + x] === 0) {
+        xs.push(x - width / 2);
+        ys.push(y - height / 2);
+      }
+    }
+  }
+  // Blank pages and solid black images have no lines to align
+  const total = Math.ceil(width / step) * Math.ceil(height / step);
+  if (xs.length < 50 || xs.length > total * 0.5) return 0;
+
+  const binCount = Math.ceil(Math.hypot(width, height) / step) + 2;
+  const bins = new Float64Array(binCount);
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.floor((xs[i] * sin + ys[i] * cos) / step + binCount / 2)] += 1;
+    }
+    let sum = 0;
+    for (let i = 0; i < binCount; i++) sum += bins[i] * bins[i];
+    return sum;
+  };
+
+  const search = (from: number, to: number, increment: number, start: number) => {
+    let best = start;
+    let bestScore = score(start);
+    for (let angle = from; angle <= to + 1e-9; angle += increment) {
+      const current = score(angle);
+      if (current > bestScore) {
+        best = angle;
+        bestScore = current;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-maxAngle, maxAngle, 0.5, 0);
+  const fine = search(coarse - 0.5, coarse + 0.5, 0.1, coarse);
+  return Math.round(fine * 10) / 10;
+}
+
+/**
+ * Rotate around the centre, growing the image so no corner is cut off. The
+ * new corners repeat the nearest edge by default: a white fill next to a
+ * grey page would be thresholded into a black frame.
+ */
+export function rotate(image: GrayImage, degrees: number, background: number | null = null): GrayImage {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const width = Math.ceil(Math.abs(image.width * cos) + Math.abs(image.height * sin));
+  const height = Math.ceil(Math.abs(image.width * sin) + Math.abs(image.height * cos));
+  const cx = image.width / 2;
+  const cy = image.height / 2;
+
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const dy = y - height / 2;
+    for (let x = 0; x < width; x++) {
+      const dx = x - width / 2;
+      // Inverse rotation back into the source
+      data[y * width + x] = sample(image, dx * cos + dy * sin + cx, -dx * sin + dy * cos + cy, background);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Whiten connected black specks of at most `maxArea` pixels (dust, paper
+ * texture left over by thresholding). Full stops and i-dots are larger than
+ * the default at working resolution.
+ */
+export function removeSpeckles(binary: GrayImage, maxArea?: number): GrayImage {
+  const { width, height } = binary;
+  const limit = maxArea ?? Math.max(2, Math.round((Math.max(width, height) / 1000) ** 2 * 2));
+  const data = new Uint8ClampedArray(binary.data);
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const component: number[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (data[start] !== 0 || visited[start]) continue;
+
+    component.length = 0;
+    stack.push(start);
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop() as number;
+      component.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && next < data.length && data[next] === 0 && !visited[next]) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    if (component.length <= limit) {
+      for (const index of component) data[index] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Run the pipeline on already-decoded grayscale pixels
+ */
+export function preprocessGray(image: GrayImage, options: PreprocessOptions): { image: GrayImage; skewAngle: number } {
+  let result = isFullQuad(options.corners) ? image : warpPerspective(image, options.corners);
+  if (options.denoise) {
+    result = medianFilter(result);
+  }
+
+  let skewAngle = 0;
+  if (options.deskew) {
+    const angle = estimateSkewAngle(adaptiveThreshold(result));
+    if (Math.abs(angle) >= MIN_SKEW_CORRECTION) {
+      result = rotate(result, angle);
+      skewAngle = angle;
+    }
+  }
+
+  if (options.binarize) {
+    result = adaptiveThreshold(result);
+    if (options.denoise) {
+      result = removeSpeckles(result);
+    }
+  }
+  return { image: result, skewAngle };
+}
+
+/**
+ * Load an image (e.g. an object URL of an upload) at full resolution
+ */
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+}
+
+/**
+ * Clean up an image or rendered page for Tesseract
+ */
+export async function preprocessForOcr(
+  source: HTMLImageElement | HTMLCanvasElement,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+): Promise<PreprocessedImage> {
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = Math.min(1, MAX_WORKING_SIZE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const gray = toGrayscale(ctx.getImageData(0, 0, width, height).data, width, height);
+  const { image, skewAngle } = preprocessGray(gray, options);
+
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const output = ctx.createImageData(image.width, image.height);
+  for (let i = 0, p = 0; i < image.data.length; i++, p += 4) {
+    output.data[p] = image.data[i];
+    output.data[p + 1] = image.data[i];
+    output.data[p + 2] = image.data[i];
+    output.data[p + 3] = 255;
+  }
+  ctx.putImageData(output, 0, 0);
+
+  // PNG: JPEG artifacts around thin strokes hurt recognition
+  return { canvas, dataUrl: canvas.toDataURL("image/png"), skewAngle };
+}
@@ -0,0 +1,186 @@
+/**
+ * Server-side persistence for learning paths
+ *
+ * Like Concept Booster sessions, paths started while signed out have no
+ * owner and are claimed by the first signed-in visitor to open them.
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { CONTINUE_LEARNING_LIMIT } from "@/lib/concept-sessions";
+import {
+  isNodeMastered,
+  type LearningNodeProgress,
+  type LearningPathDetail,
+  type LearningPathNode,
+  type LearningPathSummary,
+} from "@/lib/learning-paths";
+import type { ConceptBoosterStep } from "@/lib/structured-output";
+
+// Signed-out paths untouched for this long are removed
+const ANONYMOUS_PATH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface LearningPathRow {
+  id: string;
+  userId: string | null;
+  goal: string;
+  learningLevel: string;
+  model: string;
+  nodes: string;
+  updatedAt: Date;
+}
+
+interface NodeSessionRow {
+  id: string;
+  nodeId: string | null;
+  currentStep: string;
+  mastery: number | null;
+}
+
+function parseNodes(text: string): LearningPathNode[] {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return Array.isArray(parsed) ? (parsed as LearningPathNode[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Progress per node from its sessions; the most recently used one wins
+ */
+function toProgress(sessions: NodeSessionRow[]): Record<string, LearningNodeProgress> {
+  const progress: Record<string, LearningNodeProgress> = {};
+  for (const session of sessions) {
+    if (session.nodeId && !progress[session.nodeId]) {
+      progress[session.nodeId] = {
+        sessionId: session.id,
+        currentStep: session.currentStep as ConceptBoosterStep,
+        mastery: session.mastery,
+      };
+    }
+  }
+  return progress;
+}
+
+const NODE_SESSION_QUERY = {
+  orderBy: { updatedAt: "desc" },
+  select: { id: true, nodeId: true, currentStep: true, mastery: true },
+} as const;
+
+export async function createLearningPath(
+  userId: string | null,
+  settings: { goal: string; learningLevel: string; model: string },
+  nodes: LearningPathNode[],
+): Promise<LearningPathDetail> {
+  // Housekeeping: nobody can list stale signed-out paths any more
+  await prisma.learningPath.deleteMany({
+    where: { userId: null, updatedAt: { lt: new Date(Date.now() - ANONYMOUS_PATH_TTL_MS) } },
+  });
+
+  const row: LearningPathRow = await prisma.learningPath.create({
+    data: {
+      userId,
+      goal: settings.goal,
+      learningLevel: settings.learningLevel,
+      model: settings.model,
+      nodes: JSON.stringify(nodes),
+    },
+  });
+
+  return {
+    id: row.id,
+    goal: row.goal,
+    learningLevel: row.learningLevel,
+    model: row.model,
+    nodes,
+    progress: {},
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Load a path with the progress of each node, or null when it does not
+ * exist or belongs to another account
+ */
+export async function getLearningPath(
+  id: string,
+  userId: string | null,
+): Promise<LearningPathDetail | null> {
+  let row: LearningPathRow | null = await prisma.learningPath.findUnique({ where: { id } });
+  if (!row || (row.userId && row.userId !== userId)) {
+    return null;
+  }
+
+  if (!row.userId && userId) {
+    row = await prisma.learningPath.update({ where: { id }, data: { userId } });
+  }
+  if (!row) {
+    return null;
+  }
+
+  const sessions: NodeSessionRow[] = await prisma.conceptSession.findMany({
+    where: { pathId: id },
+    ...NODE_SESSION_QUERY,
+  });
+
+  return {
+    id: row.id,
+    goal: row.goal,
+    learningLevel: row.learningLevel,
+    model: row.model,
+    nodes: parseNodes(row.nodes),
+    progress: toProgress(sessions),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Newest paths: the signed-in user's own plus any signed-out paths this
+ * browser remembers
+ */
+export async function listLearningPaths(
+  userId: string | null,
+  ids: string[],
+): Promise<LearningPathSummary[]> {
+  const owners = [
+    ...(userId ? [{ userId }] : []),
+    ...(ids.length > 0 ? [{ id: { in: ids }, userId: null }] : []),
+  ];
+  if (owners.length === 0) {
+    return [];
+  }
+
+  const rows: Array<LearningPathRow & { sessions: NodeSessionRow[] }> = await prisma.learningPath.findMany({
+    where: { OR: owners },
+    orderBy: { updatedAt: "desc" },
+    take: CONTINUE_LEARNING_LIMIT,
+    include: { sessions: NODE_SESSION_QUERY },
+  });
+
+  return rows.map((row) => {
+    const nodes = parseNodes(row.nodes);
+    const progress = toProgress(row.sessions);
+    return {
+      id: row.id,
+      goal: row.goal,
+      learningLevel: row.learningLevel,
+      nodeCount: nodes.length,
+      masteredCount: nodes.filter((node) => isNodeMastered(progress[node.id])).length,
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  });
+}
+
+/**
+ * Delete a path and its sessions
+ *
+ * @returns Whether a path the caller may use was deleted
+ */
+export async function deleteLearningPath(id: string, userId: string | null): Promise<boolean> {
+  const result = await prisma.learningPath.deleteMany({
+    where: { id, OR: [{ userId: null }, ...(userId ? [{ userId }] : [])] },
+  });
+  return result.count > 0;
+}
@@ -0,0 +1,170 @@
+/**
+ * Learning path shared definitions
+ *
+ * A learning path splits a broad goal into sub-topics (nodes) with
+ * prerequisites, forming a directed acyclic graph. Each node is learned in
+ * its own Concept Booster session and counts as mastered once its
+ * understanding check scores at least MASTERY_THRESHOLD.
+ *
+ * Safe to import from both API routes and client components.
+ */
+
+import { MASTERY_THRESHOLD, createRecentIds } from "@/lib/concept-sessions";
+import type { ConceptBoosterStep, LearningPathResponse } from "@/lib/structured-output";
+
+export interface LearningPathNode {
+  id: string;
+  title: string;
+  description: string;
+  // Ids of the nodes to learn first
+  prerequisites: string[];
+}
+
+// The latest Concept Booster session for a node
+export interface LearningNodeProgress {
+  sessionId: string;
+  currentStep: ConceptBoosterStep;
+  // null until the understanding check is graded
+  mastery: number | null;
+}
+
+export type LearningNodeStatus = "locked" | "ready" | "in_progress" | "mastered";
+
+export const LEARNING_NODE_STATUS_LABELS: Record<LearningNodeStatus, string> = {
+  locked: "Needs prerequisites",
+  ready: "Ready",
+  in_progress: "In progress",
+  mastered: "Mastered",
+};
+
+export interface LearningPathSummary {
+  id: string;
+  goal: string;
+  learningLevel: string;
+  nodeCount: number;
+  masteredCount: number;
+  updatedAt: string;
+}
+
+export interface LearningPathDetail {
+  id: string;
+  goal: string;
+  learningLevel: string;
+  model: string;
+  nodes: LearningPathNode[];
+  // Keyed by node id; nodes without a session are missing
+  progress: Record<string, LearningNodeProgress>;
+  updatedAt: string;
+}
+
+export const MAX_GOAL_LENGTH = 500;
+export const MAX_PATH_NODES = 12;
+const MAX_NODE_ID_LENGTH = 40;
+const MAX_NODE_TITLE_LENGTH = 200;
+const MAX_NODE_DESCRIPTION_LENGTH = 500;
+
+function toNodeId(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, MAX_NODE_ID_LENGTH);
+}
+
+/**
+ * Turn the model's answer into a usable graph: unique slug ids, at most
+ * MAX_PATH_NODES nodes, only prerequisites that exist, and no cycles (the
+ * edge that would close a cycle is dropped).
+ */
+export function normalizeLearningPath(nodes: LearningPathResponse["nodes"]): LearningPathNode[] {
+  const result: LearningPathNode[] = [];
+  // The model's ids (and titles, which it sometimes uses instead) to ours
+  const idMap = new Map<string, string>();
+
+  for (const node of nodes.slice(0, MAX_PATH_NODES)) {
+    const base = toNodeId(node.id) || toNodeId(node.title) || `topic-${result.length + 1}`;
+    let id = base;
+    for (let suffix = 2; result.some((existing) => existing.id === id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+
+    for (const key of [node.id, node.title]) {
+      if (!idMap.has(key)) idMap.set(key, id);
+    }
+    result.push({
+      id,
+      title: node.title.trim().substring(0, MAX_NODE_TITLE_LENGTH),
+      description: (node.description || "").trim().substring(0, MAX_NODE_DESCRIPTION_LENGTH),
+      prerequisites: node.prerequisites ?? [],
+    });
+  }
+
+  const byId = new Map(result.map((node) => [node.id, node]));
+  for (const node of result) {
+    const resolved = node.prerequisites.map((prerequisite) => idMap.get(prerequisite) ?? toNodeId(prerequisite));
+    node.prerequisites = [...new Set(resolved)].filter((id) => id !== node.id && byId.has(id));
+  }
+
+  // Depth-first search; a prerequisite still being visited closes a cycle
+  const visited = new Map<string, "visiting" | "done">();
+  const visit = (node: LearningPathNode) => {
+    visited.set(node.id, "visiting");
+    node.prerequisites = node.prerequisites.filter((id) => {
+      const state = visited.get(id);
+      if (state === "visiting") return false;
+
+      const prerequisite = byId.get(id);
+      if (!state && prerequisite) visit(prerequisite);
+      return true;
+    });
+    visited.set(node.id, "done");
+  };
+  result.forEach((node) => {
+    if (!visited.has(node.id)) visit(node);
+  });
+
+  return result;
+}
+
+/**
+ * Length of the longest prerequisite chain below each node (0 for nodes
+ * without prerequisites). Sorting by depth gives a valid learning order.
+ */
+export function nodeDepths(nodes: LearningPathNode[]): Map<string, number> {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const depths = new Map<string, number>();
+
+  const depthOf = (node: LearningPathNode): number => {
+    const known = depths.get(node.id);
+    if (known !== undefined) return known;
+
+    const depth = node.prerequisites.reduce((max, id) => {
+      const prerequisite = byId.get(id);
+      return prerequisite ? Math.max(max, depthOf(prerequisite) + 1) : max;
+    }, 0);
+    depths.set(node.id, depth);
+    return depth;
+  };
+  nodes.forEach(depthOf);
+
+  return depths;
+}
+
+export function isNodeMastered(progress: LearningNodeProgress | undefined): boolean {
+  return progress !== undefined && progress.mastery !== null && progress.mastery >= MASTERY_THRESHOLD;
+}
+
+export function learningNodeStatus(
+  node: LearningPathNode,
+  progress: Record<string, LearningNodeProgress>,
+): LearningNodeStatus {
+  if (isNodeMastered(progress[node.id])) return "mastered";
+  if (progress[node.id]) return "in_progress";
+  return node.prerequisites.every((id) => isNodeMastered(progress[id])) ? "ready" : "locked";
+}
+
+const recentPaths = createRecentIds("brainbolt_learning_paths");
+
+export const loadRecentPathIds = recentPaths.load;
+export const rememberPath = recentPaths.remember;
+export const forgetPath = recentPaths.forget;
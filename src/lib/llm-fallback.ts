@@ -0,0 +1,212 @@
+/**
+ * Model fallback chain
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ *
+ * Runs a chat completion against the primary model from modelRouter and,
+ * when it fails with a retryable error (429, 5xx, timeout, network error or
+ * an empty answer), moves on to the next model in `ModelConfig.fallbacks`
+ * after an exponential backoff. The result says which model answered so the
+ * routes can report it in their response metadata.
+ */
+
+import { getGroqClient } from "@/lib/groq";
+import {
+  LLMProviderError,
+  isProviderConfigured,
+  type ChatCompletionChunk,
+  type ChatMessage,
+  type ProviderName,
+} from "@/lib/llm-providers";
+import type { ModelCandidate, ModelConfig } from "@/lib/modelRouter";
+
+export interface AnsweredBy {
+  provider: ProviderName;
+  model: string;
+  // 1 when the primary model answered
+  attempts: number;
+}
+
+export interface CompletionResult extends AnsweredBy {
+  content: string;
+}
+
+export interface CompletionStream extends AnsweredBy {
+  stream: AsyncIterable<ChatCompletionChunk>;
+}
+
+interface CompletionOptions {
+  messages: ChatMessage[];
+  // Aborts every attempt, e.g. the incoming request's signal
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Primary model followed by its fallbacks, without duplicates or providers
+ * that are missing configuration
+ */
+export function getModelCandidates(config: ModelConfig): ModelCandidate[] {
+  const seen = new Set<string>();
+  return [{ provider: config.provider, model: config.model }, ...config.fallbacks].filter(
+    (candidate) => {
+      const key = `${candidate.provider}:${candidate.model}`;
+      if (seen.has(key) || !isProviderConfigured(candidate.provider)) return false;
+      seen.add(key);
+      return true;
+    },
+  );
+}
+
+/**
+ * Whether the next model is worth trying. Bad requests and auth errors
+ * would fail the same way everywhere; anything else might be model-specific.
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMProviderError) {
+    return error.status === undefined || ![400, 401, 403].includes(error.status);
+  }
+  // fetch() network failures surface as TypeError
+  return error instanceof TypeError;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `attempt` for each candidate until one succeeds.
+ *
+ * Each attempt gets its own AbortSignal that fires after the per-attempt
+ * timeout or when `signal` aborts. `attempt` must return before the timeout
+ * for the model to count as answering; work after that (e.g. reading a
+ * stream) is only bound by the caller's signal.
+ */
+async function runWithFallback<T>(
+  config: ModelConfig,
+  signal: AbortSignal | undefined,
+  attempt: (candidate: ModelCandidate, attemptSignal: AbortSignal) => Promise<T>,
+): Promise<T & AnsweredBy> {
+  const candidates = getModelCandidates(config);
+  let lastError: unknown = new LLMProviderError(
+    "No configured model is available for this task",
+    config.provider,
+  );
+
+  for (let index = 0; index < candidates.length; index++) {
+    const candidate = candidates[index];
+
+    if (index > 0) {
+      const backoff = Math.min(
+        config.retry.backoffBaseMs * 2 ** (index - 1),
+        config.retry.backoffMaxMs,
+      );
+      await delay(backoff, signal);
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, config.retry.attemptTimeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const result = await attempt(candidate, controller.signal);
+      // The caller's signal stays linked so it can still cancel a stream
+      return { ...result, provider: candidate.provider, model: candidate.model, attempts: index + 1 };
+    } catch (error) {
+      signal?.removeEventListener("abort", onAbort);
+      if (signal?.aborted) throw error;
+
+      lastError = timedOut
+        ? new LLMProviderError(
+            `${candidate.provider} API error: attempt timed out after ${config.retry.attemptTimeoutMs}ms`,
+            candidate.provider,
+            504,
+          )
+        : error;
+
+      console.warn("LLM attempt failed:", {
+        provider: candidate.provider,
+        model: candidate.model,
+        attempt: index + 1,
+        error: lastError instanceof Error ? lastError.message : "Unknown error",
+      });
+
+      if (!isRetryable(lastError)) throw lastError;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Complete a chat, falling back through the task's model chain
+ */
+export function createChatCompletion(
+  config: ModelConfig,
+  options: CompletionOptions,
+): Promise<CompletionResult> {
+  return runWithFallback(config, options.signal, async (candidate, attemptSignal) => {
+    const completion = await getGroqClient(candidate.provider).chat.completions.create({
+      model: candidate.model,
+      messages: options.messages,
+      temperature: config.temperature,
+      signal: attemptSignal,
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      // An empty answer is treated like an upstream failure
+      throw new LLMProviderError(
+        `${candidate.provider} API error: empty response from ${candidate.model}`,
+        candidate.provider,
+      );
+    }
+
+    return { content };
+  });
+}
+
+/**
+ * Open a streamed chat completion. Fallback only applies until the stream
+ * is opened; once tokens flow, the answering model is fixed.
+ */
+export function openChatCompletionStream(
+  config: ModelConfig,
+  options: CompletionOptions,
+): Promise<CompletionStream> {
+  return runWithFallback(config, options.signal, async (candidate, attemptSignal) => {
+    const stream = await getGroqClient(candidate.provider).chat.completions.create({
+      model: candidate.model,
+      messages: options.messages,
+      temperature: config.temperature,
+      stream: true,
+      signal: attemptSignal,
+    });
+
+    return { stream };
+  });
+}
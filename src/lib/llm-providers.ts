@@ -0,0 +1,295 @@
+/**
+ * LLM provider layer
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ * API keys are NEVER exposed to the client bundle.
+ *
+ * Every provider exposes the same OpenAI-style `chat.completions.create`
+ * interface, so routes do not care which backend answers:
+ * - openrouter:        https://openrouter.ai (default)
+ * - groq:              native Groq API via groq-sdk
+ * - openai-compatible: any OpenAI-compatible base URL, e.g. a local
+ *                      llama.cpp server or Ollama (http://localhost:11434/v1)
+ * - mock:              deterministic fixtures for offline development and
+ *                      tests, no network or key needed (see mock-llm.ts)
+ */
+
+import Groq from "groq-sdk";
+import { createMockClient } from "@/lib/mock-llm";
+import {
+  LLMProviderError,
+  PROVIDER_NAMES,
+  type ChatCompletion,
+  type ChatCompletionChunk,
+  type ChatCompletionParams,
+  type LLMClient,
+  type ProviderName,
+} from "@/lib/llm-types";
+
+export * from "@/lib/llm-types";
+
+// SECURITY: Ensure this code only runs server-side
+if (typeof window !== "undefined") {
+  throw new Error(
+    "LLM providers cannot be used from client-side code. API keys must remain server-side only.",
+  );
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === "string" && (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Provider used when a task does not name one (LLM_PROVIDER, default openrouter)
+ */
+export function getDefaultProvider(): ProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return isProviderName(configured) ? configured : "openrouter";
+}
+
+function getApiKey(provider: ProviderName): string | undefined {
+  switch (provider) {
+    case "openrouter":
+      // GROQ_API_KEY has historically held the OpenRouter key
+      return process.env.GROQ_API_KEY || process.env.OPENROUTER_API_KEY;
+    case "groq":
+      return process.env.GROQ_API_KEY;
+    case "openai-compatible":
+      // Local servers usually do not need a key
+      return process.env.LLM_API_KEY;
+    case "mock":
+      return undefined;
+  }
+}
+
+/**
+ * Whether the provider has the configuration it needs to make a request
+ */
+export function isProviderConfigured(provider: ProviderName): boolean {
+  if (provider === "mock") {
+    return true;
+  }
+  if (provider === "openai-compatible") {
+    return Boolean(process.env.LLM_BASE_URL);
+  }
+  return Boolean(getApiKey(provider));
+}
+
+// ============================================================================
+// OpenAI-compatible HTTP providers (OpenRouter, local servers)
+// ============================================================================
+
+/**
+ * Parse an OpenAI-style SSE body into completion chunks.
+ * Comment lines (": OPENROUTER PROCESSING") are keep-alives and are skipped.
+ */
+async function* readCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  provider: ProviderName,
+): AsyncGenerator<ChatCompletionChunk> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith("data:")) continue;
+
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") return;
+
+        let chunk: ChatCompletionChunk & { error?: unknown };
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+
+        // Errors after the stream has started arrive as a data event
+        if (chunk.error) {
+          throw new LLMProviderError(`${provider} API error: ${JSON.stringify(chunk.error)}`, provider);
+        }
+
+        yield chunk;
+      }
+    }
+  } finally {
+    // Release the upstream connection if the consumer stops early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+function createHttpClient(
+  provider: ProviderName,
+  baseUrl: string,
+  headers: Record<string, string>,
+): LLMClient {
+  async function create(params: ChatCompletionParams & { stream?: false }): Promise<ChatCompletion>;
+  async function create(params: ChatCompletionParams & { stream: true }): Promise<AsyncIterable<ChatCompletionChunk>>;
+  async function create(
+    params: ChatCompletionParams & { stream?: boolean },
+  ): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> {
+    // SECURITY: API key is only used server-side in this fetch call
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify({
+        model: params.model,
+        messages: params.messages,
+        temperature: params.temperature || 0.2,
+        ...(params.stream ? { stream: true } : {}),
+      }),
+      signal: params.signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new LLMProviderError(
+        `${provider} API error: ${response.status} ${JSON.stringify(errorData)}`,
+        provider,
+        response.status,
+      );
+    }
+
+    if (params.stream) {
+      if (!response.body) {
+        throw new LLMProviderError(`${provider} API error: empty streaming response`, provider);
+      }
+      return readCompletionStream(response.body, provider);
+    }
+
+    return await response.json();
+  }
+
+  return {
+    provider,
+    chat: {
+      completions: { create },
+    },
+  };
+}
+
+// ============================================================================
+// Native Groq provider
+// ============================================================================
+function createGroqClient(apiKey: string): LLMClient {
+  const groq = new Groq({ apiKey });
+
+  function toProviderError(error: unknown): unknown {
+    if (error instanceof Groq.APIError && !(error instanceof Groq.APIUserAbortError)) {
+      return new LLMProviderError(`groq API error: ${error.message}`, "groq", error.status);
+    }
+    return error;
+  }
+
+  async function create(params: ChatCompletionParams & { stream?: false }): Promise<ChatCompletion>;
+  async function create(params: ChatCompletionParams & { stream: true }): Promise<AsyncIterable<ChatCompletionChunk>>;
+  async function create(
+    params: ChatCompletionParams & { stream?: boolean },
+  ): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> {
+    const body = {
+      model: params.model,
+      messages: params.messages,
+      temperature: params.temperature || 0.2,
+    };
+
+    try {
+      if (params.stream) {
+        return await groq.chat.completions.create(
+          { ...body, stream: true },
+          { signal: params.signal },
+        );
+      }
+
+      const completion = await groq.chat.completions.create(body, { signal: params.signal });
+      return {
+        choices: completion.choices.map((choice) => ({
+          message: { content: choice.message.content ?? "" },
+        })),
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  return {
+    provider: "groq",
+    chat: {
+      completions: { create },
+    },
+  };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+const clients = new Map<ProviderName, LLMClient>();
+
+function createClient(provider: ProviderName): LLMClient {
+  switch (provider) {
+    case "openrouter": {
+      const apiKey = getApiKey("openrouter");
+      if (!apiKey) {
+        throw new Error(
+          "API key is not set in the environment. Please create a .env.local file with your OpenRouter API key.",
+        );
+      }
+      return createHttpClient("openrouter", "https://openrouter.ai/api/v1", {
+        Authorization: `Bearer ${apiKey}`,
+        "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+        "X-Title": "BrainBolt",
+      });
+    }
+    case "groq": {
+      const apiKey = getApiKey("groq");
+      if (!apiKey) {
+        throw new Error("GROQ_API_KEY is not set in the environment.");
+      }
+      return createGroqClient(apiKey);
+    }
+    case "openai-compatible": {
+      const baseUrl = process.env.LLM_BASE_URL;
+      if (!baseUrl) {
+        throw new Error(
+          "LLM_BASE_URL is not set in the environment (e.g. http://localhost:11434/v1).",
+        );
+      }
+      const apiKey = getApiKey("openai-compatible");
+      return createHttpClient(
+        "openai-compatible",
+        baseUrl,
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      );
+    }
+    case "mock":
+      return createMockClient();
+  }
+}
+
+/**
+ * Get the (cached) client for a provider
+ */
+export function getProviderClient(provider: ProviderName = getDefaultProvider()): LLMClient {
+  let client = clients.get(provider);
+  if (!client) {
+    client = createClient(provider);
+    clients.set(provider, client);
+  }
+  return client;
+}
@@ -0,0 +1,62 @@
+/**
+ * Shared types for the LLM provider layer (see llm-providers.ts)
+ */
+
+export const PROVIDER_NAMES = ["openrouter", "groq", "openai-compatible", "mock"] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatCompletion {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+}
+
+// One server-sent event from a streamed completion
+export interface ChatCompletionChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+    };
+  }>;
+}
+
+export interface ChatCompletionParams {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  // Aborting cancels the upstream request (e.g. when the browser disconnects)
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletions {
+  create(params: ChatCompletionParams & { stream?: false }): Promise<ChatCompletion>;
+  create(params: ChatCompletionParams & { stream: true }): Promise<AsyncIterable<ChatCompletionChunk>>;
+}
+
+export interface LLMClient {
+  provider: ProviderName;
+  chat: { completions: ChatCompletions };
+}
+
+/**
+ * Error raised for a failed provider call. `status` is the upstream HTTP
+ * status when there was one (429, 5xx, ...), so callers can decide whether
+ * the request is worth retrying.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderName,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * LaTeX math in model output
+ *
+ * Models are asked to write formulas as LaTeX between $...$ (inline) or
+ * $$...$$ (displayed). Markdown output is rendered by remark-math; plain
+ * text fields (MCQ options, flashcards, Concept Booster steps) and the PDF
+ * exports split the text with splitMath and render each formula with KaTeX.
+ *
+ * Safe to import from both API routes and client components.
+ */
+
+import katex from "katex";
+
+export interface TextSegment {
+  type: "text";
+  value: string;
+}
+
+export interface MathSegment {
+  type: "math";
+  // The LaTeX source, without delimiters
+  value: string;
+  // $$...$$ or \[...\]: a formula on its own line
+  display: boolean;
+}
+
+export type MathTextSegment = TextSegment | MathSegment;
+
+/**
+ * Split text into plain text and formulas. Recognises $$...$$, \[...\],
+ * \(...\) and $...$. Like Pandoc, a single $ only opens a formula when it is
+ * not followed by a space, and only closes one when it is not preceded by a
+ * space or followed by a digit, so prices such as "$5 and $10" stay text.
+ * An escaped \$ is a literal dollar sign.
+ */
+export function splitMath(text: string): MathTextSegment[] {
+  const segments: MathTextSegment[] = [];
+  let plain = "";
+  let index = 0;
+
+  const pushMath = (value: string, display: boolean) => {
+    if (plain) segments.push({ type: "text", value: plain });
+    plain = "";
+    segments.push({ type: "math", value: value.trim(), display });
+  };
+
+  while (index < text.length) {
+    const rest = text.slice(index);
+
+    if (rest.startsWith("\\$")) {
+      plain += "$";
+      index += 2;
+      continue;
+    }
+
+    const block = rest.startsWith("$$") ? "$$" : rest.startsWith("\\[") ? "\\]" : rest.startsWith("\\(") ? "\\)" : null;
+    if (block) {
+      const end = text.indexOf(block, index + 2);
+      if (end > index + 2) {
+        pushMath(text.slice(index + 2, end), block !== "\\)");
+        index = end + 2;
+        continue;
+      }
+    }
+
+    if (rest[0] === "$" && rest[1] && !/\s|\$/.test(rest[1])) {
+      const close = /[^\s\\]\$(?!\d)/.exec(rest.slice(1));
+      // Inline formulas stay on one line
+      if (close && !rest.slice(1, close.index + 2).includes("\n")) {
+        pushMath(rest.slice(1, close.index + 2), false);
+        index += close.index + 3;
+        continue;
+      }
+    }
+
+    plain += text[index];
+    index++;
+  }
+
+  if (plain) segments.push({ type: "text", value: plain });
+  return segments;
+}
+
+export function containsMath(text: string): boolean {
+  return splitMath(text).some((segment) => segment.type === "math");
+}
+
+/**
+ * KaTeX HTML for a formula. Invalid LaTeX is shown as its source in red
+ * rather than throwing.
+ */
+export function renderMathToString(tex: string, display: boolean): string {
+  return katex.renderToString(tex, {
+    displayMode: display,
+    throwOnError: false,
+    output: "html",
+  });
+}
+
+/**
+ * Prompt rules asking the model for LaTeX math. JSON answers also need the
+ * backslashes escaped, or "\frac" arrives as a form feed followed by "rac".
+ */
+export function mathPromptRules(inJson: boolean): string {
+  const rules = [
+    "- Write every formula, equation, unit expression and symbol as LaTeX: $...$ inside a sentence (e.g. $v = u + at$) and $$...$$ for an equation on its own line.",
+    "- Do not write formulas as plain text (a/b, x^2, sqrt(x)) or Unicode symbols outside the $ delimiters.",
+  ];
+  if (inJson) {
+    rules.push('- Inside JSON strings, escape each LaTeX backslash: write "$\\\\frac{a}{b}$", not "$\\frac{a}{b}$".');
+  }
+  return rules.join("\n");
+}
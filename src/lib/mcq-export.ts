@@ -0,0 +1,325 @@
+/**
+ * MCQ export formats for learning management systems
+ *
+ * - Moodle XML: multichoice questions in a category named after the set
+ * - GIFT: Moodle's plain-text question format
+ * - IMS QTI 2.1: zip package with one assessmentItem per question, an
+ *   assessmentTest and an imsmanifest.xml (Canvas, Blackboard, TAO, ...)
+ * - Kahoot: .xlsx in the layout of Kahoot's quiz spreadsheet template
+ *
+ * Explanations become the question's general feedback. Everything is built
+ * in the browser; the zip-based formats use fflate. A set with a question
+ * whose answer is not one of its options is rejected with McqExportError.
+ */
+
+import { zipSync, strToU8 } from "fflate";
+import type { MCQ } from "@/components/MCQList";
+import { OPTION_LETTERS } from "@/lib/quiz";
+
+const DEFAULT_TITLE = "BrainBolt MCQs";
+
+/**
+ * Thrown when a question's answer is not one of its options. Every format
+ * marks the correct option, so exporting it would mark the wrong one or
+ * none and break the import.
+ */
+export class McqExportError extends Error {
+  constructor(
+    message: string,
+    public readonly questionNumbers: number[],
+  ) {
+    super(message);
+    this.name = "McqExportError";
+  }
+}
+
+function correctIndex(mcq: MCQ): number {
+  return OPTION_LETTERS.indexOf(mcq.correct.trim().toUpperCase() as (typeof OPTION_LETTERS)[number]);
+}
+
+function assertAnswerKeys(mcqs: MCQ[]) {
+  const invalid = mcqs.flatMap((mcq, index) => {
+    const correct = correctIndex(mcq);
+    return correct < 0 || correct >= mcq.options.length ? [index + 1] : [];
+  });
+  if (invalid.length > 0) {
+    throw new McqExportError(
+      `Question${invalid.length > 1 ? "s" : ""} ${invalid.join(", ")} ${invalid.length > 1 ? "have" : "has"} no correct answer among options ${OPTION_LETTERS.join("-")}, so the set cannot be exported.`,
+      invalid,
+    );
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// ============================================================================
+// Moodle XML
+// ============================================================================
+
+export function mcqsToMoodleXml(mcqs: MCQ[], title: string = DEFAULT_TITLE): string {
+  assertAnswerKeys(mcqs);
+  const text = (value: string) => `<text>${escapeXml(value)}</text>`;
+
+  const questions = mcqs.map((mcq, index) => {
+    const correct = correctIndex(mcq);
+    const answers = mcq.options.map((option, optIndex) =>
+      [
+        `    <answer fraction="${optIndex === correct ? 100 : 0}" format="plain_text">`,
+        `      ${text(option)}`,
+        `    </answer>`,
+      ].join("\n"),
+    );
+
+    return [
+      `  <question type="multichoice">`,
+      `    <name>${text(`Q${index + 1}`)}</name>`,
+      `    <questiontext format="plain_text">${text(mcq.question)}</questiontext>`,
+      `    <generalfeedback format="plain_text">${text(mcq.explanation || "")}</generalfeedback>`,
+      `    <defaultgrade>1</defaultgrade>`,
+      `    <penalty>0.3333333</penalty>`,
+      `    <hidden>0</hidden>`,
+      `    <single>true</single>`,
+      `    <shuffleanswers>true</shuffleanswers>`,
+      `    <answernumbering>ABCD</answernumbering>`,
+      ...answers,
+      `  </question>`,
+    ].join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<quiz>`,
+    `  <question type="category">`,
+    `    <category>${text(`$course$/top/${title.replace(/\//g, "-")}`)}</category>`,
+    `  </question>`,
+    ...questions,
+    `</quiz>`,
+    "",
+  ].join("\n");
+}
+
+// ============================================================================
+// GIFT
+// ============================================================================
+
+// GIFT control characters must be backslash-escaped inside question text
+function escapeGift(text: string): string {
+  return text.replace(/([~=#{}:\\])/g, "\\$1").replace(/\r?\n/g, "\\n");
+}
+
+export function mcqsToGift(mcqs: MCQ[], title: string = DEFAULT_TITLE): string {
+  assertAnswerKeys(mcqs);
+  const questions = mcqs.map((mcq, index) => {
+    const correct = correctIndex(mcq);
+    const answers = mcq.options.map(
+      (option, optIndex) => `  ${optIndex === correct ? "=" : "~"}${escapeGift(option)}`,
+    );
+    const feedback = mcq.explanation ? [`  ####${escapeGift(mcq.explanation)}`] : [];
+
+    return [
+      `::Q${index + 1}::${escapeGift(mcq.question)} {`,
+      ...answers,
+      ...feedback,
+      `}`,
+    ].join("\n");
+  });
+
+  return [`$CATEGORY: $course$/top/${title.replace(/\//g, "-")}`, "", questions.join("\n\n"), ""].join("\n");
+}
+
+// ============================================================================
+// IMS QTI 2.1
+// ============================================================================
+
+const QTI_NAMESPACE = `xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`;
+
+function qtiItem(mcq: MCQ, identifier: string, number: number): string {
+  const correct = OPTION_LETTERS[correctIndex(mcq)];
+  const choices = mcq.options.map(
+    (option, optIndex) =>
+      `        <simpleChoice identifier="${OPTION_LETTERS[optIndex]}">${escapeXml(option)}</simpleChoice>`,
+  );
+  // FEEDBACK is always set so the explanation shows after any response
+  const feedback = mcq.explanation
+    ? [
+        `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${escapeXml(mcq.explanation)}</modalFeedback>`,
+      ]
+    : [];
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentItem ${QTI_NAMESPACE} identifier="${identifier}" title="Question ${number}" adaptive="false" timeDependent="false">`,
+    `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">`,
+    `    <correctResponse><value>${correct}</value></correctResponse>`,
+    `  </responseDeclaration>`,
+    `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">`,
+    `    <defaultValue><value>0</value></defaultValue>`,
+    `  </outcomeDeclaration>`,
+    `  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>`,
+    `  <itemBody>`,
+    `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">`,
+    `      <prompt>${escapeXml(mcq.question)}</prompt>`,
+    ...choices,
+    `    </choiceInteraction>`,
+    `  </itemBody>`,
+    `  <responseProcessing>`,
+    `    <responseCondition>`,
+    `      <responseIf>`,
+    `        <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>`,
+    `        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>`,
+    `      </responseIf>`,
+    `    </responseCondition>`,
+    `    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>`,
+    `  </responseProcessing>`,
+    ...feedback,
+    `</assessmentItem>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Build a QTI 2.1 content package (zip)
+ */
+export function mcqsToQtiPackage(mcqs: MCQ[], title: string = DEFAULT_TITLE): Uint8Array {
+  assertAnswerKeys(mcqs);
+  const items = mcqs.map((mcq, index) => ({
+    identifier: `item${index + 1}`,
+    href: `items/item${index + 1}.xml`,
+    xml: qtiItem(mcq, `item${index + 1}`, index + 1),
+  }));
+
+  const test = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentTest ${QTI_NAMESPACE} identifier="test" title="${escapeXml(title)}">`,
+    `  <testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">`,
+    `    <assessmentSection identifier="section1" title="${escapeXml(title)}" visible="true">`,
+    ...items.map((item) => `      <assessmentItemRef identifier="${item.identifier}" href="${item.href}"/>`),
+    `    </assessmentSection>`,
+    `  </testPart>`,
+    `</assessmentTest>`,
+    "",
+  ].join("\n");
+
+  const manifest = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" identifier="MANIFEST-brainbolt" xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/imscp_v1p1.xsd">`,
+    `  <metadata>`,
+    `    <schema>QTIv2.1 Package</schema>`,
+    `    <schemaversion>1.0.0</schemaversion>`,
+    `  </metadata>`,
+    `  <organizations/>`,
+    `  <resources>`,
+    `    <resource identifier="test" type="imsqti_test_xmlv2p1" href="assessment.xml">`,
+    `      <file href="assessment.xml"/>`,
+    ...items.map((item) => `      <dependency identifierref="${item.identifier}"/>`),
+    `    </resource>`,
+    ...items.map((item) =>
+      [
+        `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">`,
+        `      <file href="${item.href}"/>`,
+        `    </resource>`,
+      ].join("\n"),
+    ),
+    `  </resources>`,
+    `</manifest>`,
+    "",
+  ].join("\n");
+
+  return zipSync({
+    "imsmanifest.xml": strToU8(manifest),
+    "assessment.xml": strToU8(test),
+    ...Object.fromEntries(items.map((item) => [item.href, strToU8(item.xml)])),
+  });
+}
+
+// ============================================================================
+// Kahoot spreadsheet
+// ============================================================================
+
+// Limits enforced by Kahoot's importer
+const KAHOOT_QUESTION_LIMIT = 120;
+const KAHOOT_ANSWER_LIMIT = 75;
+const KAHOOT_TIME_LIMIT_SECONDS = 30;
+// Kahoot's template has instructions above the header row; data starts below it
+const KAHOOT_HEADER_ROW = 8;
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+type Cell = string | number | null;
+
+function xlsxCell(value: Cell, ref: string): string {
+  if (value === null || value === "") return "";
+  if (typeof value === "number") return `<c r="${ref}"><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Minimal single-sheet .xlsx (inline strings, no styles)
+ */
+function buildXlsx(rows: Cell[][], sheetName: string): Uint8Array {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, colIndex) =>
+      xlsxCell(value, `${String.fromCharCode(65 + colIndex)}${rowIndex + 1}`),
+    );
+    return `<row r="${rowIndex + 1}">${cells.join("")}</row>`;
+  });
+
+  const files: Record<string, string> = {
+    "[Content_Types].xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    "_rels/.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    "xl/workbook.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    "xl/worksheets/sheet1.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows.join("")}</sheetData></worksheet>`,
+  };
+
+  return zipSync(Object.fromEntries(Object.entries(files).map(([name, xml]) => [name, strToU8(xml)])));
+}
+
+/**
+ * Build a spreadsheet matching Kahoot's "Quiz spreadsheet template". Long
+ * questions and answers are truncated to Kahoot's limits; explanations are
+ * dropped because Kahoot has no feedback column.
+ */
+export function mcqsToKahootXlsx(mcqs: MCQ[], title: string = DEFAULT_TITLE): Uint8Array {
+  assertAnswerKeys(mcqs);
+  const preamble: Cell[][] = [
+    [null, title],
+    [null, "Exported from BrainBolt in Kahoot's quiz spreadsheet layout"],
+  ];
+  while (preamble.length < KAHOOT_HEADER_ROW - 1) preamble.push([]);
+
+  const header: Cell[] = [
+    null,
+    `Question - max ${KAHOOT_QUESTION_LIMIT} characters`,
+    `Answer 1 - max ${KAHOOT_ANSWER_LIMIT} characters`,
+    `Answer 2 - max ${KAHOOT_ANSWER_LIMIT} characters`,
+    `Answer 3 - max ${KAHOOT_ANSWER_LIMIT} characters`,
+    `Answer 4 - max ${KAHOOT_ANSWER_LIMIT} characters`,
+    "Time limit (sec) – 5, 10, 20, 30, 60, 90, 120, or 240 secs",
+    "Correct answer(s) - choose at least one",
+  ];
+
+  const rows: Cell[][] = mcqs.map((mcq, index) => [
+    index + 1,
+    truncate(mcq.question, KAHOOT_QUESTION_LIMIT),
+    ...OPTION_LETTERS.map((_, optIndex) => truncate(mcq.options[optIndex] ?? "", KAHOOT_ANSWER_LIMIT)),
+    KAHOOT_TIME_LIMIT_SECONDS,
+    correctIndex(mcq) + 1,
+  ]);
+
+  return buildXlsx([...preamble, header, ...rows], "Sheet1");
+}
@@ -0,0 +1,122 @@
+/**
+ * Mermaid diagrams in model output
+ *
+ * Models write diagrams as fenced ```mermaid blocks in Markdown, or as the
+ * `diagram` field of a Concept Booster explanation. They are rendered to
+ * SVG in the browser for the page and to PNG for the PDF exports. Mermaid
+ * is large, so it is only loaded once a diagram is drawn.
+ *
+ * Browser only, except splitMermaidBlocks.
+ */
+
+import type { Mermaid } from "mermaid";
+
+export interface MarkdownPart {
+  type: "markdown" | "mermaid";
+  value: string;
+}
+
+export interface DiagramImage {
+  dataUrl: string;
+  // CSS pixels
+  width: number;
+  height: number;
+}
+
+// Pixels per CSS pixel in the PNG, so diagrams stay sharp when printed
+const IMAGE_SCALE = 2;
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+let nextDiagramId = 1;
+
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import("mermaid").then(({ default: mermaid }) => {
+      mermaid.initialize({
+        startOnLoad: false,
+        // Model output is untrusted: no click handlers or HTML in labels
+        securityLevel: "strict",
+        theme: "neutral",
+        // Plain SVG text, so the diagram can also be drawn onto a canvas
+        htmlLabels: false,
+      });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+}
+
+/**
+ * Split Markdown into text and its ```mermaid blocks
+ */
+export function splitMermaidBlocks(markdown: string): MarkdownPart[] {
+  const parts: MarkdownPart[] = [];
+  const fence = /^```mermaid[^\S\n]*\n([\s\S]*?)\n```[^\S\n]*$/gm;
+  let last = 0;
+
+  for (let match = fence.exec(markdown); match; match = fence.exec(markdown)) {
+    if (match.index > last) parts.push({ type: "markdown", value: markdown.slice(last, match.index) });
+    parts.push({ type: "mermaid", value: match[1] });
+    last = match.index + match[0].length;
+  }
+  if (last < markdown.length) parts.push({ type: "markdown", value: markdown.slice(last) });
+
+  return parts;
+}
+
+/**
+ * Render a diagram to an SVG string
+ *
+ * @throws When the diagram source is invalid
+ */
+export async function renderMermaidSvg(code: string): Promise<string> {
+  const mermaid = await loadMermaid();
+  const id = `mermaid-diagram-${nextDiagramId++}`;
+
+  try {
+    await mermaid.parse(code);
+    const { svg } = await mermaid.render(id, code);
+    return svg;
+  } finally {
+    // Mermaid leaves its scratch element behind when rendering fails
+    document.getElementById(`d${id}`)?.remove();
+  }
+}
+
+/**
+ * Render a diagram to a PNG for the PDF exports
+ *
+ * @returns null when the diagram source is invalid or cannot be drawn
+ */
+export async function renderMermaidImage(code: string): Promise<DiagramImage | null> {
+  try {
+    const svgText = await renderMermaidSvg(code);
+    const svg = new DOMParser().parseFromString(svgText, "image/svg+xml").documentElement;
+    const [, , width, height] = (svg.getAttribute("viewBox") || "").split(/[\s,]+/).map(Number);
+    if (!width || !height) return null;
+
+    // Mermaid sizes the SVG to its container; an image needs fixed pixels
+    svg.setAttribute("width", String(width));
+    svg.setAttribute("height", String(height));
+    svg.removeAttribute("style");
+
+    const image = new Image();
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(svg))}`;
+    await image.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(width * IMAGE_SCALE);
+    canvas.height = Math.ceil(height * IMAGE_SCALE);
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return { dataUrl: canvas.toDataURL("image/png"), width, height };
+  } catch (error) {
+    console.error("Diagram rendering failed:", error);
+    return null;
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Deterministic mock LLM provider
+ *
+ * Selected with LLM_PROVIDER=mock (or BRAINBOLT_PROVIDER_<TASK>=mock). Returns
+ * schema-valid fixtures for every task so the four tools can run offline, in
+ * CI and in tests. The same request always produces the same output.
+ *
+ * The task (and concept-booster step) is recognised from the prompts the API
+ * routes send, so keep the markers below in sync if those prompts change.
+ *
+ * Failure modes are selected with MOCK_LLM_FAILURE, either for every task
+ * ("rate_limit"), per task ("mcqs:malformed_json,flashcards:timeout") or per
+ * model id ("x-ai/grok-4.1-fast:rate_limit", to exercise model fallback):
+ * - malformed_json:       truncated JSON with a trailing comma
+ * - insufficient_context: the routes' INSUFFICIENT_CONTEXT error object
+ * - rate_limit:           throws a 429 provider error
+ * - timeout:              hangs until aborted or MOCK_LLM_TIMEOUT_MS passes,
+ *                         then throws a 504 provider error
+ *
+ * MOCK_LLM_LATENCY_MS adds a fixed delay before each response.
+ */
+
+import type { TaskType } from "@/lib/modelRouter";
+import {
+  LLMProviderError,
+  type ChatCompletion,
+  type ChatCompletionChunk,
+  type ChatCompletionParams,
+  type LLMClient,
+} from "@/lib/llm-types";
+
+export const MOCK_FAILURE_MODES = [
+  "malformed_json",
+  "insufficient_context",
+  "rate_limit",
+  "timeout",
+] as const;
+export type MockFailureMode = (typeof MOCK_FAILURE_MODES)[number];
+
+type ConceptStep =
+  | "diagnostic"
+  | "explanation"
+  | "ask_doubts"
+  | "check_understanding"
+  | "grading"
+  | "review"
+  | "practice"
+  | "feedback";
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+// ============================================================================
+// Request inspection
+// ============================================================================
+function detectTask(systemPrompt: string): TaskType {
+  if (systemPrompt.includes("MCQ generation engine")) return "mcqs";
+  if (systemPrompt.includes("Flashcard Generator")) return "flashcards";
+  if (systemPrompt.includes("Concept Booster")) return "concept_booster";
+  return "formatter";
+}
+
+function detectConceptStep(userPrompt: string): ConceptStep {
+  // Checked first: these prompts quote the student's free-text answers
+  if (userPrompt.includes("Provide feedback comparing")) return "feedback";
+  if (userPrompt.includes("Grade the learner's answers")) return "grading";
+  if (userPrompt.includes("Re-explain the missed concepts")) return "review";
+  if (userPrompt.includes("diagnostic questions to assess")) return "diagnostic";
+  if (userPrompt.includes("comprehensive explanation")) return "explanation";
+  if (userPrompt.includes("User's Doubt/Question:") || userPrompt.includes("ask doubts")) return "ask_doubts";
+  if (userPrompt.includes("check understanding")) return "check_understanding";
+  return "practice";
+}
+
+function matchLine(prompt: string, label: string): string | undefined {
+  const match = prompt.match(new RegExp(`^${label}:\\s*(.+)$`, "m"));
+  return match?.[1].trim();
+}
+
+function getFailureMode(task: TaskType, model: string): MockFailureMode | null {
+  const entries = (process.env.MOCK_LLM_FAILURE || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const separator = entry.lastIndexOf(":");
+    const scope = separator > 0 ? entry.slice(0, separator) : null;
+    const mode = entry.slice(separator + 1);
+    if (scope && scope !== task && scope !== model.toLowerCase()) continue;
+    if ((MOCK_FAILURE_MODES as readonly string[]).includes(mode)) {
+      return mode as MockFailureMode;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+function mcqFixture(userPrompt: string, systemPrompt: string) {
+  const requested = userPrompt.match(/Generate (\d+) (easy|medium|hard) difficulty/);
+  const numQuestions = Math.min(Math.max(parseInt(requested?.[1] || "5"), 1), 50);
+  const difficulty = requested?.[2] || "medium";
+  const includeExplanations = !systemPrompt.includes("Do NOT include explanations.");
+  const topic = matchLine(userPrompt, "Topic") || "the text";
+  const letters = ["A", "B", "C", "D"];
+
+  return {
+    status: "OK",
+    mcqs: Array.from({ length: numQuestions }, (_, index) => {
+      const id = index + 1;
+      const correct = letters[index % 4];
+      return {
+        id,
+        question: `Mock question ${id}: which statement about ${topic} is correct?`,
+        options: letters.map((letter) => `Statement ${id}${letter}`),
+        correct,
+        ...(includeExplanations
+          ? { explanation: `Statement ${id}${correct} is the one supported by the text.` }
+          : {}),
+      };
+    }),
+    metadata: {
+      num_questions_requested: numQuestions,
+      num_questions_generated: numQuestions,
+      difficulty,
+      source_tokens_estimate: Math.ceil(userPrompt.length / 4),
+    },
+  };
+}
+
+function flashcardFixture(userPrompt: string) {
+  const learningLevel = matchLine(userPrompt, "Learning Level") || "University Level";
+  const types = ["concept", "application", "trick"] as const;
+
+  const flashcards = Array.from({ length: 6 }, (_, index) => {
+    const type = types[index % 3];
+    return {
+      id: index + 1,
+      type,
+      front: `Mock ${type} card ${index + 1}: what is key idea ${Math.floor(index / 3) + 1}?`,
+      back: `Key idea ${Math.floor(index / 3) + 1} explained for ${learningLevel}.`,
+    };
+  });
+
+  return {
+    status: "OK",
+    flashcards,
+    metadata: {
+      learning_level: learningLevel,
+      total_cards: flashcards.length,
+      concept_cards: 2,
+      application_cards: 2,
+      trick_cards: 2,
+      tokens_estimate: Math.ceil(userPrompt.length / 4),
+    },
+  };
+}
+
+function conceptBoosterFixture(userPrompt: string) {
+  const step = detectConceptStep(userPrompt);
+  const topic = matchLine(userPrompt, "Topic") || "this topic";
+  const learningLevel = matchLine(userPrompt, "Learning Level") || "University Level";
+  const doubt = matchLine(userPrompt, "User's Doubt/Question");
+  // Blank answers are wrong, short ones half right
+  const gradedAnswers = [...userPrompt.matchAll(/^Learner's Answer (\d+): (.*)$/gm)].map(([, id, answer]) => {
+    const text = answer === "(no answer)" ? "" : answer.trim();
+    const verdict = !text ? "incorrect" : text.length < 30 ? "partial" : "correct";
+    return {
+      id: Number(id),
+      verdict,
+      rationale: `Mock grading: a ${verdict} answer.`,
+      ...(verdict !== "correct" ? { missed_concept: `Part ${id} of ${topic}` } : {}),
+    };
+  });
+  const missedConcepts = [...userPrompt.matchAll(/^- ([^:\n]+):/gm)].map(([, concept]) => concept);
+
+  const contentByStep: Record<ConceptStep, object> = {
+    diagnostic: {
+      questions: [
+        { id: 1, question: `What do you already know about ${topic}?` },
+        { id: 2, question: `Where have you seen ${topic} used?` },
+        { id: 3, question: `Which part of ${topic} feels hardest?` },
+      ],
+      message: `A few quick questions before we start on ${topic}.`,
+    },
+    explanation: {
+      explanation: {
+        simple_intuition: `${topic} in one sentence, without jargon.`,
+        analogy: `${topic} is like sorting laundry: similar things go together.`,
+        level_appropriate_detail: `A ${learningLevel} explanation of how ${topic} works, with a formula:\n\n$$a = \\frac{\\Delta v}{\\Delta t}$$`,
+        example: `A small worked example of ${topic}.`,
+        diagram: `flowchart LR\n  A["What you know"] --> B["${topic.replace(/"/g, "'")}"] --> C["Practice"]`,
+      },
+      message: `Here is ${topic}, step by step.`,
+    },
+    ask_doubts: doubt
+      ? { answer: `Mock answer to "${doubt}" in the context of ${topic}.`, message: "Good question!" }
+      : { message: `Ask anything you are unsure about in ${topic}.` },
+    check_understanding: {
+      understanding_check: {
+        questions: [1, 2, 3, 4].map((id) => ({
+          id,
+          question: `Check ${id}: explain part ${id} of ${topic}.`,
+          correct_answer: `Part ${id} of ${topic}, explained briefly.`,
+        })),
+      },
+      message: "Let's check what stuck.",
+    },
+    grading: {
+      grading: { results: gradedAnswers },
+      message: "Here is how your answers compare.",
+    },
+    review: {
+      review: {
+        concepts: missedConcepts.map((concept) => ({
+          concept,
+          explanation: `${concept}, explained another way.`,
+          example: `A short example of ${concept}.`,
+        })),
+      },
+      message: "Let's go over what was missed.",
+    },
+    practice: {
+      practice_task: {
+        task: `Apply ${topic} to a small problem of your choice and explain each step.`,
+        ideal_response: `A short solution that uses ${topic} correctly.`,
+      },
+      message: "Time to practise.",
+    },
+    feedback: {
+      feedback: {
+        comparison: `Your answer covers the main idea of ${topic}.`,
+        improvements: ["Name the key terms explicitly.", "Add one concrete example."],
+        misunderstandings: [`${topic} is not the same as its special cases.`],
+      },
+      message: "Nice work - here is how to make it even better.",
+    },
+  };
+
+  return {
+    status: "OK",
+    step,
+    content: contentByStep[step],
+    metadata: {
+      learning_level: learningLevel,
+      topic,
+      tokens_estimate: Math.ceil(userPrompt.length / 4),
+    },
+  };
+}
+
+function learningPathFixture(userPrompt: string) {
+  const goal = matchLine(userPrompt, "Goal") || "this goal";
+
+  return {
+    status: "OK",
+    nodes: [
+      { id: "foundations", title: `Foundations of ${goal}`, description: "The basic ideas everything else builds on.", prerequisites: [] },
+      { id: "key-terms", title: `Key terms in ${goal}`, description: "The vocabulary used in the rest of the path.", prerequisites: [] },
+      { id: "core-method", title: `Core method of ${goal}`, description: "How the main technique works.", prerequisites: ["foundations", "key-terms"] },
+      { id: "goal", title: goal, description: "Putting it all together.", prerequisites: ["core-method"] },
+    ],
+    metadata: { tokens_estimate: Math.ceil(userPrompt.length / 4) },
+  };
+}
+
+function formattedFixture(userPrompt: string): string {
+  const points = userPrompt
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  return [
+    "# Formatted Answer",
+    "",
+    "## Key Points",
+    "",
+    ...(points.length > 0 ? points.map((point) => `- ${point}`) : ["- *(empty answer)*"]),
+  ].join("\n");
+}
+
+function insufficientContextFixture(task: TaskType) {
+  return {
+    status: "ERROR",
+    error_code: "INSUFFICIENT_CONTEXT",
+    message: `Mock provider: not enough context to generate ${task.replace("_", " ")}.`,
+  };
+}
+
+/**
+ * Break valid JSON the way models commonly do: a trailing comma inside an
+ * array and a response that stops before the closing brace.
+ */
+function malformJson(json: string): string {
+  return json.replace(/\n(\s*)\]/, ",\n$1]").replace(/\}\s*$/, "");
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException("The operation was aborted.", "AbortError"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException("The operation was aborted.", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function generate(params: ChatCompletionParams): Promise<string> {
+  const systemPrompt = params.messages.find((m) => m.role === "system")?.content || "";
+  const userPrompt = [...params.messages].reverse().find((m) => m.role === "user")?.content || "";
+  const task = detectTask(systemPrompt);
+  const failure = getFailureMode(task, params.model);
+
+  const latency = parseInt(process.env.MOCK_LLM_LATENCY_MS || "0") || 0;
+  if (latency > 0) {
+    await sleep(latency, params.signal);
+  }
+
+  if (failure === "rate_limit") {
+    throw new LLMProviderError(
+      `mock API error: 429 ${JSON.stringify({ error: { message: "Rate limit exceeded (mock)" } })}`,
+      "mock",
+      429,
+    );
+  }
+
+  if (failure === "timeout") {
+    await sleep(parseInt(process.env.MOCK_LLM_TIMEOUT_MS || "") || DEFAULT_TIMEOUT_MS, params.signal);
+    throw new LLMProviderError("mock API error: 504 request timed out (mock)", "mock", 504);
+  }
+
+  if (task === "formatter") {
+    // Markdown output has no JSON failure modes
+    return formattedFixture(userPrompt);
+  }
+
+  if (failure === "insufficient_context") {
+    return JSON.stringify(insufficientContextFixture(task), null, 2);
+  }
+
+  const fixture =
+    task === "mcqs"
+      ? mcqFixture(userPrompt, systemPrompt)
+      : task === "flashcards"
+        ? flashcardFixture(userPrompt)
+        : systemPrompt.includes("Learning Path Planner")
+          ? learningPathFixture(userPrompt)
+          : conceptBoosterFixture(userPrompt);
+  const json = JSON.stringify(fixture, null, 2);
+
+  return failure === "malformed_json" ? malformJson(json) : json;
+}
+
+async function* streamContent(
+  content: string,
+  signal?: AbortSignal,
+): AsyncGenerator<ChatCompletionChunk> {
+  const pieces = content.match(/\S+\s*|\s+/g) || [];
+  for (const piece of pieces) {
+    await sleep(STREAM_CHUNK_DELAY_MS, signal);
+    yield { choices: [{ delta: { content: piece } }] };
+  }
+}
+
+export function createMockClient(): LLMClient {
+  async function create(params: ChatCompletionParams & { stream?: false }): Promise<ChatCompletion>;
+  async function create(params: ChatCompletionParams & { stream: true }): Promise<AsyncIterable<ChatCompletionChunk>>;
+  async function create(
+    params: ChatCompletionParams & { stream?: boolean },
+  ): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> {
+    const content = await generate(params);
+
+    if (params.stream) {
+      return streamContent(content, params.signal);
+    }
+
+    return { choices: [{ message: { content } }] };
+  }
+
+  return {
+    provider: "mock",
+    chat: {
+      completions: { create },
+    },
+  };
+}
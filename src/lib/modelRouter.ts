@@ -5,19 +5,71 @@
  * Each feature gets the optimal model for its specific use case.
  */
 
+import { getDefaultProvider, isProviderName, type ProviderName } from "@/lib/llm-providers";
+
 export type TaskType = "formatter" | "flashcards" | "mcqs" | "concept_booster";
 
+export interface ModelCandidate {
+  provider: ProviderName;
+  model: string;
+}
+
+/**
+ * How a request moves through the fallback chain: each model gets one
+ * attempt of at most `attemptTimeoutMs`; before the next model we wait
+ * `backoffBaseMs * 2^(n-1)`, capped at `backoffMaxMs`.
+ */
+export interface RetryPolicy {
+  attemptTimeoutMs: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
 export interface ModelConfig {
+  provider: ProviderName;
   model: string;
   temperature?: number;
   description: string;
+  // Tried in order when the primary model fails with a retryable error
+  fallbacks: ModelCandidate[];
+  retry: RetryPolicy;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attemptTimeoutMs: 45 * 1000,
+  backoffBaseMs: 500,
+  backoffMaxMs: 8 * 1000,
+};
+
+/**
+ * Parse a comma-separated fallback list. Entries are model ids, optionally
+ * pinned to a provider with "@": "x-ai/grok-4.1,llama-3.1-8b-instant@groq"
+ */
+function parseFallbackList(value: string, defaultProvider: ProviderName): ModelCandidate[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const at = entry.lastIndexOf("@");
+      const provider = at > 0 ? entry.slice(at + 1).trim().toLowerCase() : "";
+      return isProviderName(provider)
+        ? { provider, model: entry.slice(0, at).trim() }
+        : { provider: defaultProvider, model: entry };
+    });
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
 }
 
 /**
  * Get the optimal model configuration for a specific task
  * 
  * @param task - The task type (formatter, flashcards, mcqs, concept_booster)
- * @returns Model configuration with model name and temperature
+ * @returns Model configuration with provider, model name, temperature,
+ *          fallback chain and retry policy
  */
 export function getModel(task: TaskType): ModelConfig {
   // Allow override via environment variable (for all tasks)
@@ -31,6 +83,14 @@ export function getModel(task: TaskType): ModelConfig {
     concept_booster: process.env.BRAINBOLT_MODEL_CONCEPT_BOOSTER,
   };
 
+  // Task-specific provider overrides (optional), e.g. BRAINBOLT_PROVIDER_MCQS=groq
+  const taskProviders: Record<TaskType, string | undefined> = {
+    formatter: process.env.BRAINBOLT_PROVIDER_FORMATTER,
+    flashcards: process.env.BRAINBOLT_PROVIDER_FLASHCARDS,
+    mcqs: process.env.BRAINBOLT_PROVIDER_MCQS,
+    concept_booster: process.env.BRAINBOLT_PROVIDER_CONCEPT_BOOSTER,
+  };
+
   // Default models for each task
   const defaultModels: Record<TaskType, string> = {
     formatter: "x-ai/grok-4.1-fast",
@@ -39,6 +99,22 @@ export function getModel(task: TaskType): ModelConfig {
     concept_booster: "meta-llama/llama-3.1-70b-instruct", // Fast, reliable, and high quality
   };
 
+  // Fallback models, tried in order (OpenRouter ids; only used with OpenRouter)
+  const defaultFallbacks: Record<TaskType, string[]> = {
+    formatter: ["x-ai/grok-4.1", "google/gemini-2.0-flash-exp:free"],
+    flashcards: ["x-ai/grok-4.1", "google/gemini-2.0-flash-exp:free"],
+    mcqs: ["x-ai/grok-4.1", "google/gemini-2.0-flash-exp:free"],
+    concept_booster: ["x-ai/grok-4.1-fast", "google/gemini-2.0-flash-exp:free"],
+  };
+
+  // Task-specific fallback overrides (optional), e.g. BRAINBOLT_FALLBACK_MODELS_MCQS
+  const taskFallbacks: Record<TaskType, string | undefined> = {
+    formatter: process.env.BRAINBOLT_FALLBACK_MODELS_FORMATTER,
+    flashcards: process.env.BRAINBOLT_FALLBACK_MODELS_FLASHCARDS,
+    mcqs: process.env.BRAINBOLT_FALLBACK_MODELS_MCQS,
+    concept_booster: process.env.BRAINBOLT_FALLBACK_MODELS_CONCEPT_BOOSTER,
+  };
+
   // Task-specific temperature settings
   const temperatures: Record<TaskType, number> = {
     formatter: 0.2, // Low temperature for consistent formatting
@@ -50,10 +126,38 @@ export function getModel(task: TaskType): ModelConfig {
   // Priority: task-specific override > global override > default
   const model = taskModels[task] || globalModel || defaultModels[task];
 
+  // Priority: task-specific provider > LLM_PROVIDER > openrouter
+  const taskProvider = taskProviders[task]?.trim().toLowerCase();
+  const provider = isProviderName(taskProvider) ? taskProvider : getDefaultProvider();
+
+  // Priority: task-specific list > global list > defaults (OpenRouter only).
+  // An empty variable (BRAINBOLT_FALLBACK_MODELS=) disables fallbacks.
+  const fallbackList = taskFallbacks[task] ?? process.env.BRAINBOLT_FALLBACK_MODELS;
+  const fallbacks = fallbackList !== undefined
+    ? parseFallbackList(fallbackList, provider)
+    : provider === "openrouter"
+      ? defaultFallbacks[task].map((fallbackModel) => ({ provider, model: fallbackModel }))
+      : [];
+
+  const retry: RetryPolicy = {
+    attemptTimeoutMs: parsePositiveInt(
+      process.env.BRAINBOLT_ATTEMPT_TIMEOUT_MS,
+      DEFAULT_RETRY_POLICY.attemptTimeoutMs,
+    ),
+    backoffBaseMs: parsePositiveInt(
+      process.env.BRAINBOLT_BACKOFF_BASE_MS,
+      DEFAULT_RETRY_POLICY.backoffBaseMs,
+    ),
+    backoffMaxMs: DEFAULT_RETRY_POLICY.backoffMaxMs,
+  };
+
   return {
+    provider,
     model,
     temperature: temperatures[task],
-    description: `Model for ${task}: ${model} (temperature: ${temperatures[task]})`,
+    description: `Model for ${task}: ${provider}/${model} (temperature: ${temperatures[task]})`,
+    fallbacks,
+    retry,
   };
 }
 
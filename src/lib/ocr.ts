@@ -0,0 +1,503 @@
+/**
+ * OCR helpers shared by OCRUploader and scanned-PDF pages in DocumentUploader
+ *
+ * Tesseract's worker, WASM core and traineddata are served from
+ * /public/tesseract (copied from node_modules by scripts/copy-ocr-assets.mjs),
+ * so recognition works offline. Workers are kept in a pool between uploads
+ * and pages are recognised in parallel. The student's language choice is
+ * kept in localStorage and shared by every uploader.
+ */
+
+import type { ImageLike, Page, Scheduler, WorkerOptions } from "tesseract.js";
+
+export type OcrScript = "Latin" | "Devanagari" | "Bengali" | "Arabic";
+
+export interface OcrLanguage {
+  // Tesseract language code
+  code: string;
+  label: string;
+  script: OcrScript;
+  rtl?: boolean;
+}
+
+// Keep in sync with LANGUAGES in scripts/copy-ocr-assets.mjs
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: "eng", label: "English", script: "Latin" },
+  { code: "fra", label: "French", script: "Latin" },
+  { code: "spa", label: "Spanish", script: "Latin" },
+  { code: "deu", label: "German", script: "Latin" },
+  { code: "por", label: "Portuguese", script: "Latin" },
+  { code: "hin", label: "Hindi", script: "Devanagari" },
+  { code: "mar", label: "Marathi", script: "Devanagari" },
+  { code: "ben", label: "Bengali", script: "Bengali" },
+  { code: "urd", label: "Urdu", script: "Arabic", rtl: true },
+  { code: "ara", label: "Arabic", script: "Arabic", rtl: true },
+  { code: "fas", label: "Persian", script: "Arabic", rtl: true },
+];
+
+// Tesseract slows down with every extra model, so combinations are capped
+export const MAX_OCR_LANGUAGES = 3;
+
+export interface OcrSettings {
+  // Tesseract codes, combined as "eng+hin"
+  languages: string[];
+  // Detect the script of each image first and pick matching languages
+  autoDetect: boolean;
+}
+
+export const DEFAULT_OCR_SETTINGS: OcrSettings = {
+  languages: ["eng"],
+  autoDetect: false,
+};
+
+export interface OcrWord {
+  text: string;
+  // Tesseract's confidence in the word, 0-100
+  confidence: number;
+}
+
+export interface OcrResult {
+  text: string;
+  // Mean word confidence for the image, 0-100
+  confidence: number;
+  // Recognised words line by line; an empty line separates paragraphs
+  lines: OcrWord[][];
+  // Languages actually used, after auto-detection
+  languages: string[];
+  // Script reported by auto-detection, if it ran and was confident
+  detectedScript: string | null;
+}
+
+// Words below this confidence are highlighted for the student to check
+export const LOW_CONFIDENCE = 60;
+
+const OCR_ASSETS: Partial<WorkerOptions> = {
+  workerPath: "/tesseract/worker.min.js",
+  corePath: "/tesseract/core",
+  langPath: "/tesseract/lang",
+};
+
+// The OSD model only exists for the legacy engine
+const OSD_LANG_PATH = "/tesseract/lang-legacy";
+
+// Below this OSD confidence the student's own selection is used as-is
+const MIN_SCRIPT_CONFIDENCE = 2;
+
+export function getOcrLanguage(code: string): OcrLanguage | undefined {
+  return OCR_LANGUAGES.find((language) => language.code === code);
+}
+
+export function describeOcrLanguages(codes: string[]): string {
+  return codes.map((code) => getOcrLanguage(code)?.label ?? code).join(" + ");
+}
+
+/**
+ * Languages to recognise an image in once its script is known: the
+ * student's selected languages in that script (or the first language we have
+ * for it), plus English when selected, since notes often mix in English terms.
+ */
+export function languagesForScript(script: string, selected: string[]): string[] {
+  const inScript = OCR_LANGUAGES.filter((language) => language.script === script);
+  if (inScript.length === 0) return selected;
+
+  const chosen = inScript.filter((language) => selected.includes(language.code)).map((language) => language.code);
+  const languages = chosen.length > 0 ? chosen : [inScript[0].code];
+  if (selected.includes("eng") && !languages.includes("eng")) {
+    languages.push("eng");
+  }
+  return languages.slice(0, MAX_OCR_LANGUAGES);
+}
+
+const RTL_CHARS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/g;
+const LTR_CHARS = /[A-Za-z\u00C0-\u024F\u0900-\u09FF]/g;
+const RLM = "\u200F";
+
+/**
+ * Prefix right-to-left lines with a right-to-left mark so they keep their
+ * direction when a line starts with a number or an English word (textareas
+ * and PDFs otherwise lay the line out left to right).
+ */
+export function markRtlLines(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => {
+      const rtl = line.match(RTL_CHARS)?.length ?? 0;
+      const ltr = line.match(LTR_CHARS)?.length ?? 0;
+      return rtl > ltr && !line.startsWith(RLM) ? `${RLM}${line}` : line;
+    })
+    .join("\n");
+}
+
+function toLines(page: Page): OcrWord[][] {
+  const lines: OcrWord[][] = [];
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      if (lines.length > 0) lines.push([]);
+      for (const line of paragraph.lines) {
+        lines.push(
+          line.words
+            .filter((word) => word.text.trim())
+            .map((word) => ({ text: word.text, confidence: Math.round(word.confidence) })),
+        );
+      }
+    }
+  }
+  return lines;
+}
+
+function linesToText(lines: OcrWord[][], corrections: Record<string, string>): string {
+  return lines
+    .map((words, lineIndex) =>
+      words
+        .map((word, wordIndex) => corrections[`${lineIndex}:${wordIndex}`] ?? word.text)
+        .filter((text) => text.trim())
+        .join(" "),
+    )
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function hasRtlLanguage(languages: string[]): boolean {
+  return languages.some((code) => getOcrLanguage(code)?.rtl);
+}
+
+/**
+ * Text of a recognised image with the student's corrections applied.
+ * `corrections` is keyed by "line:word" index into `result.lines`.
+ */
+export function applyOcrCorrections(result: OcrResult, corrections: Record<string, string>): string {
+  if (result.lines.length === 0) return result.text;
+  const text = linesToText(result.lines, corrections);
+  return hasRtlLanguage(result.languages) ? markRtlLines(text) : text;
+}
+
+// ============================================================================
+// Worker pool
+// ============================================================================
+
+// Each worker loads its own copy of the models, so the pool is capped
+const MAX_POOL_SIZE = 4;
+// Workers are kept between uploads and shut down after this long unused
+const POOL_IDLE_MS = 5 * 60 * 1000;
+
+interface OcrPool {
+  // Language combination the workers were loaded with, e.g. "eng+hin"
+  languages: string;
+  scheduler: Promise<Scheduler>;
+  // Batches currently using the pool
+  users: number;
+  // Rejects jobs that are queued or running when the pool is shut down, by job id
+  pending: Map<string, (reason: unknown) => void>;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface OcrBatchOptions {
+  signal?: AbortSignal;
+  // Called with the 0-based page index and that page's progress (0-1)
+  onProgress?: (page: number, progress: number) => void;
+}
+
+const pools = new Map<string, OcrPool>();
+// Workers report progress for whichever job they run; listeners are keyed by job id
+const progressListeners = new Map<string, (progress: number) => void>();
+let jobCounter = 0;
+
+/**
+ * Number of workers per pool: one per core, leaving a core for the page
+ */
+export function ocrPoolSize(): number {
+  const cores = typeof navigator !== "undefined" && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  return Math.min(MAX_POOL_SIZE, Math.max(1, cores - 1));
+}
+
+async function createScheduler(languages: string): Promise<Scheduler> {
+  const Tesseract = await import("tesseract.js");
+  const scheduler = Tesseract.createScheduler();
+  const created = await Promise.allSettled(
+    Array.from({ length: ocrPoolSize() }, () =>
+      Tesseract.createWorker(languages, undefined, {
+        ...OCR_ASSETS,
+        logger: (m) => {
+          if (m.status === "recognizing text") {
+            progressListeners.get(m.userJobId)?.(m.progress);
+          }
+        },
+      }),
+    ),
+  );
+
+  created.forEach((result) => {
+    if (result.status === "fulfilled") scheduler.addWorker(result.value);
+  });
+  const failed = created.find((result): result is PromiseRejectedResult => result.status === "rejected");
+  if (failed) {
+    await scheduler.terminate();
+    throw failed.reason;
+  }
+  return scheduler;
+}
+
+function shutDownPool(pool: OcrPool, reason: unknown): void {
+  if (pools.get(pool.languages) === pool) pools.delete(pool.languages);
+  if (pool.idleTimer) clearTimeout(pool.idleTimer);
+
+  pool.pending.forEach((reject, jobId) => {
+    progressListeners.delete(jobId);
+    reject(reason);
+  });
+  pool.pending.clear();
+  pool.scheduler.then((scheduler) => scheduler.terminate()).catch(() => {});
+}
+
+// Reject some of a pool's jobs without stopping its workers
+function cancelJobs(pool: OcrPool, jobIds: Iterable<string>, reason: unknown): void {
+  for (const jobId of jobIds) {
+    const reject = pool.pending.get(jobId);
+    if (!reject) continue;
+    pool.pending.delete(jobId);
+    progressListeners.delete(jobId);
+    reject(reason);
+  }
+}
+
+function acquirePool(languages: string): OcrPool {
+  let pool = pools.get(languages);
+  if (!pool) {
+    // Usually one combination is in use at a time; free idle pools' memory
+    pools.forEach((other) => {
+      if (other.users === 0) shutDownPool(other, new Error("OCR workers were shut down."));
+    });
+
+    const created: OcrPool = {
+      languages,
+      scheduler: createScheduler(languages),
+      users: 0,
+      pending: new Map(),
+      idleTimer: null,
+    };
+    // A pool whose workers failed to start is dropped so the next batch retries
+    created.scheduler.catch(() => {
+      if (pools.get(languages) === created) pools.delete(languages);
+    });
+    pools.set(languages, created);
+    pool = created;
+  }
+
+  if (pool.idleTimer) {
+    clearTimeout(pool.idleTimer);
+    pool.idleTimer = null;
+  }
+  pool.users += 1;
+  return pool;
+}
+
+function releasePool(pool: OcrPool): void {
+  pool.users -= 1;
+  if (pool.users === 0 && pools.get(pool.languages) === pool) {
+    pool.idleTimer = setTimeout(() => shutDownPool(pool, new Error("OCR workers were shut down.")), POOL_IDLE_MS);
+  }
+}
+
+function runJob(
+  pool: OcrPool,
+  image: ImageLike,
+  onProgress: (progress: number) => void,
+  batchJobs: Set<string>,
+): Promise<Page> {
+  jobCounter += 1;
+  const jobId = `ocr-${jobCounter}`;
+  progressListeners.set(jobId, onProgress);
+  batchJobs.add(jobId);
+
+  return new Promise<Page>((resolve, reject) => {
+    pool.pending.set(jobId, reject);
+    pool.scheduler
+      // Word-level output is needed for per-word confidence
+      .then((scheduler) => scheduler.addJob("recognize", image, {}, { text: true, blocks: true }, jobId))
+      .then((result) => resolve(result.data), reject)
+      .finally(() => {
+        pool.pending.delete(jobId);
+        progressListeners.delete(jobId);
+      });
+  });
+}
+
+async function detectScripts(images: ImageLike[], signal?: AbortSignal): Promise<(string | null)[]> {
+  const { createWorker, OEM } = await import("tesseract.js");
+  const worker = await createWorker("osd", OEM.TESSERACT_ONLY, {
+    ...OCR_ASSETS,
+    langPath: OSD_LANG_PATH,
+    legacyCore: true,
+    legacyLang: true,
+  });
+
+  const scripts: (string | null)[] = [];
+  try {
+    for (const image of images) {
+      if (signal?.aborted) break;
+      try {
+        const { data } = await worker.detect(image);
+        scripts.push(data.script && (data.script_confidence ?? 0) >= MIN_SCRIPT_CONFIDENCE ? data.script : null);
+      } catch (error) {
+        // Detection is a convenience; fall back to the selected languages
+        console.warn("OCR script detection failed:", error);
+        scripts.push(null);
+      }
+    }
+  } finally {
+    await worker.terminate();
+  }
+  return scripts;
+}
+
+/**
+ * Recognise several images (e.g. pages of notes) in parallel on the shared
+ * worker pool. Results are returned in the order of `images`, whatever order
+ * the workers finish in. Aborting `signal` rejects with the abort reason
+ * and stops the workers, unless another batch is still using them.
+ */
+export async function recognizePages(
+  images: ImageLike[],
+  settings: OcrSettings,
+  { signal, onProgress }: OcrBatchOptions = {},
+): Promise<OcrResult[]> {
+  const abortReason = () => signal?.reason ?? new DOMException("OCR was cancelled.", "AbortError");
+  if (signal?.aborted) throw abortReason();
+
+  const selected = settings.languages.length > 0 ? settings.languages : DEFAULT_OCR_SETTINGS.languages;
+  let scripts: (string | null)[] = images.map(() => null);
+  if (settings.autoDetect) {
+    try {
+      scripts = await detectScripts(images, signal);
+    } catch (error) {
+      console.warn("OCR script detection failed:", error);
+    }
+    if (signal?.aborted) throw abortReason();
+  }
+
+  // Auto-detection can give pages different languages; each combination has its own pool
+  const languagesByPage = scripts.map((script) => (script ? languagesForScript(script, selected) : selected));
+  const pagesByLanguages = new Map<string, number[]>();
+  languagesByPage.forEach((languages, page) => {
+    const key = languages.join("+");
+    pagesByLanguages.set(key, [...(pagesByLanguages.get(key) ?? []), page]);
+  });
+
+  const results: OcrResult[] = new Array(images.length);
+  for (const [key, pages] of pagesByLanguages) {
+    if (signal?.aborted) throw abortReason();
+    const pool = acquirePool(key);
+    const jobIds = new Set<string>();
+    // Tesseract cannot stop a job midway, so cancelling shuts the pool's
+    // workers down. If another batch (e.g. a second uploader) shares the
+    // pool, only this batch's jobs are rejected and their results dropped.
+    const onAbort = () => {
+      if (pool.users === 1) {
+        shutDownPool(pool, abortReason());
+      } else {
+        cancelJobs(pool, jobIds, abortReason());
+      }
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      await Promise.all(
+        pages.map(async (page) => {
+          const data = await runJob(pool, images[page], (progress) => onProgress?.(page, progress), jobIds);
+          const languages = languagesByPage[page];
+          const lines = toLines(data);
+          const text = lines.length > 0 ? linesToText(lines, {}) : data.text.trim();
+          results[page] = {
+            text: hasRtlLanguage(languages) ? markRtlLines(text) : text,
+            confidence: Math.round(data.confidence),
+            lines,
+            languages,
+            detectedScript: scripts[page],
+          };
+          onProgress?.(page, 1);
+        }),
+      );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      releasePool(pool);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Recognise the text in a single image with the given settings
+ */
+export async function recognizeText(
+  image: ImageLike,
+  settings: OcrSettings,
+  onProgress?: (progress: number) => void,
+): Promise<OcrResult> {
+  const [result] = await recognizePages([image], settings, {
+    onProgress: (_page, progress) => onProgress?.(progress),
+  });
+  return result;
+}
+
+// ============================================================================
+// Saved settings
+// ============================================================================
+const STORAGE_KEY = "brainbolt_ocr_settings";
+const CHANGE_EVENT = "brainbolt:ocr-settings-changed";
+
+let cachedRaw: string | null = null;
+let cachedSettings: OcrSettings = DEFAULT_OCR_SETTINGS;
+
+/**
+ * The student's OCR settings. Returns the same object until storage
+ * changes, so it can be used as a useSyncExternalStore snapshot.
+ */
+export function loadOcrSettings(): OcrSettings {
+  if (typeof window === "undefined") return DEFAULT_OCR_SETTINGS;
+
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw === cachedRaw) return cachedSettings;
+
+  cachedRaw = raw;
+  try {
+    const parsed = raw ? (JSON.parse(raw) as Partial<OcrSettings>) : {};
+    const languages = Array.isArray(parsed.languages)
+      ? parsed.languages.filter((code) => typeof code === "string" && getOcrLanguage(code))
+      : [];
+    cachedSettings = {
+      languages: languages.length > 0 ? languages.slice(0, MAX_OCR_LANGUAGES) : DEFAULT_OCR_SETTINGS.languages,
+      autoDetect: parsed.autoDetect === true,
+    };
+  } catch {
+    cachedSettings = DEFAULT_OCR_SETTINGS;
+  }
+  return cachedSettings;
+}
+
+// Server snapshot for useSyncExternalStore
+export function loadOcrSettingsOnServer(): OcrSettings {
+  return DEFAULT_OCR_SETTINGS;
+}
+
+export function saveOcrSettings(settings: OcrSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving OCR settings:", error);
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/**
+ * Subscribe to OCR setting changes from this tab and from other tabs
+ */
+export function subscribeToOcrSettings(onChange: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener("storage", onChange);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
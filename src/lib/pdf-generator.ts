@@ -2,8 +2,76 @@ import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import { MCQ } from "@/components/MCQList";
 import { Flashcard } from "@/components/FlashcardDisplay";
+import { EXAM_VERSION_LABELS, examTotalMarks, type ExamPaperSettings, type ExamVersion } from "@/lib/exam-paper";
+import { containsMath, splitMath, type MathTextSegment } from "@/lib/math";
+import { renderMermaidImage, splitMermaidBlocks } from "@/lib/mermaid";
+import { drawRichLine, drawRichText, layoutRichText, type RichTextStyle } from "@/lib/pdf-math";
+
+const PAGE_MARGIN = 14;
+const PAGE_BOTTOM = 280;
+const PX_TO_MM = 25.4 / 96;
+const DIAGRAM_MAX_HEIGHT = 150;
+
+// Formulas in the MCQ and exam exports are rendered as images (see lib/pdf-math.ts)
+const MCQ_QUESTION_STYLE: RichTextStyle = { fontSize: 12, fontStyle: "bold", lineHeight: 5 };
+const MCQ_OPTION_STYLE: RichTextStyle = { fontSize: 11, lineHeight: 5 };
+const ANSWER_KEY_STYLE: RichTextStyle = { fontSize: 10, lineHeight: 4.1 };
+const ANSWER_KEY_CELL_PADDING = 2;
+
+/**
+ * Q / Answer / Explanation table. Explanations with formulas are drawn by
+ * the hooks instead of autoTable.
+ */
+const drawAnswerKeyTable = async (
+    doc: jsPDF,
+    questions: Array<Pick<MCQ, "correct" | "explanation">>,
+    startY: number,
+) => {
+    const explanationWidth = doc.internal.pageSize.width - PAGE_MARGIN * 2 - 35;
+    const explanations = await Promise.all(
+        questions.map((question) =>
+            question.explanation && containsMath(question.explanation)
+                ? layoutRichText(doc, question.explanation, explanationWidth - ANSWER_KEY_CELL_PADDING * 2, ANSWER_KEY_STYLE)
+                : null,
+        ),
+    );
+
+    const answerData = questions.map((question, index) => [
+        `${index + 1}`,
+        question.correct,
+        question.explanation || "-"
+    ]);
+
+    autoTable(doc, {
+        startY,
+        margin: { horizontal: PAGE_MARGIN },
+        head: [["Q", "Answer", "Explanation"]],
+        body: answerData,
+        styles: { cellPadding: ANSWER_KEY_CELL_PADDING },
+        columnStyles: {
+            0: { cellWidth: 15 },
+            1: { cellWidth: 20 },
+            2: { cellWidth: explanationWidth },
+        },
+        headStyles: { fillColor: [66, 133, 244] }, // Google Blue-ish
+        didParseCell: (data) => {
+            const block = data.section === "body" && data.column.index === 2 ? explanations[data.row.index] : null;
+            if (block) {
+                data.cell.text = [];
+                data.cell.styles.minCellHeight = block.height + ANSWER_KEY_CELL_PADDING * 2;
+            }
+        },
+        didDrawCell: (data) => {
+            const block = data.section === "body" && data.column.index === 2 ? explanations[data.row.index] : null;
+            if (block) {
+                doc.setTextColor(20, 20, 20);
+                drawRichText(doc, block, data.cell.x + ANSWER_KEY_CELL_PADDING, data.cell.y + ANSWER_KEY_CELL_PADDING);
+            }
+        },
+    });
+};
 
-export const generateMCQPDF = (mcqs: MCQ[], title: string = "BrainBolt Generated MCQs") => {
+export const generateMCQPDF = async (mcqs: MCQ[], title: string = "BrainBolt Generated MCQs") => {
     const doc = new jsPDF();
 
     // Title
@@ -14,69 +82,42 @@ export const generateMCQPDF = (mcqs: MCQ[], title: string = "BrainBolt Generated
     doc.setTextColor(100, 100, 100);
     doc.text(`Generated on ${new Date().toLocaleDateString()}`, 14, 30);
 
-    let yPos = 40;
+    // Top of the next line
+    let yPos = 36;
+    doc.setTextColor(0, 0, 0);
 
-    mcqs.forEach((mcq, index) => {
-        // Check for page break
-        if (yPos > 270) {
+    for (const [index, mcq] of mcqs.entries()) {
+        const question = await layoutRichText(doc, `${index + 1}. ${mcq.question}`, 180, MCQ_QUESTION_STYLE);
+        const options = await Promise.all(
+            mcq.options.map((option, optIdx) =>
+                layoutRichText(doc, `${String.fromCharCode(65 + optIdx)}. ${option}`, 170, MCQ_OPTION_STYLE),
+            ),
+        );
+
+        // Keep each question and its options on one page
+        const height = question.height + 2 + options.reduce((sum, option) => sum + option.height, 0);
+        if (yPos + height > PAGE_BOTTOM && yPos > 36) {
             doc.addPage();
-            yPos = 20;
+            yPos = 16;
         }
 
-        // Question
-        doc.setFontSize(12);
-        doc.setTextColor(0, 0, 0);
-        doc.setFont("helvetica", "bold");
-
-        const questionText = `${index + 1}. ${mcq.question}`;
-        const splitQuestion = doc.splitTextToSize(questionText, 180);
-        doc.text(splitQuestion, 14, yPos);
-
-        yPos += splitQuestion.length * 5 + 2;
-
-        // Options
-        doc.setFont("helvetica", "normal");
-        doc.setFontSize(11);
-
-        mcq.options.forEach((option, optIdx) => {
-            const optionLetter = String.fromCharCode(65 + optIdx);
-            const optionText = `${optionLetter}. ${option}`;
-            const splitOption = doc.splitTextToSize(optionText, 170);
-
-            // Highlight correct answer if needed (optional - usually PDFs are for testing so maybe don't highlight?)
-            // For now, let's keep it clean like a test paper. 
-            // We can add an answer key at the end.
-
-            doc.text(splitOption, 20, yPos);
-            yPos += splitOption.length * 5;
+        // Options are kept clean like a test paper; the answer key follows
+        yPos = drawRichText(doc, question, 14, yPos) + 2;
+        options.forEach((option) => {
+            yPos = drawRichText(doc, option, 20, yPos);
         });
 
         yPos += 5; // Spacing between questions
-    });
+    }
 
     // Add Answer Key on a new page
     doc.addPage();
+    doc.setFont("helvetica", "normal");
     doc.setFontSize(18);
     doc.setTextColor(40, 40, 40);
     doc.text("Answer Key", 14, 22);
 
-    const answerData = mcqs.map((mcq, index) => [
-        `${index + 1}`,
-        mcq.correct,
-        mcq.explanation || "-"
-    ]);
-
-    autoTable(doc, {
-        startY: 30,
-        head: [["Q", "Answer", "Explanation"]],
-        body: answerData,
-        columnStyles: {
-            0: { cellWidth: 15 },
-            1: { cellWidth: 20 },
-            2: { cellWidth: 'auto' },
-        },
-        headStyles: { fillColor: [66, 133, 244] }, // Google Blue-ish
-    });
+    await drawAnswerKeyTable(doc, mcqs, 30);
 
     doc.save("brainbolt-mcqs.pdf");
 };
@@ -139,7 +180,7 @@ export const generateFlashcardPDF = (flashcards: Flashcard[], title: string = "B
     doc.save("brainbolt-flashcards.pdf");
 };
 
-export const generateFormattedTextPDF = (content: string, title: string = "BrainBolt Formatted Content") => {
+export const generateFormattedTextPDF = async (content: string, title: string = "BrainBolt Formatted Content") => {
     const doc = new jsPDF();
 
     // Title
@@ -151,33 +192,298 @@ export const generateFormattedTextPDF = (content: string, title: string = "Brain
     doc.text(`Generated on ${new Date().toLocaleDateString()}`, 14, 30);
 
     // Content
-    doc.setFontSize(11);
     doc.setTextColor(0, 0, 0);
-    doc.setFont("helvetica", "normal");
 
-    let yPos = 45;
+    // Top of the next line
+    let yPos = 41;
     const pageHeight = doc.internal.pageSize.height;
     const pageWidth = doc.internal.pageSize.width;
     const margin = 14;
     const maxWidth = pageWidth - (margin * 2);
 
-    // Simple markdown processing (remove markdown syntax for PDF)
-    const cleanContent = content
-        .replace(/#{1,6}\s/g, '') // Remove heading markers
-        .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold markers
-        .replace(/\*(.*?)\*/g, '$1') // Remove italic markers
-        .replace(/`(.*?)`/g, '$1'); // Remove code markers
+    const drawText = async (segments: MathTextSegment[]) => {
+        const block = await layoutRichText(doc, segments, maxWidth, { fontSize: 11, lineHeight: 6 });
+        block.lines.forEach((line) => {
+            const lineHeight = line.ascent + line.descent;
+            if (yPos + lineHeight > pageHeight - 16) {
+                doc.addPage();
+                yPos = 16;
+            }
+            drawRichLine(doc, block, line, margin, yPos);
+            yPos += lineHeight;
+        });
+    };
+
+    for (const part of splitMermaidBlocks(content)) {
+        if (part.type === "mermaid") {
+            // Diagrams are centred images; one that cannot be drawn is printed as its source
+            const image = await renderMermaidImage(part.value);
+            if (!image) {
+                await drawText([{ type: "text", value: part.value }]);
+                continue;
+            }
+
+            const scale = Math.min(
+                1,
+                maxWidth / (image.width * PX_TO_MM),
+                DIAGRAM_MAX_HEIGHT / (image.height * PX_TO_MM),
+            );
+            const width = image.width * PX_TO_MM * scale;
+            const height = image.height * PX_TO_MM * scale;
+            if (yPos + height + 4 > pageHeight - 16) {
+                doc.addPage();
+                yPos = 16;
+            }
+            doc.addImage(image.dataUrl, "PNG", margin + (maxWidth - width) / 2, yPos + 2, width, height);
+            yPos += height + 6;
+            continue;
+        }
 
-    const lines = doc.splitTextToSize(cleanContent, maxWidth);
+        // Simple markdown processing (remove markdown syntax for PDF), leaving formulas alone
+        await drawText(splitMath(part.value).map((segment) =>
+            segment.type === "math"
+                ? segment
+                : {
+                    ...segment,
+                    value: segment.value
+                        .replace(/#{1,6}\s/g, '') // Remove heading markers
+                        .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold markers
+                        .replace(/\*(.*?)\*/g, '$1') // Remove italic markers
+                        .replace(/`(.*?)`/g, '$1'), // Remove code markers
+                },
+        ));
+    }
 
-    lines.forEach((line: string) => {
-        if (yPos > pageHeight - 20) {
+    doc.save("brainbolt-formatted.pdf");
+};
+
+// ============================================================================
+// Exam papers (see lib/exam-paper.ts)
+// ============================================================================
+
+// School, title, subject/set, duration/marks; returns the y position below it
+const drawExamHeader = (
+    doc: jsPDF,
+    settings: ExamPaperSettings,
+    version: ExamVersion,
+    subtitle?: string,
+): number => {
+    const pageWidth = doc.internal.pageSize.width;
+    const right = pageWidth - PAGE_MARGIN;
+    let yPos = 18;
+
+    doc.setTextColor(0, 0, 0);
+    if (settings.school) {
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(16);
+        doc.text(settings.school, pageWidth / 2, yPos, { align: "center" });
+        yPos += 8;
+    }
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(13);
+    doc.text(subtitle || settings.title || "Examination", pageWidth / 2, yPos, { align: "center" });
+    yPos += 9;
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(11);
+    doc.text(`Subject: ${settings.subject || "-"}`, PAGE_MARGIN, yPos);
+    doc.setFont("helvetica", "bold");
+    doc.text(`Set ${version.label}`, right, yPos, { align: "right" });
+    yPos += 6;
+
+    doc.setFont("helvetica", "normal");
+    doc.text(
+        `Duration: ${settings.durationMinutes ? `${settings.durationMinutes} minutes` : "-"}`,
+        PAGE_MARGIN,
+        yPos,
+    );
+    doc.text(`Maximum Marks: ${examTotalMarks(settings, version.questions.length)}`, right, yPos, { align: "right" });
+    yPos += 4;
+
+    doc.setDrawColor(0, 0, 0);
+    doc.line(PAGE_MARGIN, yPos, right, yPos);
+    return yPos + 8;
+};
+
+// Labelled write-in lines, e.g. "Name: ________"
+const drawCandidateFields = (doc: jsPDF, yPos: number): number => {
+    const fields: [string, number, number][] = [
+        ["Name:", PAGE_MARGIN, 80],
+        ["Roll No:", 100, 40],
+        ["Class/Section:", 146, 50],
+    ];
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(11);
+    doc.setDrawColor(120, 120, 120);
+    fields.forEach(([label, x, width]) => {
+        doc.text(label, x, yPos);
+        const labelWidth = doc.getTextWidth(label) + 2;
+        doc.line(x + labelWidth, yPos + 1, x + width, yPos + 1);
+    });
+    return yPos + 10;
+};
+
+const addPageFooters = (doc: jsPDF, label: string) => {
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(9);
+        doc.setTextColor(120, 120, 120);
+        doc.text(`${label} • Page ${page} of ${pageCount}`, doc.internal.pageSize.width / 2, 290, { align: "center" });
+    }
+    doc.setTextColor(0, 0, 0);
+};
+
+const drawBubble = (doc: jsPDF, x: number, y: number, letter: string, filled: boolean = false) => {
+    doc.setDrawColor(0, 0, 0);
+    doc.setFillColor(0, 0, 0);
+    doc.circle(x, y, 2.4, filled ? "FD" : "S");
+    if (!filled) {
+        doc.setFontSize(6.5);
+        doc.text(letter, x, y + 0.9, { align: "center" });
+    }
+};
+
+// OMR-style bubble sheet: candidate details, roll number grid, set code and answer bubbles
+const drawOmrSheet = (doc: jsPDF, settings: ExamPaperSettings, version: ExamVersion) => {
+    doc.addPage();
+    let yPos = drawExamHeader(doc, settings, version, "OMR Answer Sheet");
+    yPos = drawCandidateFields(doc, yPos);
+
+    doc.setFont("helvetica", "italic");
+    doc.setFontSize(9);
+    doc.text("Use a dark pen or pencil. Fill one bubble completely for each question.", PAGE_MARGIN, yPos);
+    yPos += 8;
+
+    // Roll number: a write-in box and a 0-9 bubble column per digit
+    const rollDigits = 6;
+    const gridTop = yPos;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text("Roll Number", PAGE_MARGIN, gridTop);
+    doc.setFont("helvetica", "normal");
+    for (let col = 0; col < rollDigits; col++) {
+        const x = PAGE_MARGIN + 4 + col * 7;
+        doc.rect(x - 3, gridTop + 2, 6, 6);
+        for (let digit = 0; digit <= 9; digit++) {
+            drawBubble(doc, x, gridTop + 12 + digit * 5.5, String(digit));
+        }
+    }
+
+    // Set code, pre-filled for this version
+    const setX = PAGE_MARGIN + 4 + rollDigits * 7 + 12;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text("Set", setX - 3, gridTop);
+    doc.setFont("helvetica", "normal");
+    EXAM_VERSION_LABELS.slice(0, Math.max(settings.versions, 1)).forEach((label, index) => {
+        drawBubble(doc, setX, gridTop + 12 + index * 5.5, label, label === version.label);
+    });
+
+    // Answers, in columns of rows "n. (A) (B) (C) (D)"
+    yPos = gridTop + 12 + 10 * 5.5 + 4;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text("Answers", PAGE_MARGIN, yPos);
+    yPos += 7;
+
+    const rowHeight = 7;
+    const columnWidth = 46;
+    const columnsPerPage = 4;
+    let areaTop = yPos;
+    // Columns on the first page start below the roll number grid
+    let rowsPerColumn = Math.floor((PAGE_BOTTOM - areaTop) / rowHeight);
+    let pageStart = 0;
+
+    version.questions.forEach((question, index) => {
+        let slot = index - pageStart;
+        if (slot >= rowsPerColumn * columnsPerPage) {
             doc.addPage();
-            yPos = 20;
+            areaTop = 20;
+            rowsPerColumn = Math.floor((PAGE_BOTTOM - areaTop) / rowHeight);
+            pageStart = index;
+            slot = 0;
         }
-        doc.text(line, margin, yPos);
-        yPos += 6;
+        const column = Math.floor(slot / rowsPerColumn);
+        const row = slot % rowsPerColumn;
+        const x = PAGE_MARGIN + column * columnWidth;
+        const y = areaTop + row * rowHeight;
+
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(9);
+        doc.text(`${index + 1}.`, x + 6, y + 1, { align: "right" });
+        doc.setFont("helvetica", "normal");
+        question.options.forEach((_, optIdx) => {
+            drawBubble(doc, x + 11 + optIdx * 8, y, String.fromCharCode(65 + optIdx));
+        });
     });
+};
 
-    doc.save("brainbolt-formatted.pdf");
+/**
+ * Question paper for one version, optionally followed by its OMR sheet
+ */
+export const buildExamPaperPDF = async (version: ExamVersion, settings: ExamPaperSettings): Promise<jsPDF> => {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.width;
+    const textWidth = pageWidth - PAGE_MARGIN * 2;
+
+    let yPos = drawExamHeader(doc, settings, version);
+    yPos = drawCandidateFields(doc, yPos);
+
+    if (settings.instructions.trim()) {
+        doc.setFont("helvetica", "italic");
+        doc.setFontSize(10);
+        const instructions = doc.splitTextToSize(`Instructions: ${settings.instructions.trim()}`, textWidth);
+        doc.text(instructions, PAGE_MARGIN, yPos);
+        yPos += instructions.length * 5 + 6;
+    }
+
+    // From here on, the top of the next line
+    yPos -= 4;
+    doc.setTextColor(0, 0, 0);
+
+    for (const [index, question] of version.questions.entries()) {
+        const questionBlock = await layoutRichText(doc, `${index + 1}. ${question.question}`, textWidth, MCQ_QUESTION_STYLE);
+        const options = await Promise.all(
+            question.options.map((option, optIdx) =>
+                layoutRichText(doc, `${String.fromCharCode(65 + optIdx)}. ${option}`, textWidth - 8, MCQ_OPTION_STYLE),
+            ),
+        );
+
+        // Keep each question and its options on one page
+        const height = questionBlock.height + 2 + options.reduce((sum, option) => sum + option.height, 0);
+        if (yPos + height > PAGE_BOTTOM) {
+            doc.addPage();
+            yPos = 16;
+        }
+
+        yPos = drawRichText(doc, questionBlock, PAGE_MARGIN, yPos) + 2;
+        options.forEach((option) => {
+            yPos = drawRichText(doc, option, PAGE_MARGIN + 6, yPos);
+        });
+        yPos += 5;
+    }
+
+    if (settings.includeOmrSheet) {
+        drawOmrSheet(doc, settings, version);
+    }
+
+    addPageFooters(doc, `Set ${version.label}`);
+    return doc;
+};
+
+/**
+ * Answer key for one version (kept separate from the question paper)
+ */
+export const buildExamAnswerKeyPDF = async (version: ExamVersion, settings: ExamPaperSettings): Promise<jsPDF> => {
+    const doc = new jsPDF();
+    const yPos = drawExamHeader(doc, settings, version, `Answer Key - Set ${version.label}`);
+
+    await drawAnswerKeyTable(doc, version.questions, yPos);
+
+    addPageFooters(doc, `Answer Key - Set ${version.label}`);
+    return doc;
 };
@@ -0,0 +1,282 @@
+/**
+ * LaTeX math in the jsPDF exports
+ *
+ * jsPDF's built-in fonts cannot draw formulas, so each formula is rendered
+ * by KaTeX into an offscreen element, rasterised with html2canvas and placed
+ * on the line as an image. The text around it is laid out word by word.
+ * When a formula cannot be rendered, its LaTeX source is printed instead.
+ *
+ * Browser only: the PDF exports run client-side.
+ */
+
+import type jsPDF from "jspdf";
+import { renderMathToString, splitMath, type MathTextSegment } from "@/lib/math";
+
+// Formulas are rendered at this CSS font size; it maps to the PDF font size
+const RENDER_FONT_PX = 16;
+// Canvas pixels per CSS pixel, so formulas stay sharp when printed
+const RENDER_SCALE = 3;
+const PT_TO_MM = 25.4 / 72;
+
+interface MathImage {
+    id: number;
+    dataUrl: string;
+    // In em of the surrounding text
+    width: number;
+    height: number;
+    // Height above the baseline
+    ascent: number;
+}
+
+export interface RichTextStyle {
+    // Points
+    fontSize: number;
+    fontStyle?: "normal" | "bold" | "italic";
+    // Millimetres between baselines of lines without formulas
+    lineHeight: number;
+}
+
+type RichItem =
+    | { kind: "text"; text: string; x: number }
+    | { kind: "math"; image: MathImage; x: number; width: number; height: number; ascent: number };
+
+export interface RichLine {
+    items: RichItem[];
+    width: number;
+    // Millimetres above and below the baseline
+    ascent: number;
+    descent: number;
+    // Displayed formulas are centred on their own line
+    center: boolean;
+}
+
+export interface RichTextBlock {
+    lines: RichLine[];
+    height: number;
+    style: RichTextStyle;
+    maxWidth: number;
+}
+
+const imageCache = new Map<string, Promise<MathImage | null>>();
+let nextImageId = 1;
+
+const rasteriseMath = async (tex: string, display: boolean): Promise<MathImage | null> => {
+    if (typeof document === "undefined") return null;
+
+    // Displayed formulas are rendered inline in display style, which keeps
+    // the big operators but drops KaTeX's centring margins
+    const html = renderMathToString(display ? `\\displaystyle ${tex}` : tex, false);
+    const host = document.createElement("div");
+    host.style.cssText = `position:fixed;left:-10000px;top:0;font-size:${RENDER_FONT_PX}px;line-height:normal;color:#000;`;
+    // The zero-height marker sits on the baseline
+    host.innerHTML = `<span style="display:inline-block;padding:1px">${html}<span style="display:inline-block;width:0;height:0"></span></span>`;
+    document.body.appendChild(host);
+
+    try {
+        const box = host.firstElementChild as HTMLElement;
+        const marker = box.lastElementChild as HTMLElement;
+        // Lay out once so the KaTeX fonts start loading, then wait for them
+        box.getBoundingClientRect();
+        await document.fonts?.ready;
+
+        const rect = box.getBoundingClientRect();
+        const baseline = marker.getBoundingClientRect().top - rect.top;
+        const { default: html2canvas } = await import("html2canvas");
+        const canvas = await html2canvas(box, { backgroundColor: null, scale: RENDER_SCALE, logging: false });
+
+        return {
+            id: nextImageId++,
+            dataUrl: canvas.toDataURL("image/png"),
+            width: rect.width / RENDER_FONT_PX,
+            height: rect.height / RENDER_FONT_PX,
+            ascent: baseline / RENDER_FONT_PX,
+        };
+    } catch (error) {
+        console.error("Formula rendering failed:", error);
+        return null;
+    } finally {
+        host.remove();
+    }
+};
+
+const renderMathImage = (tex: string, display: boolean): Promise<MathImage | null> => {
+    const key = `${display ? "display" : "inline"}:${tex}`;
+    let image = imageCache.get(key);
+    if (!image) {
+        image = rasteriseMath(tex, display);
+        imageCache.set(key, image);
+    }
+    return image;
+};
+
+const applyStyle = (doc: jsPDF, style: RichTextStyle) => {
+    doc.setFont("helvetica", style.fontStyle ?? "normal");
+    doc.setFontSize(style.fontSize);
+};
+
+/**
+ * Break text with $...$ / $$...$$ formulas into lines no wider than
+ * maxWidth (mm). Pass segments instead of text to preprocess the plain
+ * parts, e.g. to strip Markdown.
+ */
+export const layoutRichText = async (
+    doc: jsPDF,
+    text: string | MathTextSegment[],
+    maxWidth: number,
+    style: RichTextStyle,
+): Promise<RichTextBlock> => {
+    const segments = typeof text === "string" ? splitMath(text) : text;
+    const images = await Promise.all(
+        segments.map((segment) => (segment.type === "math" ? renderMathImage(segment.value, segment.display) : null)),
+    );
+
+    applyStyle(doc, style);
+    const em = style.fontSize * PT_TO_MM;
+    const textAscent = style.lineHeight * 0.7;
+    const textDescent = style.lineHeight - textAscent;
+    const spaceWidth = doc.getTextWidth(" ");
+
+    const lines: RichLine[] = [];
+    let line: RichLine;
+    let pendingSpace = false;
+
+    const newLine = (center = false) => {
+        line = { items: [], width: 0, ascent: textAscent, descent: textDescent, center };
+        lines.push(line);
+        pendingSpace = false;
+    };
+    // Start a new line unless the current one is still empty
+    const breakLine = () => {
+        if (line.items.length > 0) newLine();
+    };
+    newLine();
+
+    const placeWord = (word: string) => {
+        const width = doc.getTextWidth(word);
+        if (width > maxWidth) {
+            breakLine();
+            const pieces: string[] = doc.splitTextToSize(word, maxWidth);
+            pieces.forEach((piece, index) => {
+                if (index > 0) newLine();
+                placeWord(piece);
+            });
+            return;
+        }
+
+        let gap = pendingSpace && line.items.length > 0 ? spaceWidth : 0;
+        if (line.width + gap + width > maxWidth && line.items.length > 0) {
+            newLine();
+            gap = 0;
+        }
+
+        const last = line.items[line.items.length - 1];
+        if (last?.kind === "text") {
+            last.text += (gap ? " " : "") + word;
+        } else {
+            line.items.push({ kind: "text", text: word, x: line.width + gap });
+        }
+        line.width += gap + width;
+        pendingSpace = false;
+    };
+
+    const placeImage = (image: MathImage) => {
+        const scale = Math.min(1, maxWidth / (image.width * em));
+        const width = image.width * em * scale;
+        const height = image.height * em * scale;
+        const ascent = image.ascent * em * scale;
+
+        let gap = pendingSpace && line.items.length > 0 ? spaceWidth : 0;
+        if (line.width + gap + width > maxWidth && line.items.length > 0) {
+            newLine();
+            gap = 0;
+        }
+
+        line.items.push({ kind: "math", image, x: line.width + gap, width, height, ascent });
+        line.width += gap + width;
+        line.ascent = Math.max(line.ascent, ascent);
+        line.descent = Math.max(line.descent, height - ascent);
+        pendingSpace = false;
+    };
+
+    const placeText = (value: string) => {
+        value.split(/(\s+)/).forEach((part) => {
+            if (!part) return;
+            if (!/^\s+$/.test(part)) {
+                placeWord(part);
+                return;
+            }
+
+            const breaks = part.split("\n").length - 1;
+            for (let i = 0; i < breaks; i++) newLine();
+            if (breaks === 0) pendingSpace = true;
+        });
+    };
+
+    segments.forEach((segment, index) => {
+        if (segment.type === "text") {
+            placeText(segment.value);
+            return;
+        }
+
+        const image = images[index];
+        if (segment.display) {
+            breakLine();
+            line.center = true;
+        }
+        if (image) {
+            placeImage(image);
+        } else {
+            placeText(segment.value);
+        }
+        if (segment.display) newLine();
+    });
+
+    // Drop the empty line a trailing newline or formula leaves behind
+    if (lines.length > 1 && lines[lines.length - 1].items.length === 0) lines.pop();
+
+    return {
+        lines,
+        height: lines.reduce((sum, current) => sum + current.ascent + current.descent, 0),
+        style,
+        maxWidth,
+    };
+};
+
+/**
+ * Draw one line with its top at `top` (mm)
+ */
+export const drawRichLine = (doc: jsPDF, block: RichTextBlock, line: RichLine, x: number, top: number) => {
+    applyStyle(doc, block.style);
+    const baseline = top + line.ascent;
+    const offset = line.center ? (block.maxWidth - line.width) / 2 : 0;
+
+    line.items.forEach((item) => {
+        if (item.kind === "text") {
+            doc.text(item.text, x + offset + item.x, baseline);
+        } else {
+            doc.addImage(
+                item.image.dataUrl,
+                "PNG",
+                x + offset + item.x,
+                baseline - item.ascent,
+                item.width,
+                item.height,
+                `math-${item.image.id}`,
+            );
+        }
+    });
+};
+
+/**
+ * Draw a whole block with its top at `top` (mm), without page breaks
+ *
+ * @returns The y position below the block
+ */
+export const drawRichText = (doc: jsPDF, block: RichTextBlock, x: number, top: number): number => {
+    let y = top;
+    block.lines.forEach((line) => {
+        drawRichLine(doc, block, line, x, y);
+        y += line.ascent + line.descent;
+    });
+    return y;
+};
@@ -0,0 +1,117 @@
+/**
+ * Preset validation shared by the /api/presets route
+ *
+ * Each tool stores a different set of form settings. Settings are validated
+ * against a per-tool whitelist so that only known fields with the expected
+ * types are persisted.
+ */
+
+export const PRESET_TOOL_TYPES = ["mcq", "flashcard", "format", "concept-booster"] as const;
+
+export type PresetToolType = (typeof PRESET_TOOL_TYPES)[number];
+
+export type PresetSettings = Record<string, string | number | boolean>;
+
+export const MAX_PRESET_NAME_LENGTH = 60;
+export const MAX_PRESETS_PER_TOOL = 20;
+
+type FieldRule =
+  | { type: "string"; maxLength: number; values?: readonly string[] }
+  | { type: "integer"; min: number; max: number }
+  | { type: "boolean" };
+
+const MODEL_RULE: FieldRule = { type: "string", maxLength: 100 };
+const LEVEL_RULE: FieldRule = { type: "string", maxLength: 100 };
+
+const SETTINGS_SCHEMAS: Record<PresetToolType, Record<string, FieldRule>> = {
+  mcq: {
+    numQuestions: { type: "integer", min: 1, max: 50 },
+    difficulty: { type: "string", maxLength: 10, values: ["easy", "medium", "hard"] },
+    includeExplanations: { type: "boolean" },
+    model: MODEL_RULE,
+  },
+  flashcard: {
+    learningLevel: LEVEL_RULE,
+    customLevel: LEVEL_RULE,
+    model: MODEL_RULE,
+  },
+  format: {
+    model: MODEL_RULE,
+  },
+  "concept-booster": {
+    learningLevel: LEVEL_RULE,
+    customLevel: LEVEL_RULE,
+    model: MODEL_RULE,
+  },
+};
+
+export function isPresetToolType(value: unknown): value is PresetToolType {
+  return typeof value === "string" && (PRESET_TOOL_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a preset name (already trimmed)
+ */
+export function validatePresetName(name: unknown): { valid: boolean; error?: string } {
+  if (typeof name !== "string" || name.trim().length === 0) {
+    return { valid: false, error: "Preset name is required." };
+  }
+
+  if (name.trim().length > MAX_PRESET_NAME_LENGTH) {
+    return {
+      valid: false,
+      error: `Preset name must be at most ${MAX_PRESET_NAME_LENGTH} characters.`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate settings for a tool and return only the whitelisted fields
+ */
+export function validatePresetSettings(
+  toolType: PresetToolType,
+  settings: unknown,
+): { valid: boolean; error?: string; settings?: PresetSettings } {
+  if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+    return { valid: false, error: "Settings must be an object." };
+  }
+
+  const schema = SETTINGS_SCHEMAS[toolType];
+  const input = settings as Record<string, unknown>;
+  const cleaned: PresetSettings = {};
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = input[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    if (rule.type === "string") {
+      if (typeof value !== "string" || value.length > rule.maxLength) {
+        return { valid: false, error: `Setting "${field}" must be a string of at most ${rule.maxLength} characters.` };
+      }
+      if (rule.values && !rule.values.includes(value)) {
+        return { valid: false, error: `Setting "${field}" must be one of: ${rule.values.join(", ")}.` };
+      }
+      cleaned[field] = value;
+    } else if (rule.type === "integer") {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < rule.min || value > rule.max) {
+        return { valid: false, error: `Setting "${field}" must be an integer between ${rule.min} and ${rule.max}.` };
+      }
+      cleaned[field] = value;
+    } else {
+      if (typeof value !== "boolean") {
+        return { valid: false, error: `Setting "${field}" must be true or false.` };
+      }
+      cleaned[field] = value;
+    }
+  }
+
+  if (Object.keys(cleaned).length === 0) {
+    return { valid: false, error: "Settings do not contain any values for this tool." };
+  }
+
+  return { valid: true, settings: cleaned };
+}
@@ -0,0 +1,26 @@
+/**
+ * Prisma client singleton
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ * Next.js hot reloading creates new module instances in development, so the
+ * client is cached on globalThis to avoid exhausting database connections.
+ */
+
+import { PrismaClient } from "@prisma/client";
+
+// SECURITY: Ensure this code only runs server-side
+if (typeof window !== "undefined") {
+  throw new Error("Prisma client cannot be used from client-side code.");
+}
+
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const prisma: PrismaClient =
+  globalForPrisma.prisma ??
+  new PrismaClient({
+    log: process.env.NODE_ENV === "development" ? ["warn", "error"] : ["error"],
+  });
+
+if (process.env.NODE_ENV !== "production") {
+  globalForPrisma.prisma = prisma;
+}
@@ -0,0 +1,220 @@
+/**
+ * Quiz mode shared definitions
+ *
+ * Safe to import from both API routes and client components. A quiz is built
+ * from a generated MCQ set; finished attempts are saved to history (feature
+ * "quiz") through /api/quiz-attempts so they can be reviewed later.
+ */
+
+import type { MCQ } from "@/components/MCQList";
+
+export const OPTION_LETTERS = ["A", "B", "C", "D"] as const;
+
+export type QuizLayout = "one-by-one" | "single-page";
+
+export interface QuizSettings {
+  layout: QuizLayout;
+  // null = untimed
+  timeLimitMinutes: number | null;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+  layout: "one-by-one",
+  timeLimitMinutes: null,
+  shuffleQuestions: false,
+  shuffleOptions: false,
+};
+
+export const QUIZ_TIME_LIMITS = [5, 10, 15, 20, 30, 45, 60] as const;
+
+/**
+ * A question as presented in the quiz. Options are in display order and
+ * `correct` is the letter of the right option in that order.
+ */
+export interface QuizQuestion {
+  id: number;
+  question: string;
+  options: string[];
+  correct: string;
+  explanation?: string;
+}
+
+export interface QuizAnswer extends QuizQuestion {
+  // Letter picked by the student, null when left unanswered
+  selected: string | null;
+}
+
+export interface QuizAttempt {
+  title?: string;
+  settings: QuizSettings;
+  answers: QuizAnswer[];
+  score: number;
+  total: number;
+  durationSeconds: number;
+  timedOut: boolean;
+  completedAt: string;
+}
+
+export const MAX_QUIZ_QUESTIONS = 50;
+const MAX_TEXT_LENGTH = 2000;
+
+// ============================================================================
+// Building & scoring
+// ============================================================================
+
+/**
+ * Fisher-Yates shuffle (returns a new array)
+ */
+export function shuffle<T>(items: readonly T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Turn an MCQ set into quiz questions, shuffling as configured
+ */
+export function buildQuiz(
+  mcqs: MCQ[],
+  settings: QuizSettings,
+  random: () => number = Math.random,
+): QuizQuestion[] {
+  const ordered = settings.shuffleQuestions ? shuffle(mcqs, random) : mcqs;
+
+  return ordered.map((mcq) => {
+    const correctIndex = OPTION_LETTERS.indexOf(mcq.correct.toUpperCase() as (typeof OPTION_LETTERS)[number]);
+    const order = mcq.options.map((_, index) => index);
+    const displayOrder = settings.shuffleOptions ? shuffle(order, random) : order;
+
+    return {
+      id: mcq.id,
+      question: mcq.question,
+      options: displayOrder.map((index) => mcq.options[index]),
+      correct: OPTION_LETTERS[displayOrder.indexOf(correctIndex)] ?? mcq.correct,
+      explanation: mcq.explanation,
+    };
+  });
+}
+
+export function scoreAnswers(answers: QuizAnswer[]): number {
+  return answers.filter((answer) => answer.selected === answer.correct).length;
+}
+
+// ============================================================================
+// Validation (used by /api/quiz-attempts)
+// ============================================================================
+
+function isShortString(value: unknown): value is string {
+  return typeof value === "string" && value.length <= MAX_TEXT_LENGTH;
+}
+
+function validateSettings(value: unknown): QuizSettings | null {
+  if (typeof value !== "object" || value === null) return null;
+  const settings = value as Record<string, unknown>;
+
+  const layout = settings.layout;
+  const timeLimit = settings.timeLimitMinutes;
+  if (layout !== "one-by-one" && layout !== "single-page") return null;
+  if (
+    timeLimit !== null &&
+    !(typeof timeLimit === "number" && Number.isInteger(timeLimit) && timeLimit > 0 && timeLimit <= 180)
+  ) {
+    return null;
+  }
+
+  return {
+    layout,
+    timeLimitMinutes: timeLimit,
+    shuffleQuestions: settings.shuffleQuestions === true,
+    shuffleOptions: settings.shuffleOptions === true,
+  };
+}
+
+function validateAnswer(value: unknown): QuizAnswer | null {
+  if (typeof value !== "object" || value === null) return null;
+  const answer = value as Record<string, unknown>;
+
+  if (
+    typeof answer.id !== "number" ||
+    !isShortString(answer.question) ||
+    !Array.isArray(answer.options) ||
+    answer.options.length !== OPTION_LETTERS.length ||
+    !answer.options.every(isShortString) ||
+    !(OPTION_LETTERS as readonly unknown[]).includes(answer.correct) ||
+    !(answer.selected === null || (OPTION_LETTERS as readonly unknown[]).includes(answer.selected)) ||
+    !(answer.explanation === undefined || isShortString(answer.explanation))
+  ) {
+    return null;
+  }
+
+  return {
+    id: answer.id,
+    question: answer.question,
+    options: answer.options as string[],
+    correct: answer.correct as string,
+    selected: answer.selected as string | null,
+    ...(answer.explanation ? { explanation: answer.explanation as string } : {}),
+  };
+}
+
+/**
+ * Validate a submitted attempt. The score is recomputed from the answers
+ * rather than trusted from the client.
+ */
+export function validateQuizAttempt(value: unknown): { valid: boolean; error?: string; attempt?: QuizAttempt } {
+  if (typeof value !== "object" || value === null) {
+    return { valid: false, error: "Attempt must be an object." };
+  }
+  const input = value as Record<string, unknown>;
+
+  const settings = validateSettings(input.settings);
+  if (!settings) {
+    return { valid: false, error: "Invalid quiz settings." };
+  }
+
+  if (!Array.isArray(input.answers) || input.answers.length === 0 || input.answers.length > MAX_QUIZ_QUESTIONS) {
+    return { valid: false, error: `An attempt must contain between 1 and ${MAX_QUIZ_QUESTIONS} answers.` };
+  }
+
+  const answers: QuizAnswer[] = [];
+  for (const item of input.answers) {
+    const answer = validateAnswer(item);
+    if (!answer) {
+      return { valid: false, error: "Invalid answer in attempt." };
+    }
+    answers.push(answer);
+  }
+
+  const duration = input.durationSeconds;
+  if (typeof duration !== "number" || !Number.isFinite(duration) || duration < 0) {
+    return { valid: false, error: "Invalid attempt duration." };
+  }
+
+  if (input.title !== undefined && !isShortString(input.title)) {
+    return { valid: false, error: "Invalid quiz title." };
+  }
+
+  return {
+    valid: true,
+    attempt: {
+      ...(input.title ? { title: input.title as string } : {}),
+      settings,
+      answers,
+      score: scoreAnswers(answers),
+      total: answers.length,
+      durationSeconds: Math.round(duration),
+      timedOut: input.timedOut === true,
+      completedAt: new Date().toISOString(),
+    },
+  };
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
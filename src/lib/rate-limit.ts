@@ -1,4 +1,5 @@
-import { NextRequest } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/current-user";
 
 export interface RateLimitResult {
     allowed: boolean;
@@ -7,16 +8,21 @@ export interface RateLimitResult {
 }
 
 export interface RateLimiter {
-    check(req: NextRequest, limit?: number, windowMs?: number): Promise<RateLimitResult>;
+    // `key` identifies the client and the quota, e.g. "mcq:ip:1.2.3.4"
+    check(key: string, limit?: number, windowMs?: number): Promise<RateLimitResult>;
+}
+
+export function getClientIp(req: NextRequest): string {
+    const forwarded = req.headers.get("x-forwarded-for");
+    return forwarded ? forwarded.split(",")[0].trim() : req.headers.get("x-real-ip") || "unknown";
 }
 
 // In-Memory implementation (default for dev/local)
-class MemoryRateLimiter implements RateLimiter {
+export class MemoryRateLimiter implements RateLimiter {
     private store = new Map<string, { count: number; resetTime: number }>();
 
-    async check(req: NextRequest, limit: number = 10, windowMs: number = 60000): Promise<RateLimitResult> {
-        const ip = this.getIp(req);
-        const key = `rate_limit:${ip}`;
+    async check(clientKey: string, limit: number = 10, windowMs: number = 60000): Promise<RateLimitResult> {
+        const key = `rate_limit:${clientKey}`;
         const now = Date.now();
 
         // Cleanup
@@ -40,11 +46,6 @@ class MemoryRateLimiter implements RateLimiter {
         return { allowed: true, remaining: limit - entry.count, resetAt: entry.resetTime };
     }
 
-    private getIp(req: NextRequest): string {
-        const forwarded = req.headers.get("x-forwarded-for");
-        return forwarded ? forwarded.split(",")[0].trim() : req.headers.get("x-real-ip") || "unknown";
-    }
-
     private cleanup(now: number) {
         for (const [key, value] of this.store.entries()) {
             if (value.resetTime < now) {
@@ -54,21 +55,248 @@ class MemoryRateLimiter implements RateLimiter {
     }
 }
 
-// Redis implementation (Stub for future use)
-class RedisRateLimiter implements RateLimiter {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    async check(req: NextRequest, limit: number = 10, windowMs: number = 60000): Promise<RateLimitResult> {
-        // TODO: Implement actual Redis logic here using Vercel KV or Upstash
-        console.warn("RedisRateLimiter is not yet implemented. Falling back to MemoryRateLimiter.");
-        return new MemoryRateLimiter().check(req, limit, windowMs);
+type RedisCommand = Array<string | number>;
+type RedisReply = { result?: unknown; error?: string };
+
+export interface RedisRateLimiterOptions {
+    // Upstash / Vercel KV REST endpoint and token (KV_REST_API_URL / KV_REST_API_TOKEN)
+    url: string;
+    token: string;
+    // Per-request timeout for the REST call
+    timeoutMs?: number;
+}
+
+/**
+ * Sliding-window limiter over the Upstash / Vercel KV REST protocol.
+ *
+ * Each request is a member of a sorted set scored by its timestamp. Entries
+ * older than the window are trimmed, so the limit applies to any rolling
+ * `windowMs` period rather than fixed buckets. Rejected requests are removed
+ * again so they do not extend the block.
+ *
+ * If the KV store cannot be reached the limiter fails open to the in-memory
+ * limiter instead of rejecting every request.
+ */
+export class RedisRateLimiter implements RateLimiter {
+    private readonly url: string;
+    private readonly token: string;
+    private readonly timeoutMs: number;
+    private readonly fallback = new MemoryRateLimiter();
+
+    constructor(options: RedisRateLimiterOptions) {
+        this.url = options.url.replace(/\/+$/, "");
+        this.token = options.token;
+        this.timeoutMs = options.timeoutMs ?? 2000;
+    }
+
+    async check(clientKey: string, limit: number = 10, windowMs: number = 60000): Promise<RateLimitResult> {
+        const key = `rate_limit:${clientKey}`;
+        const now = Date.now();
+        const member = `${now}:${Math.random().toString(36).slice(2, 10)}`;
+
+        try {
+            // Runs atomically, so concurrent instances see consistent counts
+            const [, , count, oldest] = await this.exec("multi-exec", [
+                ["ZREMRANGEBYSCORE", key, 0, now - windowMs],
+                ["ZADD", key, now, member],
+                ["ZCARD", key],
+                ["ZRANGE", key, 0, 0, "WITHSCORES"],
+                ["PEXPIRE", key, windowMs],
+            ]);
+
+            const used = Number(count);
+            const oldestScore = Array.isArray(oldest) && oldest.length >= 2 ? Number(oldest[1]) : now;
+            // The oldest request leaving the window frees the next slot
+            const resetAt = oldestScore + windowMs;
+
+            if (used > limit) {
+                await this.exec("pipeline", [["ZREM", key, member]]);
+                return { allowed: false, remaining: 0, resetAt };
+            }
+
+            return { allowed: true, remaining: limit - used, resetAt };
+        } catch (error) {
+            console.error("RedisRateLimiter unavailable, falling back to in-memory limiting:", {
+                error: error instanceof Error ? error.message : "Unknown error",
+            });
+            return this.fallback.check(clientKey, limit, windowMs);
+        }
+    }
+
+    private async exec(endpoint: "pipeline" | "multi-exec", commands: RedisCommand[]): Promise<unknown[]> {
+        const response = await fetch(`${this.url}/${endpoint}`, {
+            method: "POST",
+            headers: {
+                Authorization: `Bearer ${this.token}`,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify(commands),
+            cache: "no-store",
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+
+        if (!response.ok) {
+            throw new Error(`KV REST API error: ${response.status}`);
+        }
+
+        const replies = (await response.json()) as RedisReply[];
+        return replies.map((reply) => {
+            if (reply.error) {
+                throw new Error(`KV REST API error: ${reply.error}`);
+            }
+            return reply.result;
+        });
     }
 }
 
-// Factory
+// Factory - one shared limiter per process, so counts survive across requests
+let limiter: RateLimiter | null = null;
+
 export function getRateLimiter(): RateLimiter {
-    const useRedis = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN;
-    if (useRedis) {
-        return new RedisRateLimiter();
+    if (!limiter) {
+        const url = process.env.KV_REST_API_URL;
+        const token = process.env.KV_REST_API_TOKEN;
+        limiter = url && token ? new RedisRateLimiter({ url, token }) : new MemoryRateLimiter();
+    }
+    return limiter;
+}
+
+// ============================================================================
+// Per-route quotas
+// ============================================================================
+export type RateLimitedRoute =
+    | "format"
+    | "mcq"
+    | "flashcards"
+    | "flashcards-export"
+    | "concept-booster"
+    | "concept-sessions"
+    | "learning-paths"
+    | "learning-paths-saved"
+    | "quiz-attempts"
+    | "presets"
+    | "history"
+    | "session"
+    | "auth";
+
+interface RateLimitQuota {
+    limit: number;
+    windowMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Signed-in users are counted per account (across devices and IPs) and get
+// a larger quota; signed-out visitors are counted per IP.
+const ROUTE_QUOTAS: Record<RateLimitedRoute, { anonymous: RateLimitQuota; user: RateLimitQuota }> = {
+    format: {
+        anonymous: { limit: 20, windowMs: MINUTE_MS },
+        user: { limit: 40, windowMs: MINUTE_MS },
+    },
+    mcq: {
+        anonymous: { limit: 10, windowMs: MINUTE_MS },
+        user: { limit: 20, windowMs: MINUTE_MS },
+    },
+    flashcards: {
+        anonymous: { limit: 10, windowMs: MINUTE_MS },
+        user: { limit: 20, windowMs: MINUTE_MS },
+    },
+    // Building an .apkg runs sql.js and zips the deck on every request
+    "flashcards-export": {
+        anonymous: { limit: 5, windowMs: MINUTE_MS },
+        user: { limit: 10, windowMs: MINUTE_MS },
+    },
+    // One learning session makes a request per step
+    "concept-booster": {
+        anonymous: { limit: 20, windowMs: MINUTE_MS },
+        user: { limit: 40, windowMs: MINUTE_MS },
+    },
+    // Loading, resuming and deleting saved sessions; no model calls
+    "concept-sessions": {
+        anonymous: { limit: 60, windowMs: MINUTE_MS },
+        user: { limit: 120, windowMs: MINUTE_MS },
+    },
+    // Planning a path is one larger request; its nodes count as concept-booster
+    "learning-paths": {
+        anonymous: { limit: 5, windowMs: MINUTE_MS },
+        user: { limit: 10, windowMs: MINUTE_MS },
+    },
+    // Listing, opening and deleting saved paths; no model calls
+    "learning-paths-saved": {
+        anonymous: { limit: 60, windowMs: MINUTE_MS },
+        user: { limit: 120, windowMs: MINUTE_MS },
+    },
+    // Saving finished quizzes; only signed-in users can save
+    "quiz-attempts": {
+        anonymous: { limit: 10, windowMs: MINUTE_MS },
+        user: { limit: 20, windowMs: MINUTE_MS },
+    },
+    // Saved presets and history: database reads and writes, no model calls
+    presets: {
+        anonymous: { limit: 30, windowMs: MINUTE_MS },
+        user: { limit: 60, windowMs: MINUTE_MS },
+    },
+    history: {
+        anonymous: { limit: 30, windowMs: MINUTE_MS },
+        user: { limit: 60, windowMs: MINUTE_MS },
+    },
+    // Session lookup (every page load) and sign-out
+    session: {
+        anonymous: { limit: 60, windowMs: MINUTE_MS },
+        user: { limit: 120, windowMs: MINUTE_MS },
+    },
+    // Sign-in/sign-up attempts, always per IP to slow down password guessing
+    auth: {
+        anonymous: { limit: 10, windowMs: 15 * MINUTE_MS },
+        user: { limit: 10, windowMs: 15 * MINUTE_MS },
+    },
+};
+
+export interface RouteRateLimit extends RateLimitResult {
+    limit: number;
+}
+
+/**
+ * Count a request against the route's quota for the current user (or IP)
+ */
+export async function checkRateLimit(req: NextRequest, route: RateLimitedRoute): Promise<RouteRateLimit> {
+    const userId = route === "auth" ? null : await getCurrentUserId(req).catch(() => null);
+    const quota = userId ? ROUTE_QUOTAS[route].user : ROUTE_QUOTAS[route].anonymous;
+    const key = userId ? `${route}:user:${userId}` : `${route}:ip:${getClientIp(req)}`;
+
+    const result = await getRateLimiter().check(key, quota.limit, quota.windowMs);
+    return { ...result, limit: quota.limit };
+}
+
+/**
+ * Standard rate limit headers; Retry-After (seconds) is only sent when blocked
+ */
+export function rateLimitHeaders(rateLimit: RouteRateLimit): Record<string, string> {
+    const headers: Record<string, string> = {
+        "X-RateLimit-Limit": rateLimit.limit.toString(),
+        "X-RateLimit-Remaining": rateLimit.remaining.toString(),
+        "X-RateLimit-Reset": rateLimit.resetAt.toString(),
+    };
+    if (!rateLimit.allowed) {
+        headers["Retry-After"] = getRetryAfterSeconds(rateLimit).toString();
     }
-    return new MemoryRateLimiter();
+    return headers;
+}
+
+function getRetryAfterSeconds(rateLimit: RateLimitResult): number {
+    return Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000));
+}
+
+/**
+ * 429 response for a blocked request
+ */
+export function rateLimitExceededResponse(rateLimit: RouteRateLimit): NextResponse {
+    return NextResponse.json(
+        {
+            error: "Rate limit exceeded. Please try again later.",
+            code: "RATE_LIMITED",
+            retry_after: getRetryAfterSeconds(rateLimit),
+        },
+        { status: 429, headers: rateLimitHeaders(rateLimit) },
+    );
 }
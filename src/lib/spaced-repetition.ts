@@ -0,0 +1,248 @@
+/**
+ * Spaced-repetition scheduling for flashcards (SM-2)
+ *
+ * Each generated flashcard set is stored as a deck in localStorage together
+ * with a per-card schedule. Reviewing a card grades it again/hard/good/easy,
+ * which maps to an SM-2 quality score and moves its due date:
+ * - again: the card is relearned (repetitions reset) and due again shortly
+ * - hard/good/easy: 1 day, then 6 days, then interval x ease factor
+ *
+ * Client-side only (uses localStorage).
+ */
+
+import type { Flashcard } from "@/components/FlashcardDisplay";
+
+export const REVIEW_GRADES = ["again", "hard", "good", "easy"] as const;
+export type ReviewGrade = (typeof REVIEW_GRADES)[number];
+
+export interface CardSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string;
+}
+
+export interface FlashcardDeck {
+  id: string;
+  title: string;
+  createdAt: string;
+  cards: Flashcard[];
+  // Keyed by card id; cards without a schedule are new and due immediately
+  schedules: Record<number, CardSchedule>;
+}
+
+const STORAGE_KEY = "brainbolt_flashcard_decks";
+const CHANGE_EVENT = "brainbolt:decks-changed";
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASY_BONUS = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A failed card comes back in the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Compute a card's next schedule after it is graded
+ */
+export function scheduleReview(
+  previous: CardSchedule | undefined,
+  grade: ReviewGrade,
+  now: Date = new Date(),
+): CardSchedule {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = previous?.easeFactor ?? DEFAULT_EASE;
+  const repetitions = previous?.repetitions ?? 0;
+  const lapses = previous?.lapses ?? 0;
+
+  // SM-2 ease update, applied for every grade
+  const nextEase = Math.max(
+    MIN_EASE,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  );
+
+  if (quality < 3) {
+    return {
+      easeFactor: nextEase,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: repetitions > 0 ? lapses + 1 : lapses,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      lastReviewedAt: now.toISOString(),
+    };
+  }
+
+  let intervalDays: number;
+  if (repetitions === 0) {
+    intervalDays = 1;
+  } else if (repetitions === 1) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round((previous?.intervalDays || 1) * nextEase);
+  }
+  if (grade === "easy") {
+    intervalDays = Math.round(intervalDays * EASY_BONUS);
+  }
+
+  return {
+    easeFactor: nextEase,
+    intervalDays,
+    repetitions: repetitions + 1,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Short label for when a grade would bring the card back, e.g. "10m", "6d"
+ */
+export function describeInterval(schedule: CardSchedule, now: Date = new Date()): string {
+  const ms = new Date(schedule.dueAt).getTime() - now.getTime();
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  const days = Math.round(ms / DAY_MS);
+  return days < 30 ? `${days}d` : `${Math.round(days / 30)}mo`;
+}
+
+function endOfDay(now: Date): number {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+}
+
+/**
+ * Cards due by the end of today (new cards included), earliest first
+ */
+export function getDueCards(deck: FlashcardDeck, now: Date = new Date()): Flashcard[] {
+  const cutoff = endOfDay(now);
+  const dueAt = (card: Flashcard) => {
+    const schedule = deck.schedules[card.id];
+    return schedule ? new Date(schedule.dueAt).getTime() : 0;
+  };
+
+  return deck.cards.filter((card) => dueAt(card) <= cutoff).sort((a, b) => dueAt(a) - dueAt(b));
+}
+
+// ============================================================================
+// Deck storage
+// ============================================================================
+
+/**
+ * Stable id for a set of cards, so saving the same set twice keeps its progress
+ */
+export function getDeckId(cards: Flashcard[]): string {
+  const text = cards.map((card) => `${card.front}\u0000${card.back}`).join("\u0001");
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `deck_${(hash >>> 0).toString(36)}_${cards.length}`;
+}
+
+let cachedRaw: string | null = null;
+let cachedDecks: FlashcardDeck[] = [];
+
+/**
+ * All saved decks, newest first. Returns the same array until storage
+ * changes, so it can be used as a useSyncExternalStore snapshot.
+ */
+export function loadDecks(): FlashcardDeck[] {
+  if (typeof window === "undefined") return cachedDecks;
+
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw === cachedRaw) return cachedDecks;
+
+  cachedRaw = raw;
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    cachedDecks = Array.isArray(parsed) ? (parsed as FlashcardDeck[]) : [];
+  } catch {
+    cachedDecks = [];
+  }
+  return cachedDecks;
+}
+
+const EMPTY_DECKS: FlashcardDeck[] = [];
+
+// Server snapshot for useSyncExternalStore: nothing is stored server-side
+export function loadDecksOnServer(): FlashcardDeck[] {
+  return EMPTY_DECKS;
+}
+
+function writeDecks(decks: FlashcardDeck[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(decks));
+  } catch (error) {
+    console.error("Error saving flashcard decks:", error);
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/**
+ * Subscribe to deck changes from this tab and from other tabs
+ */
+export function subscribeToDecks(onChange: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener("storage", onChange);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
+
+export function getDeck(id: string): FlashcardDeck | undefined {
+  return loadDecks().find((deck) => deck.id === id);
+}
+
+/**
+ * Save a generated set as a deck, keeping the progress of an existing deck
+ * with the same cards
+ */
+export function saveDeck(cards: Flashcard[], title: string): FlashcardDeck {
+  const id = getDeckId(cards);
+  const existing = getDeck(id);
+  if (existing) return existing;
+
+  const deck: FlashcardDeck = {
+    id,
+    title,
+    createdAt: new Date().toISOString(),
+    cards,
+    schedules: {},
+  };
+  writeDecks([deck, ...loadDecks()]);
+  return deck;
+}
+
+/**
+ * Grade a card and persist its new schedule
+ */
+export function recordReview(deckId: string, cardId: number, grade: ReviewGrade): CardSchedule | null {
+  const decks = loadDecks();
+  const deck = decks.find((d) => d.id === deckId);
+  if (!deck) return null;
+
+  const schedule = scheduleReview(deck.schedules[cardId], grade);
+  writeDecks(
+    decks.map((d) =>
+      d.id === deckId ? { ...d, schedules: { ...d.schedules, [cardId]: schedule } } : d,
+    ),
+  );
+  return schedule;
+}
+
+export function deleteDeck(id: string): void {
+  writeDecks(loadDecks().filter((deck) => deck.id !== id));
+}
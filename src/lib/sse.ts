@@ -0,0 +1,118 @@
+/**
+ * Server-sent events helpers
+ *
+ * `createEventStreamResponse` is used by API routes to stream named events;
+ * `readEventStream` is used in the browser to consume them from a fetch()
+ * response (EventSource only supports GET, our routes are POST).
+ */
+
+export type SendEvent = (event: string, data: object) => void;
+
+/**
+ * Build a text/event-stream response.
+ *
+ * `run` receives a `send` function and an AbortSignal that fires when the
+ * client disconnects or the request is aborted. Events sent after that point
+ * are dropped. The stream is closed when `run` settles. `headers` are added
+ * to the response (e.g. rate limit headers).
+ */
+export function createEventStreamResponse(
+  requestSignal: AbortSignal,
+  headers: Record<string, string>,
+  run: (send: SendEvent, signal: AbortSignal) => Promise<void>,
+): Response {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  requestSignal.addEventListener("abort", abort);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send: SendEvent = (event, data) => {
+        if (controller.signal.aborted) return;
+        streamController.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        );
+      };
+
+      try {
+        await run(send, controller.signal);
+      } finally {
+        requestSignal.removeEventListener("abort", abort);
+        if (!controller.signal.aborted) {
+          streamController.close();
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Read named events from a streaming fetch() response until it ends.
+ * Pass the same AbortSignal used for the fetch to stop reading early.
+ */
+export async function readEventStream(
+  res: Response,
+  onEvent: (event: string, data: unknown) => void,
+): Promise<void> {
+  if (!res.body) {
+    throw new Error("Streaming is not supported in this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+
+    if (dataLines.length === 0) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(dataLines.join("\n"));
+    } catch {
+      return;
+    }
+
+    onEvent(event, data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+}
@@ -0,0 +1,700 @@
+/**
+ * Structured (JSON) output from the LLM
+ *
+ * SECURITY: This file MUST only be imported in server-side API routes.
+ *
+ * Models wrap JSON in Markdown fences, add a sentence before it, leave
+ * trailing commas or stop mid-array. This module:
+ * 1. extracts the JSON value from noisy output,
+ * 2. repairs common defects (trailing commas, truncated arrays/objects,
+ *    unescaped LaTeX backslashes),
+ * 3. validates it against a small JSON-schema subset,
+ * 4. and, if that still fails, re-prompts the model once with the
+ *    validation errors quoted back to it.
+ */
+
+import { createChatCompletion, type AnsweredBy } from "@/lib/llm-fallback";
+import type { ChatMessage } from "@/lib/llm-providers";
+import type { ModelConfig } from "@/lib/modelRouter";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * The subset of JSON Schema the validator understands
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  items?: JsonSchema;
+  enum?: readonly (string | number)[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+/**
+ * A schema tagged with the TypeScript type it describes
+ */
+export type TypedSchema<T> = JsonSchema & { readonly __type?: T };
+
+function defineSchema<T>(schema: JsonSchema): TypedSchema<T> {
+  return schema;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns A list of human-readable errors (empty when valid), e.g.
+ *          "$.mcqs[2].options: expected at least 4 items, got 3"
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const matches =
+      schema.type === actual || (schema.type === "number" && actual === "integer");
+    if (!matches) {
+      return [`${path}: expected ${schema.type}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push(`${path}: must not be empty`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items as JsonSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (actual === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined && record[key] !== null) {
+        errors.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Extraction & repair
+// ============================================================================
+
+// LaTeX commands that begin like a JSON escape (\b, \f, \n, \r, \t, \u)
+const LATEX_COMMAND_AT_ESCAPE =
+  /^\\(?:b(?:eta|ar|egin|inom|oldsymbol|ig)|f(?:rac|orall)|n(?:abla|eq|u|ot|e)|r(?:ho|ight|angle)|t(?:heta|au|imes|ext|an|o|frac|riangle|ilde)|u(?:nderline|parrow|psilon))(?![a-zA-Z])/;
+
+/**
+ * Whether the backslash at `index` of a JSON string is a LaTeX command the
+ * model forgot to escape: "\alpha" does not parse, and "\frac" silently
+ * parses as a form feed followed by "rac"
+ */
+function isUnescapedLatex(text: string, index: number): boolean {
+  const next = text[index + 1];
+  if (next === undefined) return false;
+
+  const lookahead = text.slice(index, index + 16);
+  if (LATEX_COMMAND_AT_ESCAPE.test(lookahead)) return true;
+  if (next === "u") return !/^\\u[0-9a-fA-F]{4}/.test(lookahead);
+  return !'"\\/bfnrt'.includes(next);
+}
+
+/**
+ * Cut the first JSON object/array out of noisy model output (Markdown
+ * fences, a preamble, commentary after the JSON). Repairs trailing commas,
+ * escapes LaTeX backslashes in strings and closes truncated output,
+ * dropping an incomplete last element.
+ *
+ * @returns The repaired JSON text, or null when there is no JSON at all
+ */
+export function extractJson(text: string): string | null {
+  const start = text.search(/[{[]/);
+  if (start === -1) return null;
+
+  let out = "";
+  const closers: string[] = [];
+  // Safe truncation points: right before each top-level-or-nested comma
+  const cuts: Array<{ length: number; closers: string[] }> = [];
+  let inString = false;
+  let escaped = false;
+
+  const source = text.slice(start);
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inString) {
+      if (!escaped && ch === "\\" && isUnescapedLatex(source, i)) {
+        out += "\\\\";
+        continue;
+      }
+
+      out += ch;
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === "{" || ch === "[") {
+      closers.push(ch === "{" ? "}" : "]");
+      out += ch;
+    } else if (ch === "}" || ch === "]") {
+      if (closers[closers.length - 1] !== ch) continue; // stray bracket
+      out = out.replace(/,\s*$/, ""); // trailing comma
+      closers.pop();
+      out += ch;
+      if (closers.length === 0) return out; // ignore anything after the JSON
+    } else if (ch === ",") {
+      cuts.push({ length: out.length, closers: [...closers] });
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+
+  // Truncated: close what is open, then fall back to earlier cut points
+  const close = (body: string, open: string[]) =>
+    body.replace(/[,:\s]+$/, "") + [...open].reverse().join("");
+
+  const attempts = [close(inString ? `${out}"` : out, closers)];
+  for (let i = cuts.length - 1; i >= 0; i--) {
+    attempts.push(close(out.slice(0, cuts[i].length), cuts[i].closers));
+  }
+
+  for (const attempt of attempts) {
+    try {
+      JSON.parse(attempt);
+      return attempt;
+    } catch {
+      // try the next, shorter candidate
+    }
+  }
+
+  return attempts[0];
+}
+
+/**
+ * Parse model output as JSON, repairing it if needed
+ */
+export function parseModelJson(text: string): { value?: unknown; error?: string } {
+  const json = extractJson(text);
+  if (json === null) {
+    return { error: "the response does not contain a JSON object" };
+  }
+
+  try {
+    return { value: JSON.parse(json) };
+  } catch (error) {
+    return { error: `invalid JSON (${error instanceof Error ? error.message : "parse error"})` };
+  }
+}
+
+// ============================================================================
+// Output types & schemas
+// ============================================================================
+
+/**
+ * The error object every prompt asks the model to return when it cannot
+ * answer (e.g. INSUFFICIENT_CONTEXT). It is passed through unvalidated.
+ */
+export interface StructuredErrorResponse {
+  status: "ERROR";
+  error_code?: string;
+  message?: string;
+}
+
+export interface MCQ {
+  id?: number;
+  question: string;
+  options: string[];
+  correct: string;
+  explanation?: string;
+}
+
+export interface MCQGenerationResponse {
+  status: "OK";
+  mcqs: MCQ[];
+  metadata?: { source_tokens_estimate?: number };
+}
+
+export interface Flashcard {
+  id?: number;
+  type?: "concept" | "application" | "trick";
+  front: string;
+  back: string;
+}
+
+export interface FlashcardGenerationResponse {
+  status: "OK";
+  flashcards: Flashcard[];
+  metadata?: { tokens_estimate?: number };
+}
+
+export const CONCEPT_BOOSTER_STEPS = [
+  "diagnostic",
+  "explanation",
+  "ask_doubts",
+  "check_understanding",
+  "grading",
+  "review",
+  "practice",
+  "feedback",
+] as const;
+export type ConceptBoosterStep = (typeof CONCEPT_BOOSTER_STEPS)[number];
+
+export const GRADING_VERDICTS = ["correct", "partial", "incorrect"] as const;
+export type GradingVerdict = (typeof GRADING_VERDICTS)[number];
+
+export interface GradedAnswer {
+  id: number;
+  verdict: GradingVerdict;
+  rationale: string;
+  // The sub-concept a wrong or partial answer shows is missing
+  missed_concept?: string;
+  // Filled in by the route from the stored understanding check
+  question?: string;
+  answer?: string;
+}
+
+export interface ConceptBoosterResponse {
+  status: "OK";
+  step: string;
+  content: {
+    questions?: Array<{ id: number; question: string }>;
+    explanation?: {
+      simple_intuition: string;
+      analogy: string;
+      level_appropriate_detail: string;
+      example: string;
+      // Mermaid source, when a picture helps
+      diagram?: string;
+    };
+    answer?: string;
+    understanding_check?: {
+      questions: Array<{ id: number; question: string; correct_answer?: string }>;
+    };
+    grading?: {
+      results: GradedAnswer[];
+      // 0-100, computed by the route from the verdicts
+      mastery?: number;
+    };
+    review?: {
+      concepts: Array<{ concept: string; explanation: string; example?: string }>;
+    };
+    practice_task?: {
+      task: string;
+      ideal_response?: string;
+    };
+    feedback?: {
+      comparison: string;
+      improvements: string[];
+      misunderstandings: string[];
+    };
+    message?: string;
+  };
+  metadata?: {
+    learning_level?: string;
+    topic?: string;
+    tokens_estimate?: number;
+  };
+}
+
+export interface LearningPathResponse {
+  status: "OK";
+  nodes: Array<{
+    id: string;
+    title: string;
+    description?: string;
+    // Ids of the nodes to learn first
+    prerequisites?: string[];
+  }>;
+  metadata?: { tokens_estimate?: number };
+}
+
+const NON_EMPTY_STRING: JsonSchema = { type: "string", minLength: 1 };
+
+export const MCQ_RESPONSE_SCHEMA = defineSchema<MCQGenerationResponse>({
+  type: "object",
+  required: ["status", "mcqs"],
+  properties: {
+    status: { enum: ["OK"] },
+    mcqs: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["question", "options", "correct"],
+        properties: {
+          id: { type: "integer" },
+          question: NON_EMPTY_STRING,
+          options: { type: "array", minItems: 4, maxItems: 4, items: NON_EMPTY_STRING },
+          correct: { type: "string", pattern: "^\\s*[A-Da-d]\\s*$" },
+          explanation: { type: "string" },
+        },
+      },
+    },
+    metadata: { type: "object" },
+  },
+});
+
+export const FLASHCARD_RESPONSE_SCHEMA = defineSchema<FlashcardGenerationResponse>({
+  type: "object",
+  required: ["status", "flashcards"],
+  properties: {
+    status: { enum: ["OK"] },
+    flashcards: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["front", "back"],
+        properties: {
+          id: { type: "integer" },
+          type: { enum: ["concept", "application", "trick"] },
+          front: NON_EMPTY_STRING,
+          back: NON_EMPTY_STRING,
+        },
+      },
+    },
+    metadata: { type: "object" },
+  },
+});
+
+const QUESTION_LIST: JsonSchema = {
+  type: "array",
+  minItems: 1,
+  items: {
+    type: "object",
+    required: ["id", "question"],
+    properties: { id: { type: "integer" }, question: NON_EMPTY_STRING },
+  },
+};
+
+export const LEARNING_PATH_RESPONSE_SCHEMA = defineSchema<LearningPathResponse>({
+  type: "object",
+  required: ["status", "nodes"],
+  properties: {
+    status: { enum: ["OK"] },
+    nodes: {
+      type: "array",
+      minItems: 2,
+      items: {
+        type: "object",
+        required: ["id", "title"],
+        properties: {
+          id: NON_EMPTY_STRING,
+          title: NON_EMPTY_STRING,
+          description: { type: "string" },
+          prerequisites: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+    metadata: { type: "object" },
+  },
+});
+
+// What `content` must contain for each step
+const CONCEPT_BOOSTER_CONTENT: Record<ConceptBoosterStep, JsonSchema> = {
+  diagnostic: {
+    type: "object",
+    required: ["questions"],
+    properties: { questions: QUESTION_LIST },
+  },
+  explanation: {
+    type: "object",
+    required: ["explanation"],
+    properties: {
+      explanation: {
+        type: "object",
+        required: ["simple_intuition", "analogy", "level_appropriate_detail", "example"],
+        properties: {
+          simple_intuition: NON_EMPTY_STRING,
+          analogy: NON_EMPTY_STRING,
+          level_appropriate_detail: NON_EMPTY_STRING,
+          example: NON_EMPTY_STRING,
+          diagram: { type: "string" },
+        },
+      },
+    },
+  },
+  ask_doubts: {
+    type: "object",
+    required: ["message"],
+    properties: { message: { type: "string" }, answer: { type: "string" } },
+  },
+  check_understanding: {
+    type: "object",
+    required: ["understanding_check"],
+    properties: {
+      understanding_check: {
+        type: "object",
+        required: ["questions"],
+        properties: { questions: QUESTION_LIST },
+      },
+    },
+  },
+  grading: {
+    type: "object",
+    required: ["grading"],
+    properties: {
+      grading: {
+        type: "object",
+        required: ["results"],
+        properties: {
+          results: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              required: ["id", "verdict", "rationale"],
+              properties: {
+                id: { type: "integer" },
+                verdict: { enum: [...GRADING_VERDICTS] },
+                rationale: NON_EMPTY_STRING,
+                missed_concept: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  review: {
+    type: "object",
+    required: ["review"],
+    properties: {
+      review: {
+        type: "object",
+        required: ["concepts"],
+        properties: {
+          concepts: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              required: ["concept", "explanation"],
+              properties: {
+                concept: NON_EMPTY_STRING,
+                explanation: NON_EMPTY_STRING,
+                example: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  practice: {
+    type: "object",
+    required: ["practice_task"],
+    properties: {
+      practice_task: {
+        type: "object",
+        required: ["task"],
+        properties: { task: NON_EMPTY_STRING, ideal_response: { type: "string" } },
+      },
+    },
+  },
+  feedback: {
+    type: "object",
+    required: ["feedback"],
+    properties: {
+      feedback: {
+        type: "object",
+        required: ["comparison", "improvements", "misunderstandings"],
+        properties: {
+          comparison: NON_EMPTY_STRING,
+          improvements: { type: "array", items: { type: "string" } },
+          misunderstandings: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+};
+
+export function conceptBoosterResponseSchema(
+  step: ConceptBoosterStep,
+): TypedSchema<ConceptBoosterResponse> {
+  return defineSchema<ConceptBoosterResponse>({
+    type: "object",
+    required: ["status", "content"],
+    properties: {
+      status: { enum: ["OK"] },
+      step: { type: "string" },
+      content: CONCEPT_BOOSTER_CONTENT[step],
+      metadata: { type: "object" },
+    },
+  });
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[],
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export interface StructuredResult<T> {
+  data: T | StructuredErrorResponse;
+  answeredBy: AnsweredBy;
+  // True when the first answer failed validation and the model was re-prompted
+  reprompted: boolean;
+}
+
+function isErrorResponse(value: unknown): value is StructuredErrorResponse {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { status?: unknown }).status === "ERROR"
+  );
+}
+
+function check<T>(
+  raw: string,
+  schema: TypedSchema<T>,
+  normalize?: (value: unknown) => unknown,
+): { data?: T | StructuredErrorResponse; errors: string[] } {
+  const parsed = parseModelJson(raw);
+  if (parsed.error) {
+    return { errors: [parsed.error] };
+  }
+
+  const value = normalize ? normalize(parsed.value) : parsed.value;
+  if (isErrorResponse(value)) {
+    return { data: value, errors: [] };
+  }
+
+  const errors = validateSchema(value, schema);
+  return errors.length === 0 ? { data: value as T, errors } : { errors };
+}
+
+const MAX_ERRORS_IN_REPROMPT = 10;
+
+/**
+ * Ask the model for JSON matching `schema`.
+ *
+ * If the (repaired) answer does not validate, the model is re-prompted once
+ * with its own answer and the validation errors. A model-declared error
+ * object (`"status": "ERROR"`) is returned as-is for the route to handle.
+ *
+ * @param normalize - Optional hook to reshape the parsed value before
+ *                    validation (e.g. wrap a bare array in the envelope)
+ * @throws StructuredOutputError when the corrected answer is still invalid
+ */
+export async function generateStructured<T>(
+  config: ModelConfig,
+  options: {
+    messages: ChatMessage[];
+    schema: TypedSchema<T>;
+    signal?: AbortSignal;
+    normalize?: (value: unknown) => unknown;
+  },
+): Promise<StructuredResult<T>> {
+  const first = await createChatCompletion(config, {
+    messages: options.messages,
+    signal: options.signal,
+  });
+  const firstCheck = check(first.content, options.schema, options.normalize);
+  const firstAnsweredBy: AnsweredBy = {
+    provider: first.provider,
+    model: first.model,
+    attempts: first.attempts,
+  };
+
+  if (firstCheck.data) {
+    return { data: firstCheck.data, answeredBy: firstAnsweredBy, reprompted: false };
+  }
+
+  console.warn("Structured output failed validation, re-prompting:", {
+    model: first.model,
+    errors: firstCheck.errors.slice(0, MAX_ERRORS_IN_REPROMPT),
+  });
+
+  // One corrective re-prompt, pinned to the model that produced the answer
+  const errorList = firstCheck.errors
+    .slice(0, MAX_ERRORS_IN_REPROMPT)
+    .map((error) => `- ${error}`)
+    .join("\n");
+  const second = await createChatCompletion(
+    { ...config, provider: first.provider, model: first.model, fallbacks: [] },
+    {
+      messages: [
+        ...options.messages,
+        { role: "assistant", content: first.content },
+        {
+          role: "user",
+          content: `Your previous response could not be used because it is not valid JSON for the required format:
+${errorList}
+
+Return the complete corrected JSON object only, with no Markdown fences or commentary.`,
+        },
+      ],
+      signal: options.signal,
+    },
+  );
+  const secondCheck = check(second.content, options.schema, options.normalize);
+
+  if (secondCheck.data) {
+    return {
+      data: secondCheck.data,
+      answeredBy: { ...firstAnsweredBy, attempts: first.attempts + second.attempts },
+      reprompted: true,
+    };
+  }
+
+  throw new StructuredOutputError(
+    `Model output failed validation after a corrective re-prompt: ${secondCheck.errors.slice(0, 3).join("; ")}`,
+    secondCheck.errors,
+  );
+}